@@ -11,6 +11,7 @@ const scripts = {
   dev: 'vite',
   build: 'vite build',
   preview: 'vite preview',
+  test: 'vitest run',
   lint: 'eslint . --ext ts,tsx --report-unused-disable-directives --max-warnings 0'
 };
 
@@ -10,6 +10,7 @@ import Dashboard from "./pages/Dashboard";
 import Auth from "./pages/Auth";
 import ResetPassword from "./pages/ResetPassword";
 import Settings from "./pages/Settings";
+import Analytics from "./pages/Analytics";
 import NotFound from "./pages/NotFound";
 import FileAccess from "./pages/FileAccess";
 
@@ -73,6 +74,11 @@ const App = () => (
               <Settings />
             </ProtectedRoute>
           } />
+          <Route path="/analytics" element={
+            <ProtectedRoute>
+              <Analytics />
+            </ProtectedRoute>
+          } />
           <Route path="/access/:token" element={<FileAccess />} />
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,54 @@
+import { useEffect, useState } from "react";
+
+interface CountdownProps {
+  target: Date;
+  onComplete?: () => void;
+}
+
+const UNITS = [
+  { label: "Days", ms: 24 * 60 * 60 * 1000 },
+  { label: "Hours", ms: 60 * 60 * 1000 },
+  { label: "Minutes", ms: 60 * 1000 },
+  { label: "Seconds", ms: 1000 },
+];
+
+const Countdown = ({ target, onComplete }: CountdownProps) => {
+  const [remaining, setRemaining] = useState(() => Math.max(target.getTime() - Date.now(), 0));
+
+  useEffect(() => {
+    const tick = () => {
+      const left = Math.max(target.getTime() - Date.now(), 0);
+      setRemaining(left);
+      if (left === 0) {
+        clearInterval(interval);
+        onComplete?.();
+      }
+    };
+
+    const interval = setInterval(tick, 1000);
+    tick();
+    return () => clearInterval(interval);
+  }, [target, onComplete]);
+
+  let rest = remaining;
+  const parts = UNITS.map(unit => {
+    const value = Math.floor(rest / unit.ms);
+    rest -= value * unit.ms;
+    return { label: unit.label, value };
+  });
+
+  return (
+    <div className="grid grid-cols-4 gap-3 max-w-md mx-auto" role="timer" aria-live="off">
+      {parts.map(part => (
+        <div key={part.label} className="border rounded-xl py-4 bg-muted/30">
+          <div className="text-3xl font-bold tabular-nums text-foreground">
+            {String(part.value).padStart(2, "0")}
+          </div>
+          <div className="text-xs uppercase tracking-wide text-muted-foreground mt-1">{part.label}</div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default Countdown;
@@ -0,0 +1,122 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { DialogContent, DialogDescription, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Loader2, Eye, Download, KeyRound, Clock } from 'lucide-react';
+import { AccessEvent, AccessEventType, getFileAccessEvents } from '@/services/fileService';
+
+interface FileActivityProps {
+  fileId: string;
+  fileName: string;
+}
+
+const EVENT_LABELS: Record<AccessEventType, string> = {
+  viewed: 'Opened the link',
+  downloaded: 'Downloaded',
+  failed_passphrase: 'Entered a wrong passphrase',
+  expired: 'Tried an expired link',
+};
+
+const EVENT_ICONS: Record<AccessEventType, typeof Eye> = {
+  viewed: Eye,
+  downloaded: Download,
+  failed_passphrase: KeyRound,
+  expired: Clock,
+};
+
+// "Chrome on Windows" is all the sender needs from a user agent string
+const describeUserAgent = (userAgent: string | null) => {
+  if (!userAgent) return null;
+
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /OPR\/|Opera/.test(userAgent) ? 'Opera'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : null;
+  const system = /Android/.test(userAgent) ? 'Android'
+    : /iPhone|iPad|iPod/.test(userAgent) ? 'iOS'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Mac OS X|Macintosh/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : null;
+
+  if (browser && system) return `${browser} on ${system}`;
+  return browser || system || 'Unknown browser';
+};
+
+const FileActivity = ({ fileId, fileName }: FileActivityProps) => {
+  const [events, setEvents] = useState<AccessEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setIsLoading(true);
+    setLoadError(false);
+    getFileAccessEvents(fileId)
+      .then(result => {
+        if (!cancelled) setEvents(result);
+      })
+      .catch(() => {
+        if (!cancelled) setLoadError(true);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [fileId]);
+
+  return (
+    <DialogContent className="sm:max-w-md max-h-[80vh] overflow-y-auto">
+      <DialogHeader>
+        <DialogTitle>Activity</DialogTitle>
+        <DialogDescription>What recipients did with their links to {fileName}</DialogDescription>
+      </DialogHeader>
+
+      {isLoading ? (
+        <div className="flex flex-col items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 text-primary animate-spin mb-3" />
+          <p className="text-muted-foreground text-sm">Loading activity...</p>
+        </div>
+      ) : loadError ? (
+        <p className="text-sm text-muted-foreground text-center py-6">
+          Could not load the activity for this delivery.
+        </p>
+      ) : events.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-6">
+          No recipient has opened this delivery yet.
+        </p>
+      ) : (
+        <ol className="relative border-l border-border ml-3 space-y-4 py-2">
+          {events.map(event => {
+            const Icon = EVENT_ICONS[event.type] || Eye;
+            const details = [describeUserAgent(event.userAgent), event.ipPrefix].filter(Boolean).join(' · ');
+            return (
+              <li key={event.id} className="ml-6">
+                <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-primary/10 ring-4 ring-background">
+                  <Icon className="h-3 w-3 text-primary" />
+                </span>
+                <p className="text-sm text-foreground">
+                  {EVENT_LABELS[event.type] || event.type}
+                  {event.recipientEmail && (
+                    <span className="text-muted-foreground"> · {event.recipientEmail}</span>
+                  )}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {format(event.createdAt, "MMM d, yyyy 'at' h:mm a")}
+                  {details && ` · ${details}`}
+                </p>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </DialogContent>
+  );
+};
+
+export default FileActivity;
@@ -1,7 +1,7 @@
 
 import { useState, useEffect } from 'react';
-import { format, formatDistanceToNow } from 'date-fns';
-import { MoreVertical, Calendar, Mail, Trash, Edit, Clock, FileIcon, CheckCircle, AlertCircle, FileText, Eye } from 'lucide-react';
+import { addDays, format, formatDistanceToNow } from 'date-fns';
+import { MoreVertical, Calendar, Mail, Trash, Edit, Clock, FileIcon, CheckCircle, AlertCircle, FileText, Eye, Repeat, SkipForward, XCircle, Files, Paperclip, RotateCw, Link2, CalendarPlus, Ban, RotateCcw, Unlock, Lock, History, Download, LockKeyhole, Copy, ArchiveRestore, ShieldAlert, ShieldEllipsis } from 'lucide-react';
 import { 
   Card,
   CardContent,
@@ -11,6 +11,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -19,31 +20,120 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { Dialog, DialogTrigger } from "@/components/ui/dialog";
 import FilePreview from './FilePreview';
+import FileActivity from './FileActivity';
 import { useTheme } from "next-themes";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
-import { getFileByToken, getFilePreviewByStoragePath } from '@/services/fileService';
+import { TRASH_RETENTION_DAYS, getFilePreviewByStoragePath } from '@/services/fileService';
+import { RecurrenceRule, describeRecurrence, getUpcomingOccurrences } from '@/lib/recurrence';
+import { getLocalTimeZone, toZonedWallClock } from '@/lib/timezone';
+import { fetchAndDecrypt, getRememberedFileKey, importFileKey } from '@/lib/encryption';
+import { toast } from 'sonner';
+
+export type RecipientRole = 'to' | 'cc' | 'bcc';
+
+// When the stored files of a delivery are deleted automatically
+export type RetentionPolicy = 'keep' | 'after_download' | 'after_expiry';
+
+// Where a file stands with the malware scanner; only clean and skipped
+// (end-to-end encrypted) files are delivered
+export type ScanStatus = 'pending' | 'clean' | 'infected' | 'error' | 'skipped';
+
+export interface FileRecipient {
+  id?: string;
+  email: string;
+  role: RecipientRole;
+  status?: 'pending' | 'sent' | 'failed';
+  sentAt?: Date;
+  errorMessage?: string;
+  timezone?: string | null;
+  deliverAt?: Date | null;
+  // Last receipt from the email provider, after the email was accepted
+  deliveryStatus?: 'delivered' | 'bounced' | 'complained' | 'deferred' | null;
+}
+
+// One file of a delivery; a delivery with several is shown as a bundle
+export interface BundleItem {
+  id: string;
+  name: string;
+  size: number;
+  type: string;
+  storagePath: string;
+  // SHA-256 of the uploaded file, in hex; not kept for encrypted files
+  sha256?: string | null;
+  scanStatus?: ScanStatus;
+  // What the scanner found, or why it could not scan the file
+  scanResult?: string | null;
+}
 
 export interface FileItem {
   id: string;
   name: string;
   size: number;
   type: string;
+  items: BundleItem[];
   recipient: string;
+  recipients: FileRecipient[];
   scheduledDate: Date;
-  status: 'pending' | 'sent' | 'failed';
+  // Cancelled deliveries were stopped by the sender and are never sent
+  status: 'pending' | 'sent' | 'failed' | 'cancelled';
   progress?: number;
   createdAt?: Date;
   access_token?: string;
   storage_path?: string;
+  recurrence?: RecurrenceRule | null;
+  seriesId?: string;
+  occurrenceIndex?: number;
+  timezone: string;
+  deliverInRecipientTimezone: boolean;
+  nextDeliveryAt?: Date;
+  // Set while a failed send waits for its automatic retry
+  nextAttemptAt?: Date;
+  errorMessage?: string;
+  senderName?: string | null;
+  emailSubject?: string | null;
+  personalMessage?: string | null;
+  linkValidDays?: number | null;
+  maxDownloads?: number | null;
+  downloadCount?: number;
+  linkExpiresAt?: Date | null;
+  linkRevokedAt?: Date | null;
+  passphraseProtected?: boolean;
+  // First time any recipient opened the page or downloaded a file
+  openedAt?: Date | null;
+  downloadedAt?: Date | null;
+  // Stored encrypted; the key is only known to the sender's browser
+  encrypted?: boolean;
+  retentionPolicy?: RetentionPolicy;
+  retentionDays?: number;
+  // When the stored files will be or were deleted; the row stays behind
+  purgeAt?: Date | null;
+  purgedAt?: Date | null;
+  // In the trash since; restorable until TRASH_RETENTION_DAYS later
+  deletedAt?: Date | null;
+  // The worst scan status among the files
+  scanStatus?: ScanStatus;
 }
 
 interface FileCardProps {
   file: FileItem;
   onDelete?: (id: string) => void;
   onEdit?: (id: string) => void;
+  onSkipOccurrence?: (id: string) => void;
+  onEndSeries?: (id: string) => void;
+  onRetry?: (id: string) => void;
+  onExtendAccess?: (id: string) => void;
+  onRevokeAccess?: (id: string) => void;
+  onRestoreAccess?: (id: string) => void;
+  onResetDownloads?: (id: string) => void;
+  onRescan?: (id: string) => void;
+  onRestore?: (id: string) => void;
+  onDeletePermanently?: (id: string) => void;
+  // Shows a checkbox for picking the card for a bulk action
+  selected?: boolean;
+  onSelectedChange?: (id: string, selected: boolean) => void;
 }
 
-const FileCard = ({ file, onDelete, onEdit }: FileCardProps) => {
+const FileCard = ({ file, onDelete, onEdit, onSkipOccurrence, onEndSeries, onRetry, onExtendAccess, onRevokeAccess, onRestoreAccess, onResetDownloads, onRescan, onRestore, onDeletePermanently, selected, onSelectedChange }: FileCardProps) => {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [progress, setProgress] = useState(file.progress || 0);
   const [previewOpen, setPreviewOpen] = useState(false);
@@ -52,6 +142,8 @@ const FileCard = ({ file, onDelete, onEdit }: FileCardProps) => {
     type: file.type
   });
   const [isLoadingPreview, setIsLoadingPreview] = useState(false);
+  const [activityOpen, setActivityOpen] = useState(false);
+  const rememberedKey = file.encrypted ? getRememberedFileKey(file.storage_path) : null;
   const { theme } = useTheme();
   
   // Function to truncate text with an ellipsis
@@ -76,7 +168,7 @@ const FileCard = ({ file, onDelete, onEdit }: FileCardProps) => {
   const calculateProgress = () => {
     const now = new Date();
     const createdAt = file.createdAt || new Date(now.getTime() - 24 * 60 * 60 * 1000);
-    const scheduledDate = file.scheduledDate;
+    const scheduledDate = file.nextDeliveryAt || file.scheduledDate;
     
     if (scheduledDate < now) {
       setProgress(100);
@@ -90,6 +182,14 @@ const FileCard = ({ file, onDelete, onEdit }: FileCardProps) => {
     setProgress(calculatedProgress);
   };
 
+  // Decrypted previews live in object URLs; release them with the dialog
+  useEffect(() => {
+    if (!previewOpen && filePreview.url?.startsWith('blob:')) {
+      URL.revokeObjectURL(filePreview.url);
+      setFilePreview({ name: file.name, type: file.type });
+    }
+  }, [previewOpen, filePreview.url, file.name, file.type]);
+
   const formatFileSize = (bytes: number) => {
     if (bytes < 1024) return bytes + ' B';
     if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
@@ -103,6 +203,7 @@ const FileCard = ({ file, onDelete, onEdit }: FileCardProps) => {
       case 'sent':
         return "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300";
       case 'failed':
+      case 'blocked':
         return "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300";
       default:
         return "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-300";
@@ -117,16 +218,38 @@ const FileCard = ({ file, onDelete, onEdit }: FileCardProps) => {
         return <CheckCircle className="h-3 w-3 mr-1" />;
       case 'failed':
         return <AlertCircle className="h-3 w-3 mr-1" />;
+      case 'cancelled':
+        return <Ban className="h-3 w-3 mr-1" />;
+      case 'blocked':
+        return <ShieldAlert className="h-3 w-3 mr-1" />;
       default:
         return null;
     }
   };
   
+  // Malware was found, or a file could not be scanned; links are blocked too
+  const isBlocked = file.scanStatus === 'infected' || file.scanStatus === 'error';
+  const badgeStatus = isBlocked ? 'blocked' : file.status;
+  
+  const getStatusLabel = () => {
+    if (isBlocked) return 'Blocked';
+    if (file.status === 'pending') return 'Pending';
+    if (file.status === 'failed') return 'Failed';
+    if (file.status === 'cancelled') return 'Cancelled';
+    if (file.downloadedAt) return 'Downloaded';
+    if (file.openedAt) return 'Opened';
+    return 'Sent';
+  };
+  
+  const isBundle = file.items.length > 1;
+  
   const getFileIcon = () => {
     // Use primary color from theme instead of hardcoded blue
     return (
       <div className="w-12 h-12 rounded-lg bg-primary/10 flex items-center justify-center">
-        {file.type.includes('image') ? (
+        {isBundle ? (
+          <Files className="h-6 w-6 text-primary" />
+        ) : file.type.includes('image') ? (
           <FileText className="h-6 w-6 text-primary" />
         ) : (
           <FileIcon className="h-6 w-6 text-primary" />
@@ -135,6 +258,104 @@ const FileCard = ({ file, onDelete, onEdit }: FileCardProps) => {
     );
   };
   
+  const getRecipientNote = (recipient: FileRecipient) => {
+    if (recipient.deliveryStatus === 'bounced') return ' (bounced)';
+    if (recipient.status === 'failed') return ' (failed)';
+    if (recipient.deliveryStatus === 'complained') return ' (marked as spam)';
+    if (recipient.deliveryStatus === 'deferred') return ' (delayed)';
+    return '';
+  };
+  
+  const deliveredCount = file.recipients.filter(r => r.status === 'sent').length;
+  
+  const getDeliverySummary = () => {
+    if (file.status === 'cancelled') {
+      return 'Cancelled';
+    }
+    if (file.recipients.length <= 1) {
+      return file.status === 'sent' ? 'Delivered' : 'Failed';
+    }
+    return `${deliveredCount} of ${file.recipients.length} delivered`;
+  };
+  
+  // The pending occurrence plus the ones that will follow it
+  const upcomingOccurrences = file.recurrence && file.status === 'pending'
+    ? [
+        file.scheduledDate,
+        ...getUpcomingOccurrences(file.recurrence, file.scheduledDate, 2, file.occurrenceIndex, file.timezone)
+      ]
+    : [];
+  const hasNextOccurrence = upcomingOccurrences.length > 1;
+  
+  // Whether recipients can still use their links, for delivered files
+  const getLinkNote = () => {
+    if (file.status !== 'sent' || file.purgedAt) return null;
+    if (file.linkRevokedAt) return 'Link revoked';
+    
+    const downloads = file.maxDownloads
+      ? `${file.downloadCount || 0} of ${file.maxDownloads} downloads`
+      : null;
+    
+    if (file.linkExpiresAt && file.linkExpiresAt <= new Date()) {
+      return 'Link expired';
+    }
+    if (file.maxDownloads && (file.downloadCount || 0) >= file.maxDownloads) {
+      return 'Download limit reached';
+    }
+    
+    const expiry = file.linkExpiresAt
+      ? `Link expires ${formatDistanceToNow(file.linkExpiresAt, { addSuffix: true })}`
+      : null;
+    return [expiry, downloads].filter(Boolean).join(' · ') || null;
+  };
+  const linkNote = getLinkNote();
+  
+  const getRetentionNote = () => {
+    if (file.deletedAt) {
+      return `In trash · deleted for good on ${format(addDays(file.deletedAt, TRASH_RETENTION_DAYS), 'MMM d, yyyy')}`;
+    }
+    if (file.purgedAt) return `Files deleted on ${format(file.purgedAt, 'MMM d, yyyy')}`;
+    if (file.purgeAt) return `Will be deleted on ${format(file.purgeAt, 'MMM d, yyyy')}`;
+    
+    const after = file.retentionDays
+      ? `${file.retentionDays === 1 ? '1 day' : `${file.retentionDays} days`} after`
+      : 'right after';
+    if (file.retentionPolicy === 'after_download') return `Deleted ${after} the first download`;
+    if (file.retentionPolicy === 'after_expiry') return `Deleted ${after} the link expires`;
+    return null;
+  };
+  const retentionNote = getRetentionNote();
+  
+  const getScanNote = () => {
+    const infected = file.items.filter(item => item.scanStatus === 'infected');
+    if (infected.length > 0) {
+      return `Blocked: ${infected.map(item => `${item.name} contains ${item.scanResult || 'malware'}`).join(', ')}`;
+    }
+    if (isBlocked) {
+      const unscanned = file.items.filter(item => item.scanStatus === 'error');
+      const reason = unscanned.find(item => item.scanResult)?.scanResult;
+      return `Blocked: ${unscanned.map(item => item.name).join(', ')} could not be scanned${reason ? ` (${reason})` : ''}`;
+    }
+    return null;
+  };
+  const scanNote = getScanNote();
+  
+  // The sender's wall clock time, when it differs from the viewer's
+  const getZoneNote = () => {
+    if (file.deliverInRecipientTimezone) {
+      const wall = toZonedWallClock(file.scheduledDate, file.timezone);
+      const time = format(new Date(2000, 0, 1, wall.hour, wall.minute), 'h:mm a');
+      return `${time} in each recipient's time zone`;
+    }
+    if (file.timezone !== getLocalTimeZone()) {
+      const wall = toZonedWallClock(file.scheduledDate, file.timezone);
+      const time = format(new Date(2000, 0, 1, wall.hour, wall.minute), 'h:mm a');
+      return `${time} ${file.timezone.replace(/_/g, ' ')}`;
+    }
+    return null;
+  };
+  const zoneNote = getZoneNote();
+  
   const getProgressColor = () => {
     return "bg-primary";
   };
@@ -158,23 +379,24 @@ const FileCard = ({ file, onDelete, onEdit }: FileCardProps) => {
     setIsLoadingPreview(true);
     
     try {
-      // First, check if the file has been sent, if so use the token to get URL
-      if (file.status === 'sent' && file.access_token) {
-        const fileData = await getFileByToken(file.access_token);
-        if (fileData) {
-          setFilePreview({
-            name: file.name,
-            type: file.type,
-            url: fileData.fileUrl
-          });
+      // Read straight from storage so previews never count as recipient downloads
+      if (file.storage_path && !file.purgedAt) {
+        const previewUrl = await getFilePreviewByStoragePath(file.storage_path);
+        if (previewUrl && file.encrypted) {
+          // Without the key there is nothing to show but ciphertext
+          if (rememberedKey) {
+            const decrypted = await fetchAndDecrypt(previewUrl, await importFileKey(rememberedKey), file.type);
+            setFilePreview({
+              name: file.name,
+              type: file.type,
+              url: URL.createObjectURL(decrypted)
+            });
+          } else {
+            setFilePreview({ name: file.name, type: file.type });
+          }
           setIsLoadingPreview(false);
           return;
         }
-      }
-      
-      // If file hasn't been sent yet or token fetch failed, try to get a preview URL
-      if (file.storage_path) {
-        const previewUrl = await getFilePreviewByStoragePath(file.storage_path);
         if (previewUrl) {
           setFilePreview({
             name: file.name,
@@ -206,9 +428,17 @@ const FileCard = ({ file, onDelete, onEdit }: FileCardProps) => {
   return (
     <>
       <Dialog open={previewOpen} onOpenChange={setPreviewOpen}>
-        <Card className="overflow-hidden border-border bg-card text-card-foreground hover:shadow-md transition-all duration-200 cursor-pointer" onClick={handleFilePreview}>
+        <Card className={`overflow-hidden border-border bg-card text-card-foreground hover:shadow-md transition-all duration-200 cursor-pointer ${selected ? 'ring-2 ring-primary' : ''}`} onClick={handleFilePreview}>
           <CardHeader className="flex flex-row items-center justify-between p-4 pb-0">
             <div className="flex items-center gap-3">
+              {onSelectedChange && (
+                <Checkbox
+                  checked={selected}
+                  onCheckedChange={(checked) => onSelectedChange(file.id, checked === true)}
+                  onClick={(e) => e.stopPropagation()}
+                  aria-label={`Select ${file.name}`}
+                />
+              )}
               {getFileIcon()}
               
               <div>
@@ -224,14 +454,22 @@ const FileCard = ({ file, onDelete, onEdit }: FileCardProps) => {
                     </TooltipContent>
                   </Tooltip>
                 </TooltipProvider>
-                <p className="text-xs text-muted-foreground">{formatFileSize(file.size)}</p>
+                <p className="text-xs text-muted-foreground flex items-center">
+                  {isBundle ? `${file.items.length} files · ` : ''}{formatFileSize(file.size)}
+                  {file.passphraseProtected && (
+                    <Lock className="h-3 w-3 ml-1.5" aria-label="Passphrase protected" />
+                  )}
+                  {file.encrypted && (
+                    <LockKeyhole className="h-3 w-3 ml-1.5" aria-label="End-to-end encrypted" />
+                  )}
+                </p>
               </div>
             </div>
             
             <div className="flex items-center">
-              <Badge className={`flex items-center h-6 ${getStatusColor(file.status)}`}>
-                {getStatusIcon(file.status)}
-                <span>{file.status === 'pending' ? 'Pending' : file.status === 'sent' ? 'Sent' : 'Failed'}</span>
+              <Badge className={`flex items-center h-6 ${getStatusColor(badgeStatus)}`}>
+                {getStatusIcon(badgeStatus)}
+                <span>{getStatusLabel()}</span>
               </Badge>
               
               <DropdownMenu open={isMenuOpen} onOpenChange={setIsMenuOpen}>
@@ -250,6 +488,32 @@ const FileCard = ({ file, onDelete, onEdit }: FileCardProps) => {
                     <Eye className="mr-2 h-4 w-4" />
                     <span>Preview</span>
                   </DropdownMenuItem>
+                  {rememberedKey && (
+                    <DropdownMenuItem 
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setIsMenuOpen(false);
+                        navigator.clipboard.writeText(rememberedKey)
+                          .then(() => toast.success("Encryption key copied"))
+                          .catch(() => toast.error("Could not copy the key"));
+                      }}
+                    >
+                      <Copy className="mr-2 h-4 w-4" />
+                      <span>Copy key</span>
+                    </DropdownMenuItem>
+                  )}
+                  {file.status === 'sent' && (
+                    <DropdownMenuItem 
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setIsMenuOpen(false);
+                        setActivityOpen(true);
+                      }}
+                    >
+                      <History className="mr-2 h-4 w-4" />
+                      <span>Activity</span>
+                    </DropdownMenuItem>
+                  )}
                   {onEdit && file.status === 'pending' && (
                     <DropdownMenuItem 
                       onClick={(e) => {
@@ -262,6 +526,127 @@ const FileCard = ({ file, onDelete, onEdit }: FileCardProps) => {
                       <span>Edit</span>
                     </DropdownMenuItem>
                   )}
+                  {onSkipOccurrence && file.recurrence && file.status === 'pending' && hasNextOccurrence && (
+                    <DropdownMenuItem 
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setIsMenuOpen(false);
+                        onSkipOccurrence(file.id);
+                      }}
+                    >
+                      <SkipForward className="mr-2 h-4 w-4" />
+                      <span>Skip this delivery</span>
+                    </DropdownMenuItem>
+                  )}
+                  {onEndSeries && file.recurrence && file.status === 'pending' && (
+                    <DropdownMenuItem 
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setIsMenuOpen(false);
+                        onEndSeries(file.id);
+                      }}
+                    >
+                      <XCircle className="mr-2 h-4 w-4" />
+                      <span>End series</span>
+                    </DropdownMenuItem>
+                  )}
+                  {onRetry && file.status === 'failed' && (
+                    <DropdownMenuItem 
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setIsMenuOpen(false);
+                        onRetry(file.id);
+                      }}
+                    >
+                      <RotateCw className="mr-2 h-4 w-4" />
+                      <span>Retry now</span>
+                    </DropdownMenuItem>
+                  )}
+                  {onRescan && file.scanStatus === 'error' && !file.purgedAt && (
+                    <DropdownMenuItem 
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setIsMenuOpen(false);
+                        onRescan(file.id);
+                      }}
+                    >
+                      <ShieldEllipsis className="mr-2 h-4 w-4" />
+                      <span>Scan again</span>
+                    </DropdownMenuItem>
+                  )}
+                  {onExtendAccess && file.status === 'sent' && file.linkExpiresAt && !file.purgedAt && (
+                    <DropdownMenuItem 
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setIsMenuOpen(false);
+                        onExtendAccess(file.id);
+                      }}
+                    >
+                      <CalendarPlus className="mr-2 h-4 w-4" />
+                      <span>Extend link</span>
+                    </DropdownMenuItem>
+                  )}
+                  {onRestoreAccess && file.status === 'sent' && file.linkRevokedAt && !file.purgedAt && (
+                    <DropdownMenuItem 
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setIsMenuOpen(false);
+                        onRestoreAccess(file.id);
+                      }}
+                    >
+                      <Unlock className="mr-2 h-4 w-4" />
+                      <span>Restore link</span>
+                    </DropdownMenuItem>
+                  )}
+                  {onResetDownloads && file.status === 'sent' && file.maxDownloads && (file.downloadCount || 0) > 0 && !file.purgedAt && (
+                    <DropdownMenuItem 
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setIsMenuOpen(false);
+                        onResetDownloads(file.id);
+                      }}
+                    >
+                      <RotateCcw className="mr-2 h-4 w-4" />
+                      <span>Reset downloads</span>
+                    </DropdownMenuItem>
+                  )}
+                  {onRevokeAccess && file.status === 'sent' && !file.linkRevokedAt && !file.purgedAt && (
+                    <DropdownMenuItem 
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setIsMenuOpen(false);
+                        onRevokeAccess(file.id);
+                      }}
+                    >
+                      <Ban className="mr-2 h-4 w-4" />
+                      <span>Revoke link</span>
+                    </DropdownMenuItem>
+                  )}
+                  {onRestore && file.deletedAt && (
+                    <DropdownMenuItem 
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setIsMenuOpen(false);
+                        onRestore(file.id);
+                      }}
+                    >
+                      <ArchiveRestore className="mr-2 h-4 w-4" />
+                      <span>Restore</span>
+                    </DropdownMenuItem>
+                  )}
+                  {onDeletePermanently && (
+                    <DropdownMenuItem 
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setIsMenuOpen(false);
+                        onDeletePermanently(file.id);
+                      }}
+                      className="text-destructive focus:text-destructive"
+                    >
+                      <Trash className="mr-2 h-4 w-4" />
+                      <span>Delete permanently</span>
+                    </DropdownMenuItem>
+                  )}
                   {onDelete && (
                     <DropdownMenuItem 
                       onClick={(e) => {
@@ -282,6 +667,28 @@ const FileCard = ({ file, onDelete, onEdit }: FileCardProps) => {
           
           <CardContent className="p-4 pt-2">
             <div className="space-y-1.5 text-sm">
+              {isBundle && (
+                <div className="flex items-start text-muted-foreground">
+                  <Paperclip className="h-4 w-4 mr-2 mt-0.5 shrink-0" />
+                  <TooltipProvider>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <span className="text-foreground line-clamp-1">
+                          {file.items.map(item => item.name).join(', ')}
+                        </span>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        {file.items.map(item => (
+                          <p key={item.id}>
+                            {item.name}
+                            <span className="text-muted-foreground ml-1">({formatFileSize(item.size)})</span>
+                          </p>
+                        ))}
+                      </TooltipContent>
+                    </Tooltip>
+                  </TooltipProvider>
+                </div>
+              )}
               <div className="flex items-center text-muted-foreground">
                 <Mail className="h-4 w-4 mr-2" />
                 <TooltipProvider>
@@ -289,20 +696,112 @@ const FileCard = ({ file, onDelete, onEdit }: FileCardProps) => {
                     <TooltipTrigger asChild>
                       <span className="text-foreground truncate max-w-[200px] inline-block">
                         {file.recipient}
+                        {file.recipients.length > 1 && (
+                          <span className="text-muted-foreground"> +{file.recipients.length - 1}</span>
+                        )}
                       </span>
                     </TooltipTrigger>
                     <TooltipContent>
-                      <p>{file.recipient}</p>
+                      {file.recipients.length > 0 ? (
+                        file.recipients.map((recipient) => (
+                          <p key={recipient.email}>
+                            <span className="uppercase text-xs text-muted-foreground mr-1">{recipient.role}</span>
+                            {recipient.email}
+                            {file.deliverInRecipientTimezone && recipient.timezone && (
+                              <span className="text-muted-foreground"> · {recipient.timezone.replace(/_/g, ' ')}</span>
+                            )}
+                            {getRecipientNote(recipient)}
+                          </p>
+                        ))
+                      ) : (
+                        <p>{file.recipient}</p>
+                      )}
                     </TooltipContent>
                   </Tooltip>
                 </TooltipProvider>
               </div>
               <div className="flex items-center text-muted-foreground">
-                <Calendar className="h-4 w-4 mr-2" />
-                <span className="text-foreground">
-                  {getDateFormatted()} at {format(file.scheduledDate, 'h:mm a')}
-                </span>
+                <Calendar className="h-4 w-4 mr-2 self-start mt-0.5 shrink-0" />
+                <div>
+                  <span className="text-foreground">
+                    {getDateFormatted()} at {format(file.scheduledDate, 'h:mm a')}
+                  </span>
+                  {zoneNote && <p className="text-xs">{zoneNote}</p>}
+                </div>
               </div>
+              {file.recurrence && (
+                <div className="flex items-start text-muted-foreground">
+                  <Repeat className="h-4 w-4 mr-2 mt-0.5 shrink-0" />
+                  <div>
+                    <span className="text-foreground">{describeRecurrence(file.recurrence, file.timezone)}</span>
+                    {hasNextOccurrence && (
+                      <p className="text-xs">
+                        Then {upcomingOccurrences.slice(1).map(date => format(date, 'MMM d, h:mm a')).join(' · ')}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              )}
+              {file.status === 'sent' && (file.downloadedAt || file.openedAt) && (
+                <div className="flex items-center text-muted-foreground">
+                  {file.downloadedAt
+                    ? <Download className="h-4 w-4 mr-2 shrink-0" />
+                    : <Eye className="h-4 w-4 mr-2 shrink-0" />}
+                  <span className="text-xs">
+                    {file.downloadedAt
+                      ? `First downloaded ${formatDistanceToNow(file.downloadedAt, { addSuffix: true })}`
+                      : `First opened ${formatDistanceToNow(file.openedAt, { addSuffix: true })}`}
+                  </span>
+                </div>
+              )}
+              {linkNote && (
+                <div className="flex items-center text-muted-foreground">
+                  <Link2 className="h-4 w-4 mr-2 shrink-0" />
+                  <span className="text-xs">{linkNote}</span>
+                </div>
+              )}
+              {retentionNote && (
+                <div className="flex items-center text-muted-foreground">
+                  <Trash className="h-4 w-4 mr-2 shrink-0" />
+                  <span className="text-xs">{retentionNote}</span>
+                </div>
+              )}
+              {file.scanStatus === 'pending' && (
+                <div className="flex items-center text-muted-foreground">
+                  <ShieldEllipsis className="h-4 w-4 mr-2 shrink-0" />
+                  <span className="text-xs">Waiting for the malware scan</span>
+                </div>
+              )}
+              {scanNote && (
+                <div className="flex items-start text-muted-foreground">
+                  <ShieldAlert className="h-4 w-4 mr-2 mt-0.5 shrink-0 text-destructive" />
+                  <TooltipProvider>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <span className="text-xs line-clamp-2">{scanNote}</span>
+                      </TooltipTrigger>
+                      <TooltipContent className="max-w-xs">
+                        <p>{scanNote}</p>
+                      </TooltipContent>
+                    </Tooltip>
+                  </TooltipProvider>
+                </div>
+              )}
+              {file.errorMessage && (file.status === 'failed' || file.nextAttemptAt) && (
+                <div className="flex items-start text-muted-foreground">
+                  <AlertCircle className="h-4 w-4 mr-2 mt-0.5 shrink-0 text-destructive" />
+                  <TooltipProvider>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <span className="text-xs line-clamp-2">{file.errorMessage}</span>
+                      </TooltipTrigger>
+                      <TooltipContent className="max-w-xs">
+                        <p>{file.errorMessage}</p>
+                      </TooltipContent>
+                    </Tooltip>
+                  </TooltipProvider>
+                </div>
+              )}
             </div>
           </CardContent>
           
@@ -311,11 +810,13 @@ const FileCard = ({ file, onDelete, onEdit }: FileCardProps) => {
               <div className="flex justify-between text-xs text-muted-foreground">
                 <span>Progress</span>
                 <span>
-                  {file.status === 'pending' 
-                    ? formatDistanceToNow(file.scheduledDate, { addSuffix: true })
-                    : file.status === 'sent'
-                    ? 'Delivered'
-                    : 'Failed'
+                  {isBlocked && file.status === 'pending'
+                    ? 'Will not be sent'
+                    : file.status === 'pending' && file.nextAttemptAt
+                    ? `Retrying ${formatDistanceToNow(file.nextAttemptAt, { addSuffix: true })}`
+                    : file.status === 'pending' 
+                    ? formatDistanceToNow(file.nextDeliveryAt || file.scheduledDate, { addSuffix: true })
+                    : getDeliverySummary()
                   }
                 </span>
               </div>
@@ -328,7 +829,15 @@ const FileCard = ({ file, onDelete, onEdit }: FileCardProps) => {
           </CardFooter>
         </Card>
         
-        <FilePreview file={filePreview} isLoading={isLoadingPreview} />
+        <FilePreview
+          file={filePreview}
+          isLoading={isLoadingPreview}
+          checksums={file.items.filter(item => item.sha256).map(item => ({ name: item.name, sha256: item.sha256 }))}
+        />
+      </Dialog>
+      
+      <Dialog open={activityOpen} onOpenChange={setActivityOpen}>
+        {activityOpen && <FileActivity fileId={file.id} fileName={file.name} />}
       </Dialog>
     </>
   );
@@ -11,9 +11,23 @@ interface FilePreviewProps {
     url?: string;
   };
   isLoading: boolean;
+  // SHA-256 of each uploaded file, for comparing with what recipients got
+  checksums?: { name: string; sha256: string }[];
 }
 
-const FilePreview = ({ file, isLoading }: FilePreviewProps) => {
+const ChecksumList = ({ checksums }: { checksums: { name: string; sha256: string }[] }) => (
+  <div className="w-full border-t pt-4 mt-4 space-y-1">
+    <p className="text-sm font-medium">SHA-256</p>
+    {checksums.map(({ name, sha256 }) => (
+      <div key={name + sha256} className="text-xs">
+        {checksums.length > 1 && <p className="text-muted-foreground truncate">{name}</p>}
+        <p className="font-mono break-all select-all">{sha256}</p>
+      </div>
+    ))}
+  </div>
+);
+
+const FilePreview = ({ file, isLoading, checksums = [] }: FilePreviewProps) => {
   if (isLoading) {
     return (
       <DialogContent className="sm:max-w-md">
@@ -35,6 +49,7 @@ const FilePreview = ({ file, isLoading }: FilePreviewProps) => {
           <p className="text-muted-foreground text-center mb-4">
             This file hasn't been sent yet or preview is not available.
           </p>
+          {checksums.length > 0 && <ChecksumList checksums={checksums} />}
         </div>
       </DialogContent>
     );
@@ -97,6 +112,8 @@ const FilePreview = ({ file, isLoading }: FilePreviewProps) => {
             </Button>
           </div>
         )}
+
+        {checksums.length > 0 && <ChecksumList checksums={checksums} />}
       </div>
     </DialogContent>
   );
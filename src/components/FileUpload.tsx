@@ -1,30 +1,35 @@
 
 import { useState, useRef, ChangeEvent } from "react";
-import { Upload, File, X } from "lucide-react";
+import { Upload, File, Plus, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
 
 interface FileUploadProps {
-  onFileSelect: (file: File) => void;
+  onFilesChange: (files: File[]) => void;
   maxSizeMB?: number;
+  maxFiles?: number;
   acceptedFormats?: string[];
 }
 
 const FileUpload = ({ 
-  onFileSelect, 
-  maxSizeMB = 10, 
+  onFilesChange, 
+  maxSizeMB = 5 * 1024, 
+  maxFiles = 20,
   acceptedFormats = ["*"]
 }: FileUploadProps) => {
   const [dragActive, setDragActive] = useState(false);
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const formatFileSize = (bytes: number): string => {
     if (bytes < 1024) return bytes + " B";
     else if (bytes < 1048576) return (bytes / 1024).toFixed(1) + " KB";
-    else return (bytes / 1048576).toFixed(1) + " MB";
+    else if (bytes < 1073741824) return (bytes / 1048576).toFixed(1) + " MB";
+    else return (bytes / 1073741824).toFixed(2) + " GB";
   };
 
+  const maxSizeLabel = maxSizeMB >= 1024 ? `${maxSizeMB / 1024} GB` : `${maxSizeMB} MB`;
+
   const isFormatAccepted = (file: File): boolean => {
     if (acceptedFormats.includes("*")) return true;
     return acceptedFormats.some(format => {
@@ -36,26 +41,51 @@ const FileUpload = ({
     });
   };
 
-  const handleFile = (file: File) => {
-    if (file.size > maxSizeMB * 1024 * 1024) {
-      toast.error(`File too large. Maximum size is ${maxSizeMB}MB`);
-      return;
+  const updateFiles = (files: File[]) => {
+    setSelectedFiles(files);
+    onFilesChange(files);
+  };
+
+  const handleFiles = (fileList: FileList) => {
+    const accepted: File[] = [];
+
+    for (const file of Array.from(fileList)) {
+      if (file.size > maxSizeMB * 1024 * 1024) {
+        toast.error(`${file.name} is too large. Maximum size is ${maxSizeLabel}`);
+        continue;
+      }
+
+      if (!isFormatAccepted(file)) {
+        toast.error(`${file.name}: file format not accepted`);
+        continue;
+      }
+
+      // Adding the same file twice would deliver it twice
+      const isDuplicate = [...selectedFiles, ...accepted].some(
+        existing => existing.name === file.name && existing.size === file.size
+      );
+      if (!isDuplicate) {
+        accepted.push(file);
+      }
     }
 
-    if (!isFormatAccepted(file)) {
-      toast.error("File format not accepted");
+    if (selectedFiles.length + accepted.length > maxFiles) {
+      toast.error(`You can attach up to ${maxFiles} files`);
       return;
     }
 
-    setSelectedFile(file);
-    onFileSelect(file);
+    if (accepted.length > 0) {
+      updateFiles([...selectedFiles, ...accepted]);
+    }
   };
 
   const handleChange = (e: ChangeEvent<HTMLInputElement>) => {
     e.preventDefault();
-    if (e.target.files && e.target.files[0]) {
-      handleFile(e.target.files[0]);
+    if (e.target.files && e.target.files.length > 0) {
+      handleFiles(e.target.files);
     }
+    // Allow picking the same file again after removing it
+    e.target.value = "";
   };
 
   const handleDrag = (e: React.DragEvent<HTMLDivElement>) => {
@@ -72,8 +102,8 @@ const FileUpload = ({
     e.preventDefault();
     e.stopPropagation();
     setDragActive(false);
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      handleFile(e.dataTransfer.files[0]);
+    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      handleFiles(e.dataTransfer.files);
     }
   };
 
@@ -83,16 +113,23 @@ const FileUpload = ({
     }
   };
 
-  const removeFile = () => {
-    setSelectedFile(null);
-    if (fileInputRef.current) {
-      fileInputRef.current.value = "";
-    }
+  const removeFile = (index: number) => {
+    updateFiles(selectedFiles.filter((_, i) => i !== index));
   };
 
+  const totalSize = selectedFiles.reduce((sum, file) => sum + file.size, 0);
+
   return (
     <div className="w-full">
-      {!selectedFile ? (
+      <input
+        ref={fileInputRef}
+        type="file"
+        multiple
+        className="hidden"
+        onChange={handleChange}
+        accept={acceptedFormats.join(",")}
+      />
+      {selectedFiles.length === 0 ? (
         <div
           className={`border-2 border-dashed rounded-xl transition-all duration-200 ${
             dragActive 
@@ -106,7 +143,7 @@ const FileUpload = ({
         >
           <div className="flex flex-col items-center justify-center py-10 px-6 text-center">
             <Upload className={`h-10 w-10 mb-3 ${dragActive ? "text-primary" : "text-muted-foreground"}`} />
-            <h3 className="text-lg font-medium mb-1">Upload your file</h3>
+            <h3 className="text-lg font-medium mb-1">Upload your files</h3>
             <p className="text-sm text-muted-foreground mb-4">
               Drag and drop or click to browse
             </p>
@@ -116,42 +153,64 @@ const FileUpload = ({
               variant="outline"
               className="border-primary/50 text-primary hover:bg-primary/5"
             >
-              Select File
+              Select Files
             </Button>
             <p className="text-xs text-muted-foreground mt-4">
-              Maximum file size: {maxSizeMB}MB
+              Maximum file size: {maxSizeLabel}
             </p>
           </div>
-          <input
-            ref={fileInputRef}
-            type="file"
-            className="hidden"
-            onChange={handleChange}
-            accept={acceptedFormats.join(",")}
-          />
         </div>
       ) : (
-        <div className="border rounded-xl p-4">
-          <div className="flex items-center">
-            <div className="flex items-center justify-center rounded-lg bg-primary/10 h-10 w-10 mr-3">
-              <File className="h-5 w-5 text-primary" />
-            </div>
-            <div className="flex-1 min-w-0">
-              <div className="flex items-center justify-between">
-                <h3 className="font-medium truncate">{selectedFile.name}</h3>
-                <Button 
-                  variant="ghost" 
-                  size="icon" 
-                  className="h-8 w-8 text-muted-foreground hover:text-destructive"
-                  onClick={removeFile}
-                >
-                  <X className="h-4 w-4" />
-                </Button>
+        <div
+          className={`border rounded-xl p-4 space-y-3 transition-all duration-200 ${
+            dragActive ? "border-primary bg-primary/5" : ""
+          }`}
+          onDragEnter={handleDrag}
+          onDragLeave={handleDrag}
+          onDragOver={handleDrag}
+          onDrop={handleDrop}
+        >
+          {selectedFiles.map((file, index) => (
+            <div key={`${file.name}-${file.size}`} className="flex items-center">
+              <div className="flex items-center justify-center rounded-lg bg-primary/10 h-10 w-10 mr-3 shrink-0">
+                <File className="h-5 w-5 text-primary" />
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between">
+                  <h3 className="font-medium truncate">{file.name}</h3>
+                  <Button 
+                    type="button"
+                    variant="ghost" 
+                    size="icon" 
+                    className="h-8 w-8 shrink-0 text-muted-foreground hover:text-destructive"
+                    onClick={() => removeFile(index)}
+                    aria-label={`Remove ${file.name}`}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {formatFileSize(file.size)}
+                </p>
               </div>
-              <p className="text-xs text-muted-foreground">
-                {formatFileSize(selectedFile.size)}
-              </p>
             </div>
+          ))}
+          <div className="flex items-center justify-between pt-1">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={openFileSelector}
+              disabled={selectedFiles.length >= maxFiles}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add files
+            </Button>
+            {selectedFiles.length > 1 && (
+              <span className="text-xs text-muted-foreground">
+                {selectedFiles.length} files · {formatFileSize(totalSize)}
+              </span>
+            )}
           </div>
         </div>
       )}
@@ -85,6 +85,16 @@ const Navbar = () => {
               >
                 Dashboard
               </Link>
+              <Link
+                to="/analytics"
+                className={`text-sm font-medium transition-colors hover:text-primary ${
+                  location.pathname === "/analytics"
+                    ? "text-primary"
+                    : "text-foreground/80"
+                }`}
+              >
+                Analytics
+              </Link>
               <Link
                 to="/settings"
                 className={`text-sm font-medium transition-colors hover:text-primary ${
@@ -172,6 +182,12 @@ const Navbar = () => {
                     >
                       Dashboard
                     </Link>
+                    <Link
+                      to="/analytics"
+                      className="text-lg font-medium py-2 transition-colors hover:text-primary"
+                    >
+                      Analytics
+                    </Link>
                     <Link
                       to="/settings"
                       className="text-lg font-medium py-2 transition-colors hover:text-primary"
@@ -0,0 +1,202 @@
+import { Repeat } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { RecurrenceRule, WEEKDAY_NAMES, describeRecurrence, isValidCron } from "@/lib/recurrence";
+
+type RepeatOption = "none" | "daily" | "weekly" | "monthly-day" | "monthly-weekday" | "cron";
+type EndOption = "never" | "on" | "after";
+
+interface RecurrenceFieldsProps {
+  value: RecurrenceRule | null;
+  onChange: (rule: RecurrenceRule | null) => void;
+  anchorDate?: Date;
+}
+
+const getRepeatOption = (rule: RecurrenceRule | null): RepeatOption => {
+  if (!rule) return "none";
+  if (rule.frequency === "monthly") {
+    return rule.monthlyMode === "weekday" ? "monthly-weekday" : "monthly-day";
+  }
+  return rule.frequency;
+};
+
+const getEndOption = (rule: RecurrenceRule | null): EndOption => {
+  if (rule?.count) return "after";
+  if (rule?.until) return "on";
+  return "never";
+};
+
+const RecurrenceFields = ({ value, onChange, anchorDate }: RecurrenceFieldsProps) => {
+  // Labels describe the picked calendar day, so build the anchor from its local date parts
+  const labelAnchor = anchorDate
+    ? new Date(Date.UTC(anchorDate.getFullYear(), anchorDate.getMonth(), anchorDate.getDate(), 12)).toISOString()
+    : new Date().toISOString();
+  const repeat = getRepeatOption(value);
+  const ends = getEndOption(value);
+
+  const update = (changes: Partial<RecurrenceRule>) => {
+    if (!value) return;
+    onChange({ ...value, ...changes });
+  };
+
+  const handleRepeatChange = (option: RepeatOption) => {
+    if (option === "none") {
+      onChange(null);
+      return;
+    }
+
+    const base: RecurrenceRule = {
+      anchor: value?.anchor || labelAnchor,
+      interval: value?.interval || 1,
+      until: value?.until || null,
+      count: value?.count || null,
+      frequency: "daily",
+    };
+
+    switch (option) {
+      case "weekly":
+        onChange({ ...base, frequency: "weekly", weekdays: anchorDate ? [anchorDate.getDay()] : [] });
+        break;
+      case "monthly-day":
+        onChange({ ...base, frequency: "monthly", monthlyMode: "day" });
+        break;
+      case "monthly-weekday":
+        onChange({ ...base, frequency: "monthly", monthlyMode: "weekday" });
+        break;
+      case "cron":
+        onChange({ ...base, frequency: "cron", cron: value?.cron || "0 9 * * 1" });
+        break;
+      default:
+        onChange(base);
+    }
+  };
+
+  const handleEndChange = (option: EndOption) => {
+    if (option === "never") {
+      update({ until: null, count: null });
+    } else if (option === "on") {
+      update({ count: null, until: value?.until || labelAnchor });
+    } else {
+      update({ until: null, count: value?.count || 5 });
+    }
+  };
+
+  const intervalUnit = repeat === "daily" ? "day(s)" : repeat === "weekly" ? "week(s)" : "month(s)";
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label>Repeat</Label>
+        <Select value={repeat} onValueChange={(option) => handleRepeatChange(option as RepeatOption)}>
+          <SelectTrigger>
+            <div className="flex items-center">
+              <Repeat className="mr-2 h-4 w-4 text-muted-foreground" />
+              <SelectValue />
+            </div>
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Does not repeat</SelectItem>
+            <SelectItem value="daily">Daily</SelectItem>
+            <SelectItem value="weekly">Weekly</SelectItem>
+            <SelectItem value="monthly-day">
+              {describeRecurrence({ frequency: "monthly", monthlyMode: "day", anchor: labelAnchor })}
+            </SelectItem>
+            <SelectItem value="monthly-weekday">
+              {describeRecurrence({ frequency: "monthly", monthlyMode: "weekday", anchor: labelAnchor })}
+            </SelectItem>
+            <SelectItem value="cron">Custom (cron)</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {value && repeat !== "cron" && (
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Every</span>
+          <Input
+            type="number"
+            min={1}
+            className="w-20"
+            value={value.interval || 1}
+            onChange={(e) => update({ interval: Math.max(1, Number(e.target.value) || 1) })}
+            aria-label="Repeat interval"
+          />
+          <span className="text-muted-foreground">{intervalUnit}</span>
+        </div>
+      )}
+
+      {value && repeat === "weekly" && (
+        <ToggleGroup
+          type="multiple"
+          variant="outline"
+          size="sm"
+          className="justify-start flex-wrap"
+          value={(value.weekdays || []).map(String)}
+          onValueChange={(days) => update({ weekdays: days.map(Number).sort() })}
+        >
+          {WEEKDAY_NAMES.map((name, index) => (
+            <ToggleGroupItem key={name} value={String(index)} aria-label={name}>
+              {name.slice(0, 2)}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      )}
+
+      {value && repeat === "cron" && (
+        <div className="space-y-1">
+          <Input
+            value={value.cron || ""}
+            onChange={(e) => update({ cron: e.target.value })}
+            placeholder="minute hour day month weekday, e.g. 0 9 * * 1"
+            className="font-mono"
+            aria-label="Cron expression"
+          />
+          {!isValidCron(value.cron || "") && (
+            <p className="text-sm text-destructive">Enter five fields: minute hour day-of-month month day-of-week</p>
+          )}
+        </div>
+      )}
+
+      {value && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Ends</span>
+          <Select value={ends} onValueChange={(option) => handleEndChange(option as EndOption)}>
+            <SelectTrigger className="w-[120px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="never">Never</SelectItem>
+              <SelectItem value="on">On date</SelectItem>
+              <SelectItem value="after">After</SelectItem>
+            </SelectContent>
+          </Select>
+          {ends === "on" && (
+            <Input
+              type="date"
+              className="w-[160px]"
+              value={value.until ? value.until.slice(0, 10) : ""}
+              onChange={(e) => update({ until: e.target.value ? `${e.target.value}T23:59:59.999Z` : null })}
+              aria-label="End date"
+            />
+          )}
+          {ends === "after" && (
+            <>
+              <Input
+                type="number"
+                min={2}
+                className="w-20"
+                value={value.count || 2}
+                onChange={(e) => update({ count: Math.max(2, Number(e.target.value) || 2) })}
+                aria-label="Number of deliveries"
+              />
+              <span className="text-muted-foreground">deliveries</span>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecurrenceFields;
@@ -1,7 +1,7 @@
 
 import { useState } from "react";
-import { useForm } from "react-hook-form";
-import { Calendar as CalendarIcon, Clock, Mail } from "lucide-react";
+import { Controller, useFieldArray, useForm } from "react-hook-form";
+import { Calendar as CalendarIcon, Clock, Download, KeyRound, LockKeyhole, Mail, MessageSquare, Plus, User, X } from "lucide-react";
 import { format } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
 
@@ -10,7 +10,22 @@ import { Calendar } from "@/components/ui/calendar";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
 import FileUpload from "./FileUpload";
+import RecurrenceFields from "./RecurrenceFields";
+import TimezoneSelect from "./TimezoneSelect";
+import { BundleItem, FileRecipient, RetentionPolicy } from "./FileCard";
+import { RecurrenceRule, isValidCron } from "@/lib/recurrence";
+import { fromZonedWallClock, getLocalTimeZone, toZonedWallClock } from "@/lib/timezone";
+import {
+  DEFAULT_EMAIL_SUBJECT,
+  MAX_PERSONAL_MESSAGE_LENGTH,
+  MAX_SENDER_NAME_LENGTH,
+  MAX_SUBJECT_LENGTH,
+  renderMessageHtml
+} from "@/lib/message-format";
 import { cn } from "@/lib/utils";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 
@@ -19,37 +34,99 @@ interface ScheduleFormProps {
   editingFile?: {
     id: string;
     name: string;
-    recipient: string;
+    items?: BundleItem[];
+    recipients: FileRecipient[];
     scheduledDate: Date;
+    recurrence?: RecurrenceRule | null;
+    timezone?: string;
+    deliverInRecipientTimezone?: boolean;
+    senderName?: string | null;
+    emailSubject?: string | null;
+    personalMessage?: string | null;
+    linkValidDays?: number | null;
+    maxDownloads?: number | null;
+    passphraseProtected?: boolean;
+    retentionPolicy?: RetentionPolicy;
+    retentionDays?: number;
   } | null;
+  defaultTimeZone?: string;
+  defaultSenderName?: string;
 }
 
 export interface ScheduleFormData {
   id?: string;
-  file?: File;
-  recipient: string;
+  files?: File[];
+  recipients: FileRecipient[];
   scheduledDate: Date;
   scheduledTime: string;
+  recurrence?: RecurrenceRule | null;
+  timeZone: string;
+  deliverInRecipientTimezone: boolean;
+  senderName: string;
+  emailSubject: string;
+  personalMessage: string;
+  linkValidDays: number | null;
+  maxDownloads: number | null;
+  // Left out when editing keeps the current passphrase; empty removes it
+  passphrase?: string;
+  retentionPolicy: RetentionPolicy;
+  retentionDays: number;
+  // New deliveries only; uploaded files cannot be encrypted afterwards
+  encrypt?: boolean;
 }
 
-const ScheduleForm = ({ onSubmit, editingFile = null }: ScheduleFormProps) => {
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [date, setDate] = useState<Date | undefined>(editingFile?.scheduledDate || undefined);
+const LINK_VALIDITY_DAYS = [1, 3, 7, 14, 30, 90];
+const RETENTION_DAYS = [0, 1, 7, 30, 90];
+const MIN_PASSPHRASE_LENGTH = 6;
+const MAX_PASSPHRASE_LENGTH = 128;
+
+const ScheduleForm = ({ onSubmit, editingFile = null, defaultTimeZone, defaultSenderName = "" }: ScheduleFormProps) => {
+  const initialTimeZone = editingFile?.timezone || defaultTimeZone || getLocalTimeZone();
+  // Date and time are edited as they read on a clock in the chosen zone
+  const initialWallClock = editingFile?.scheduledDate
+    ? toZonedWallClock(editingFile.scheduledDate, initialTimeZone)
+    : null;
+
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  const [date, setDate] = useState<Date | undefined>(
+    initialWallClock ? new Date(initialWallClock.year, initialWallClock.month, initialWallClock.day) : undefined
+  );
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(editingFile?.recurrence || null);
+  const [timeZone, setTimeZone] = useState(initialTimeZone);
+  const [deliverInRecipientTimezone, setDeliverInRecipientTimezone] = useState(
+    editingFile?.deliverInRecipientTimezone || false
+  );
+  const [linkValidDays, setLinkValidDays] = useState(
+    editingFile?.linkValidDays ? String(editingFile.linkValidDays) : "forever"
+  );
+  const [retentionPolicy, setRetentionPolicy] = useState<RetentionPolicy>(editingFile?.retentionPolicy || "keep");
+  const [retentionDays, setRetentionDays] = useState(String(editingFile?.retentionDays || 0));
+  const [removePassphrase, setRemovePassphrase] = useState(false);
+  const [encrypt, setEncrypt] = useState(false);
   const { toast } = useToast();
   
-  const defaultTime = editingFile?.scheduledDate 
-    ? format(editingFile.scheduledDate, "HH:mm")
+  const defaultTime = initialWallClock
+    ? `${String(initialWallClock.hour).padStart(2, "0")}:${String(initialWallClock.minute).padStart(2, "0")}`
     : "";
 
-  const { register, handleSubmit, formState: { errors }, reset } = useForm<ScheduleFormData>({
+  const { register, control, handleSubmit, formState: { errors }, reset, watch } = useForm<ScheduleFormData>({
     defaultValues: {
-      recipient: editingFile?.recipient || "",
-      scheduledTime: defaultTime
+      recipients: editingFile?.recipients.length
+        ? editingFile.recipients.map(({ email, role, timezone }) => ({ email, role, timezone: timezone || initialTimeZone }))
+        : [{ email: "", role: "to", timezone: initialTimeZone }],
+      scheduledTime: defaultTime,
+      senderName: editingFile ? editingFile.senderName || "" : defaultSenderName,
+      emailSubject: editingFile?.emailSubject || "",
+      personalMessage: editingFile?.personalMessage || "",
+      maxDownloads: editingFile?.maxDownloads || null,
+      passphrase: ""
     }
   });
+  const personalMessage = watch("personalMessage");
+  const { fields, append, remove } = useFieldArray({ control, name: "recipients" });
 
-  const handleFileSelect = (file: File) => {
-    setSelectedFile(file);
+  const handleFilesChange = (files: File[]) => {
+    setSelectedFiles(files);
   };
 
   const truncateText = (text: string, maxLength: number) => {
@@ -78,20 +155,62 @@ const ScheduleForm = ({ onSubmit, editingFile = null }: ScheduleFormProps) => {
       return;
     }
 
-    if (!selectedFile && !editingFile) {
+    if (selectedFiles.length === 0 && !editingFile) {
       toast({
         variant: "destructive",
         title: "Validation Error",
-        description: "Please upload a file"
+        description: "Please upload at least one file"
       });
       return;
     }
 
     const [hours, minutes] = data.scheduledTime.split(":").map(Number);
-    const scheduledDateTime = new Date(date);
-    scheduledDateTime.setHours(hours, minutes, 0, 0);
+    const wallClock = { year: date.getFullYear(), month: date.getMonth(), day: date.getDate(), hour: hours, minute: minutes };
+    const scheduledDateTime = fromZonedWallClock(wallClock, timeZone);
+
+    const recipients: FileRecipient[] = data.recipients.map(recipient => {
+      const recipientTimeZone = deliverInRecipientTimezone ? recipient.timezone || timeZone : null;
+      return {
+        email: recipient.email.trim(),
+        role: recipient.role,
+        timezone: recipientTimeZone,
+        // Same wall clock time, on the recipient's clock
+        deliverAt: recipientTimeZone ? fromZonedWallClock(wallClock, recipientTimeZone) : null
+      };
+    });
+    
+    if (!recipients.some(recipient => recipient.role === "to")) {
+      toast({
+        variant: "destructive",
+        title: "Validation Error",
+        description: "Add at least one \"To\" recipient"
+      });
+      return;
+    }
+    
+    const uniqueEmails = new Set(recipients.map(recipient => recipient.email.toLowerCase()));
+    if (uniqueEmails.size !== recipients.length) {
+      toast({
+        variant: "destructive",
+        title: "Validation Error",
+        description: "Each recipient can only be added once"
+      });
+      return;
+    }
+
+    const now = new Date();
+    const lateRecipient = recipients.find(recipient => recipient.deliverAt && recipient.deliverAt < now);
+
+    if (lateRecipient) {
+      toast({
+        variant: "destructive",
+        title: "Validation Error",
+        description: `That time has already passed in ${lateRecipient.timezone} (${lateRecipient.email})`
+      });
+      return;
+    }
 
-    if (scheduledDateTime < new Date()) {
+    if (!deliverInRecipientTimezone && scheduledDateTime < now) {
       toast({
         variant: "destructive",
         title: "Validation Error",
@@ -100,23 +219,52 @@ const ScheduleForm = ({ onSubmit, editingFile = null }: ScheduleFormProps) => {
       return;
     }
 
+    if (recurrence?.frequency === "cron" && !isValidCron(recurrence.cron || "")) {
+      toast({
+        variant: "destructive",
+        title: "Validation Error",
+        description: "Enter a valid cron expression"
+      });
+      return;
+    }
+
     const formData: ScheduleFormData = {
-      recipient: data.recipient,
+      recipients,
       scheduledDate: scheduledDateTime,
       scheduledTime: data.scheduledTime,
+      // The series starts at the first delivery
+      recurrence: recurrence ? { ...recurrence, anchor: scheduledDateTime.toISOString() } : null,
+      timeZone,
+      deliverInRecipientTimezone,
+      senderName: data.senderName.trim(),
+      emailSubject: data.emailSubject.trim(),
+      personalMessage: data.personalMessage.trim(),
+      linkValidDays: linkValidDays === "forever" ? null : Number(linkValidDays),
+      maxDownloads: data.maxDownloads || null,
+      passphrase: removePassphrase ? "" : data.passphrase || undefined,
+      retentionPolicy,
+      retentionDays: retentionPolicy === "keep" ? 0 : Number(retentionDays),
     };
 
     if (editingFile) {
       formData.id = editingFile.id;
-    } else if (selectedFile) {
-      formData.file = selectedFile;
+    } else {
+      formData.files = selectedFiles;
+      formData.encrypt = encrypt;
     }
     
     onSubmit(formData);
     
     if (!editingFile) {
-      setSelectedFile(null);
+      setSelectedFiles([]);
       setDate(undefined);
+      setRecurrence(null);
+      setDeliverInRecipientTimezone(false);
+      setLinkValidDays("forever");
+      setRetentionPolicy("keep");
+      setRetentionDays("0");
+      setRemovePassphrase(false);
+      setEncrypt(false);
       reset();
     }
   };
@@ -125,63 +273,168 @@ const ScheduleForm = ({ onSubmit, editingFile = null }: ScheduleFormProps) => {
     <form onSubmit={handleSubmit(processSubmit)} className="space-y-6">
       {!editingFile && (
         <div className="space-y-2">
-          <Label>File</Label>
-          <FileUpload onFileSelect={handleFileSelect} />
-          {selectedFile && (
-            <div className="mt-2 text-sm text-muted-foreground">
-              <TooltipProvider>
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <p className="truncate max-w-xs">
-                      Selected: <span className="font-medium">{truncateText(selectedFile.name, 25)}</span>
-                    </p>
-                  </TooltipTrigger>
-                  <TooltipContent side="top" className="max-w-80">
-                    <p className="break-all">{selectedFile.name}</p>
-                  </TooltipContent>
-                </Tooltip>
-              </TooltipProvider>
-            </div>
-          )}
+          <Label>Files</Label>
+          <FileUpload onFilesChange={handleFilesChange} />
         </div>
       )}
       {editingFile && (
         <div className="space-y-2">
-          <Label>File</Label>
-          <TooltipProvider>
-            <Tooltip>
-              <TooltipTrigger asChild>
-                <div className="p-2 border border-input rounded-md bg-muted/30 text-sm truncate w-full max-w-full break-all overflow-hidden">
-                  {truncateText(editingFile.name, 30)}
-                </div>
-              </TooltipTrigger>
-              <TooltipContent side="top" className="max-w-80">
-                <p className="break-all">{editingFile.name}</p>
-              </TooltipContent>
-            </Tooltip>
-          </TooltipProvider>
+          <Label>{editingFile.items && editingFile.items.length > 1 ? "Files" : "File"}</Label>
+          {(editingFile.items?.length ? editingFile.items.map(item => item.name) : [editingFile.name]).map((name, index) => (
+            <TooltipProvider key={`${name}-${index}`}>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <div className="p-2 border border-input rounded-md bg-muted/30 text-sm truncate w-full max-w-full break-all overflow-hidden">
+                    {truncateText(name, 30)}
+                  </div>
+                </TooltipTrigger>
+                <TooltipContent side="top" className="max-w-80">
+                  <p className="break-all">{name}</p>
+                </TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+          ))}
         </div>
       )}
 
       <div className="space-y-2">
-        <Label htmlFor="recipient">Recipient Email</Label>
+        <Label>Recipients</Label>
+        {fields.map((field, index) => (
+          <div key={field.id} className="space-y-1">
+            <div className="flex gap-2">
+              <Controller
+                control={control}
+                name={`recipients.${index}.role`}
+                render={({ field: roleField }) => (
+                  <Select value={roleField.value} onValueChange={roleField.onChange}>
+                    <SelectTrigger className="w-[84px] shrink-0" aria-label="Recipient type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="to">To</SelectItem>
+                      <SelectItem value="cc">CC</SelectItem>
+                      <SelectItem value="bcc">BCC</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+              <div className="relative flex-1">
+                <Mail className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="recipient@example.com"
+                  className="pl-10"
+                  {...register(`recipients.${index}.email`, { 
+                    required: "Recipient email is required",
+                    pattern: {
+                      value: /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i,
+                      message: "Invalid email address"
+                    }
+                  })}
+                />
+              </div>
+              {deliverInRecipientTimezone && (
+                <Controller
+                  control={control}
+                  name={`recipients.${index}.timezone`}
+                  render={({ field: timezoneField }) => (
+                    <TimezoneSelect
+                      compact
+                      value={timezoneField.value || timeZone}
+                      onChange={timezoneField.onChange}
+                      className="w-[120px] shrink-0 px-2"
+                    />
+                  )}
+                />
+              )}
+              {fields.length > 1 && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="shrink-0 text-muted-foreground hover:text-destructive"
+                  onClick={() => remove(index)}
+                  aria-label="Remove recipient"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+            {errors.recipients?.[index]?.email && (
+              <p className="text-sm text-destructive">{errors.recipients[index].email.message}</p>
+            )}
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => append({ email: "", role: "cc", timezone: timeZone })}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add recipient
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="senderName">Your name</Label>
         <div className="relative">
-          <Mail className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <User className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
           <Input
-            id="recipient"
-            placeholder="recipient@example.com"
+            id="senderName"
+            placeholder="Shown as the sender of the email"
             className="pl-10"
-            {...register("recipient", { 
-              required: "Recipient email is required",
-              pattern: {
-                value: /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i,
-                message: "Invalid email address"
+            {...register("senderName", {
+              maxLength: { value: MAX_SENDER_NAME_LENGTH, message: `Keep the name under ${MAX_SENDER_NAME_LENGTH} characters` }
+            })}
+          />
+        </div>
+        {errors.senderName && (
+          <p className="text-sm text-destructive">{errors.senderName.message}</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="emailSubject">Subject</Label>
+        <Input
+          id="emailSubject"
+          placeholder={DEFAULT_EMAIL_SUBJECT}
+          {...register("emailSubject", {
+            maxLength: { value: MAX_SUBJECT_LENGTH, message: `Keep the subject under ${MAX_SUBJECT_LENGTH} characters` }
+          })}
+        />
+        {errors.emailSubject && (
+          <p className="text-sm text-destructive">{errors.emailSubject.message}</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="personalMessage">Personal message</Label>
+        <div className="relative">
+          <MessageSquare className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+          <Textarea
+            id="personalMessage"
+            placeholder="Add a note for the recipients (optional)"
+            className="pl-10 min-h-[96px]"
+            {...register("personalMessage", {
+              maxLength: {
+                value: MAX_PERSONAL_MESSAGE_LENGTH,
+                message: `Keep the message under ${MAX_PERSONAL_MESSAGE_LENGTH} characters`
               }
             })}
           />
         </div>
-        {errors.recipient && (
-          <p className="text-sm text-destructive">{errors.recipient.message}</p>
+        <p className="text-xs text-muted-foreground">
+          Supports **bold**, *italic*, [links](https://example.com) and "- " lists
+        </p>
+        {errors.personalMessage && (
+          <p className="text-sm text-destructive">{errors.personalMessage.message}</p>
+        )}
+        {personalMessage?.trim() && (
+          <div
+            className="rounded-md border border-input bg-muted/30 p-3 text-sm break-words [&_a]:text-primary [&_a]:underline [&_p]:mb-2 [&_p:last-child]:mb-0 [&_ul]:list-disc [&_ul]:pl-5"
+            // renderMessageHtml escapes the text before adding its own markup
+            dangerouslySetInnerHTML={{ __html: renderMessageHtml(personalMessage) }}
+          />
         )}
       </div>
 
@@ -232,6 +485,167 @@ const ScheduleForm = ({ onSubmit, editingFile = null }: ScheduleFormProps) => {
         </div>
       </div>
 
+      <div className="space-y-2">
+        <Label>Time zone</Label>
+        <TimezoneSelect value={timeZone} onChange={setTimeZone} className="w-full" />
+        <div className="flex items-center justify-between gap-4 pt-1">
+          <Label htmlFor="deliverInRecipientTimezone" className="font-normal text-muted-foreground">
+            Deliver at this time in each recipient's time zone
+          </Label>
+          <Switch
+            id="deliverInRecipientTimezone"
+            checked={deliverInRecipientTimezone}
+            onCheckedChange={setDeliverInRecipientTimezone}
+          />
+        </div>
+      </div>
+
+      <RecurrenceFields value={recurrence} onChange={setRecurrence} anchorDate={date} />
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Link valid for</Label>
+          <Select value={linkValidDays} onValueChange={setLinkValidDays}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="forever">No expiry</SelectItem>
+              {Array.from(new Set([...LINK_VALIDITY_DAYS, Number(linkValidDays) || 1]))
+                .sort((a, b) => a - b)
+                .map(days => (
+                  <SelectItem key={days} value={String(days)}>
+                    {days === 1 ? "1 day" : `${days} days`} after delivery
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="maxDownloads">Download limit</Label>
+          <div className="relative">
+            <Download className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              id="maxDownloads"
+              type="number"
+              min={1}
+              placeholder="Unlimited"
+              className="pl-10"
+              {...register("maxDownloads", {
+                setValueAs: (value) => (value === "" || value === null ? null : Number(value)),
+                validate: (value) =>
+                  value === null || (Number.isInteger(value) && value > 0) || "Enter a whole number of downloads"
+              })}
+            />
+          </div>
+          {errors.maxDownloads && (
+            <p className="text-sm text-destructive">{errors.maxDownloads.message}</p>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Delete files</Label>
+            <Select value={retentionPolicy} onValueChange={(value) => setRetentionPolicy(value as RetentionPolicy)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="keep">When I delete them</SelectItem>
+                <SelectItem value="after_download">After the first download</SelectItem>
+                <SelectItem value="after_expiry">After the link expires</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Grace period</Label>
+            <Select value={retentionDays} onValueChange={setRetentionDays} disabled={retentionPolicy === "keep"}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from(new Set([...RETENTION_DAYS, Number(retentionDays)]))
+                  .sort((a, b) => a - b)
+                  .map(days => (
+                    <SelectItem key={days} value={String(days)}>
+                      {days === 0 ? "None" : days === 1 ? "1 day" : `${days} days`}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        {retentionPolicy === "after_expiry" && linkValidDays === "forever" && (
+          <p className="text-xs text-muted-foreground">
+            The link has no expiry, so the files are only deleted once you revoke it
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="passphrase">Passphrase</Label>
+        <div className="relative">
+          <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            id="passphrase"
+            type="password"
+            autoComplete="new-password"
+            placeholder={editingFile?.passphraseProtected
+              ? "Leave empty to keep the current passphrase"
+              : "Recipients must enter it to download (optional)"}
+            className="pl-10"
+            disabled={removePassphrase}
+            {...register("passphrase", {
+              validate: (value) =>
+                !value ||
+                (value.length >= MIN_PASSPHRASE_LENGTH && value.length <= MAX_PASSPHRASE_LENGTH) ||
+                `Use between ${MIN_PASSPHRASE_LENGTH} and ${MAX_PASSPHRASE_LENGTH} characters`
+            })}
+          />
+        </div>
+        {errors.passphrase && (
+          <p className="text-sm text-destructive">{errors.passphrase.message}</p>
+        )}
+        {editingFile?.passphraseProtected && (
+          <div className="flex items-center justify-between gap-4 pt-1">
+            <Label htmlFor="removePassphrase" className="font-normal text-muted-foreground">
+              Remove the passphrase
+            </Label>
+            <Switch
+              id="removePassphrase"
+              checked={removePassphrase}
+              onCheckedChange={setRemovePassphrase}
+            />
+          </div>
+        )}
+        <p className="text-xs text-muted-foreground">
+          Share it with recipients separately, not in the message above
+        </p>
+      </div>
+
+      {!editingFile && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="encrypt" className="flex items-center">
+              <LockKeyhole className="h-4 w-4 mr-2 text-muted-foreground" />
+              Encrypt end-to-end
+            </Label>
+            <Switch
+              id="encrypt"
+              checked={encrypt}
+              onCheckedChange={setEncrypt}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Files are encrypted in your browser before upload. You get a key to share with recipients; without it nobody, including us, can open the files.
+          </p>
+        </div>
+      )}
+
       <Button type="submit" className="w-full">
         {editingFile ? "Update Schedule" : "Schedule Delivery"}
       </Button>
@@ -0,0 +1,126 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { format } from "date-fns";
+import { FileText, Loader2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  StorageUsage as StorageUsageData,
+  StoredFile,
+  deleteScheduledFile,
+  getLargestStoredFiles,
+  getStorageUsage
+} from "@/services/fileService";
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(0) + " KB";
+  if (bytes < 1024 * 1024 * 1024) return (bytes / (1024 * 1024)).toFixed(1) + " MB";
+  return (bytes / (1024 * 1024 * 1024)).toFixed(2) + " GB";
+};
+
+const StorageUsage = () => {
+  const [usage, setUsage] = useState<StorageUsageData | null>(null);
+  const [largestFiles, setLargestFiles] = useState<StoredFile[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const loadUsage = useCallback(async () => {
+    try {
+      const [usageData, files] = await Promise.all([getStorageUsage(), getLargestStoredFiles()]);
+      setUsage(usageData);
+      setLargestFiles(files);
+    } catch (error) {
+      console.error("Error loading storage usage:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage]);
+
+  const handleDelete = async (file: StoredFile) => {
+    setDeletingId(file.fileId);
+    try {
+      await deleteScheduledFile(file.fileId);
+      await loadUsage();
+    } catch (error) {
+      console.error("Error deleting file:", error);
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        Loading storage usage...
+      </div>
+    );
+  }
+
+  if (!usage) {
+    return <p className="text-sm text-muted-foreground">Storage usage is not available right now.</p>;
+  }
+
+  const percentUsed = usage.quotaBytes > 0 ? Math.min((usage.usedBytes / usage.quotaBytes) * 100, 100) : 100;
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between text-sm">
+          <span className="font-medium">
+            {formatBytes(usage.usedBytes)} of {formatBytes(usage.quotaBytes)} used
+          </span>
+          <span className="text-muted-foreground">{percentUsed.toFixed(0)}%</span>
+        </div>
+        <Progress value={percentUsed} className="h-2" indicatorClassName={percentUsed >= 90 ? "bg-destructive" : undefined} />
+        <p className="text-sm text-muted-foreground">
+          {usage.capsuleCount} {usage.capsuleCount === 1 ? "capsule" : "capsules"} · {usage.fileCount} stored {usage.fileCount === 1 ? "file" : "files"}
+        </p>
+      </div>
+
+      {largestFiles.length > 0 && (
+        <div className="space-y-3">
+          <h3 className="text-sm font-medium">Largest files</h3>
+          <ul className="divide-y divide-border rounded-md border">
+            {largestFiles.map(file => (
+              <li key={file.storagePath} className="flex items-center gap-3 p-3">
+                <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm font-medium">{file.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatBytes(file.size)} · {format(file.scheduledDate, "MMM d, yyyy")}
+                    {file.deliveryCount > 1 && ` · shared by ${file.deliveryCount} deliveries`}
+                  </p>
+                </div>
+                <Button variant="ghost" size="sm" asChild>
+                  <Link to={`/dashboard?search=${encodeURIComponent(file.name)}`}>Show</Link>
+                </Button>
+                {/* A shared file is only freed once every delivery using it is gone */}
+                {file.deliveryCount === 1 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                    onClick={() => handleDelete(file)}
+                    disabled={deletingId === file.fileId}
+                    aria-label={`Delete ${file.name} permanently`}
+                  >
+                    {deletingId === file.fileId
+                      ? <Loader2 className="h-4 w-4 animate-spin" />
+                      : <Trash2 className="h-4 w-4" />}
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StorageUsage;
@@ -0,0 +1,67 @@
+import { useMemo, useState } from "react";
+import { Check, ChevronsUpDown, Globe } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+import { getSupportedTimeZones } from "@/lib/timezone";
+
+interface TimezoneSelectProps {
+  value: string;
+  onChange: (timeZone: string) => void;
+  className?: string;
+  compact?: boolean;
+}
+
+const formatZoneName = (timeZone: string) => timeZone.replace(/_/g, " ");
+
+const TimezoneSelect = ({ value, onChange, className, compact = false }: TimezoneSelectProps) => {
+  const [open, setOpen] = useState(false);
+  const timeZones = useMemo(() => getSupportedTimeZones(), []);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          aria-label="Time zone"
+          className={cn("justify-between font-normal", className)}
+        >
+          <span className="flex items-center truncate">
+            {!compact && <Globe className="mr-2 h-4 w-4 shrink-0 text-muted-foreground" />}
+            <span className="truncate">{formatZoneName(value)}</span>
+          </span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[280px] p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search time zones..." />
+          <CommandList>
+            <CommandEmpty>No time zone found.</CommandEmpty>
+            <CommandGroup>
+              {timeZones.map((timeZone) => (
+                <CommandItem
+                  key={timeZone}
+                  value={timeZone}
+                  onSelect={() => {
+                    onChange(timeZone);
+                    setOpen(false);
+                  }}
+                >
+                  <Check className={cn("mr-2 h-4 w-4", value === timeZone ? "opacity-100" : "opacity-0")} />
+                  {formatZoneName(timeZone)}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default TimezoneSelect;
@@ -0,0 +1,218 @@
+import { useState } from "react";
+import { Ban, Clock, Loader2, Mail, RotateCw, Trash, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { FileItem } from "@/components/FileCard";
+import { BulkAction, BulkActionOptions, BulkActionResult } from "@/services/fileService";
+
+type OffsetUnit = "minutes" | "hours" | "days" | "weeks";
+
+interface BulkActionBarProps {
+  selectedFiles: FileItem[];
+  onClear: () => void;
+  onAction: (action: BulkAction, options?: BulkActionOptions) => Promise<BulkActionResult[]>;
+}
+
+const ACTION_LABELS: Record<BulkAction, string> = {
+  reschedule: "Reschedule",
+  change_recipient: "Change recipient",
+  cancel: "Cancel",
+  delete: "Delete",
+  retry: "Retry"
+};
+
+const BulkActionBar = ({ selectedFiles, onClear, onAction }: BulkActionBarProps) => {
+  const [runningAction, setRunningAction] = useState<BulkAction | null>(null);
+  const [rescheduleOpen, setRescheduleOpen] = useState(false);
+  const [offsetAmount, setOffsetAmount] = useState("1");
+  const [offsetUnit, setOffsetUnit] = useState<OffsetUnit>("days");
+  const [offsetDirection, setOffsetDirection] = useState<"later" | "earlier">("later");
+  const [recipientOpen, setRecipientOpen] = useState(false);
+  const [recipientEmail, setRecipientEmail] = useState("");
+  // Deliveries the last action could not be applied to
+  const [failures, setFailures] = useState<{ action: BulkAction; results: BulkActionResult[] } | null>(null);
+
+  const amount = Number(offsetAmount);
+  const isValidOffset = Number.isInteger(amount) && amount > 0;
+  const isValidEmail = /^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(recipientEmail.trim());
+
+  const run = async (action: BulkAction, options?: BulkActionOptions) => {
+    setRunningAction(action);
+    try {
+      const results = await onAction(action, options);
+      const failed = results.filter(result => !result.succeeded);
+      if (failed.length > 0) {
+        setFailures({ action, results: failed });
+      }
+      setRescheduleOpen(false);
+      setRecipientOpen(false);
+    } catch (error) {
+      console.error("Error running bulk action:", error);
+    } finally {
+      setRunningAction(null);
+    }
+  };
+
+  const handleReschedule = () => {
+    if (!isValidOffset) return;
+    const sign = offsetDirection === "earlier" ? "-" : "";
+    run("reschedule", { offset: `${sign}${amount} ${offsetUnit}` });
+  };
+
+  const handleChangeRecipient = () => {
+    if (!isValidEmail) return;
+    run("change_recipient", { recipientEmail: recipientEmail.trim() });
+  };
+
+  const getFileName = (id: string) => {
+    return selectedFiles.find(file => file.id === id)?.name || "Unknown delivery";
+  };
+
+  const isRunning = runningAction !== null;
+
+  const renderIcon = (action: BulkAction, Icon: typeof Clock) => {
+    return runningAction === action
+      ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+      : <Icon className="h-4 w-4 mr-2" />;
+  };
+
+  return (
+    <>
+      {selectedFiles.length > 0 && (
+        <div className="fixed bottom-6 left-1/2 z-40 w-[calc(100%-2rem)] max-w-4xl -translate-x-1/2 rounded-xl border bg-background p-3 shadow-lg">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="mr-2 text-sm font-medium">
+              {selectedFiles.length} selected
+            </span>
+
+            <Popover open={rescheduleOpen} onOpenChange={setRescheduleOpen}>
+              <PopoverTrigger asChild>
+                <Button variant="outline" size="sm" disabled={isRunning}>
+                  {renderIcon("reschedule", Clock)}
+                  Reschedule
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-72 space-y-3" align="start">
+                <p className="text-sm text-muted-foreground">
+                  Move pending deliveries by the same amount, keeping their time of day across daylight saving changes.
+                </p>
+                <ToggleGroup
+                  type="single"
+                  variant="outline"
+                  value={offsetDirection}
+                  onValueChange={(value) => value && setOffsetDirection(value as "later" | "earlier")}
+                  className="justify-start"
+                >
+                  <ToggleGroupItem value="later" size="sm">Later</ToggleGroupItem>
+                  <ToggleGroupItem value="earlier" size="sm">Earlier</ToggleGroupItem>
+                </ToggleGroup>
+                <div className="flex gap-2">
+                  <Input
+                    type="number"
+                    min={1}
+                    step={1}
+                    value={offsetAmount}
+                    onChange={(e) => setOffsetAmount(e.target.value)}
+                    className="w-20"
+                    aria-label="Amount"
+                  />
+                  <Select value={offsetUnit} onValueChange={(value) => setOffsetUnit(value as OffsetUnit)}>
+                    <SelectTrigger className="flex-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="minutes">Minutes</SelectItem>
+                      <SelectItem value="hours">Hours</SelectItem>
+                      <SelectItem value="days">Days</SelectItem>
+                      <SelectItem value="weeks">Weeks</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button size="sm" className="w-full" onClick={handleReschedule} disabled={!isValidOffset || isRunning}>
+                  Move {selectedFiles.length} {selectedFiles.length === 1 ? "delivery" : "deliveries"}
+                </Button>
+              </PopoverContent>
+            </Popover>
+
+            <Popover open={recipientOpen} onOpenChange={setRecipientOpen}>
+              <PopoverTrigger asChild>
+                <Button variant="outline" size="sm" disabled={isRunning}>
+                  {renderIcon("change_recipient", Mail)}
+                  Change recipient
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-72 space-y-3" align="start">
+                <div className="space-y-2">
+                  <Label htmlFor="bulk-recipient">New recipient</Label>
+                  <Input
+                    id="bulk-recipient"
+                    type="email"
+                    placeholder="name@example.com"
+                    value={recipientEmail}
+                    onChange={(e) => setRecipientEmail(e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && handleChangeRecipient()}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Replaces the main recipient of pending deliveries. Cc and bcc recipients stay as they are.
+                  </p>
+                </div>
+                <Button size="sm" className="w-full" onClick={handleChangeRecipient} disabled={!isValidEmail || isRunning}>
+                  Update {selectedFiles.length} {selectedFiles.length === 1 ? "delivery" : "deliveries"}
+                </Button>
+              </PopoverContent>
+            </Popover>
+
+            <Button variant="outline" size="sm" onClick={() => run("cancel")} disabled={isRunning}>
+              {renderIcon("cancel", Ban)}
+              Cancel
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => run("retry")} disabled={isRunning}>
+              {renderIcon("retry", RotateCw)}
+              Retry
+            </Button>
+            <Button variant="outline" size="sm" className="text-red-500" onClick={() => run("delete")} disabled={isRunning}>
+              {renderIcon("delete", Trash)}
+              Delete
+            </Button>
+
+            <Button variant="ghost" size="sm" className="ml-auto" onClick={onClear} disabled={isRunning}>
+              <X className="h-4 w-4 mr-2" />
+              Clear
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <Dialog open={!!failures} onOpenChange={(open) => !open && setFailures(null)}>
+        <DialogContent className="sm:max-w-[480px] bg-background text-foreground border-border">
+          <DialogHeader>
+            <DialogTitle className="text-foreground">
+              {failures ? `${ACTION_LABELS[failures.action]}: ${failures.results.length} not updated` : ""}
+            </DialogTitle>
+            <DialogDescription>
+              The other deliveries were updated. These are still selected so you can try something else.
+            </DialogDescription>
+          </DialogHeader>
+          <ul className="max-h-[300px] space-y-2 overflow-y-auto">
+            {failures?.results.map(result => (
+              <li key={result.fileId} className="rounded-md border p-2 text-sm">
+                <p className="font-medium">{getFileName(result.fileId)}</p>
+                <p className="text-muted-foreground">{result.message}</p>
+              </li>
+            ))}
+          </ul>
+          <DialogFooter>
+            <Button onClick={() => setFailures(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default BulkActionBar;
@@ -0,0 +1,317 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  isToday,
+  set,
+  startOfDay,
+  startOfMonth,
+  startOfWeek
+} from "date-fns";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { FileItem } from "@/components/FileCard";
+import { cn } from "@/lib/utils";
+
+type CalendarMode = "month" | "week" | "day";
+
+interface CalendarViewProps {
+  files: FileItem[];
+  onReschedule: (id: string, scheduledDate: Date) => void;
+  onEditFile: (id: string) => void;
+  // The days on screen, so only their deliveries need to be loaded
+  onRangeChange: (from: Date, to: Date) => void;
+}
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+const HOUR_ROW_HEIGHT = 48;
+const MAX_EVENTS_PER_DAY = 3;
+
+const STATUS_STYLES: Record<FileItem["status"], string> = {
+  pending: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300",
+  sent: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300",
+  failed: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300",
+  cancelled: "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-300"
+};
+
+// When a delivery goes out, as search_scheduled_files filters the range: its
+// next pending recipient, or the automatic retry when that is later
+const getDeliveryTime = (file: FileItem) => {
+  const next = file.nextDeliveryAt || file.scheduledDate;
+  return file.nextAttemptAt && file.nextAttemptAt > next ? file.nextAttemptAt : next;
+};
+
+const CalendarView = ({ files, onReschedule, onEditFile, onRangeChange }: CalendarViewProps) => {
+  const [mode, setMode] = useState<CalendarMode>("month");
+  const [cursor, setCursor] = useState(() => new Date());
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Open the hourly views at the start of the working day
+  useEffect(() => {
+    if (mode !== "month" && scrollRef.current) {
+      scrollRef.current.scrollTop = 8 * HOUR_ROW_HEIGHT;
+    }
+  }, [mode]);
+
+  const weekStart = startOfWeek(cursor);
+  const weekDays = eachDayOfInterval({ start: weekStart, end: endOfWeek(cursor) });
+  const visibleDays = mode === "week" ? weekDays : [cursor];
+
+  const rangeStart = mode === "month" ? startOfWeek(startOfMonth(cursor)) : mode === "week" ? weekStart : startOfDay(cursor);
+  const rangeEnd = mode === "month" ? endOfWeek(endOfMonth(cursor)) : mode === "week" ? endOfWeek(cursor) : endOfDay(cursor);
+  const rangeStartTime = rangeStart.getTime();
+  const rangeEndTime = rangeEnd.getTime();
+
+  useEffect(() => {
+    onRangeChange(new Date(rangeStartTime), new Date(rangeEndTime));
+  }, [rangeStartTime, rangeEndTime, onRangeChange]);
+
+  const move = (direction: 1 | -1) => {
+    setCursor(prev => {
+      if (mode === "month") return addMonths(prev, direction);
+      if (mode === "week") return addWeeks(prev, direction);
+      return addDays(prev, direction);
+    });
+  };
+
+  const getTitle = () => {
+    if (mode === "month") return format(cursor, "MMMM yyyy");
+    if (mode === "week") return `${format(weekStart, "MMM d")} – ${format(endOfWeek(cursor), "MMM d, yyyy")}`;
+    return format(cursor, "EEEE, MMMM d, yyyy");
+  };
+
+  const getFilesAt = (day: Date, hour?: number) => {
+    return files
+      .filter(file => {
+        const time = getDeliveryTime(file);
+        return isSameDay(time, day) && (hour === undefined || time.getHours() === hour);
+      })
+      .sort((a, b) => getDeliveryTime(a).getTime() - getDeliveryTime(b).getTime());
+  };
+
+  const openDay = (day: Date) => {
+    setCursor(day);
+    setMode("day");
+  };
+
+  const handleDragEnd = () => {
+    setDraggedId(null);
+    setDropTarget(null);
+  };
+
+  // A slot takes the dragged delivery; getDate works out when it goes out
+  // there, and the whole delivery moves by the same amount
+  const getDropProps = (key: string, getDate: (file: FileItem) => Date) => ({
+    onDragOver: (event: React.DragEvent) => {
+      if (!draggedId) return;
+      event.preventDefault();
+      event.dataTransfer.dropEffect = "move";
+      setDropTarget(key);
+    },
+    onDragLeave: () => {
+      setDropTarget(prev => prev === key ? null : prev);
+    },
+    onDrop: (event: React.DragEvent) => {
+      event.preventDefault();
+      const file = files.find(item => item.id === draggedId);
+      handleDragEnd();
+      if (!file) return;
+
+      const shift = getDate(file).getTime() - getDeliveryTime(file).getTime();
+      if (shift !== 0) {
+        onReschedule(file.id, new Date(file.scheduledDate.getTime() + shift));
+      }
+    }
+  });
+
+  const renderEvent = (file: FileItem) => {
+    // Only deliveries that have not gone out yet can move, and not while an
+    // automatic retry decides when they go out
+    const isMovable = file.status === "pending";
+    const isDraggable = isMovable && !file.nextAttemptAt;
+    const time = getDeliveryTime(file);
+
+    return (
+      <div
+        key={file.id}
+        draggable={isDraggable}
+        onDragStart={(event) => {
+          event.dataTransfer.setData("text/plain", file.id);
+          event.dataTransfer.effectAllowed = "move";
+          setDraggedId(file.id);
+        }}
+        onDragEnd={handleDragEnd}
+        onClick={(event) => {
+          event.stopPropagation();
+          if (isMovable) onEditFile(file.id);
+        }}
+        title={`${format(time, "h:mm a")} · ${file.name} to ${file.recipient}`}
+        className={cn(
+          "truncate rounded px-1.5 py-0.5 text-xs",
+          STATUS_STYLES[file.status],
+          isDraggable ? "cursor-grab" : isMovable ? "cursor-pointer" : "cursor-default opacity-70",
+          draggedId === file.id && "opacity-40"
+        )}
+      >
+        <span className="font-medium">{format(time, "h:mm a")}</span> {file.name}
+      </div>
+    );
+  };
+
+  const renderMonth = () => {
+    const days = eachDayOfInterval({
+      start: startOfWeek(startOfMonth(cursor)),
+      end: endOfWeek(endOfMonth(cursor))
+    });
+
+    return (
+      <div className="grid grid-cols-7 border-l border-t">
+        {weekDays.map(day => (
+          <div key={day.toISOString()} className="border-b border-r p-2 text-xs font-medium text-muted-foreground">
+            {format(day, "EEE")}
+          </div>
+        ))}
+        {days.map(day => {
+          const key = `day-${day.toISOString()}`;
+          const dayFiles = getFilesAt(day);
+          const hiddenCount = dayFiles.length - MAX_EVENTS_PER_DAY;
+
+          return (
+            <div
+              key={key}
+              {...getDropProps(key, file => set(day, {
+                hours: getDeliveryTime(file).getHours(),
+                minutes: getDeliveryTime(file).getMinutes()
+              }))}
+              className={cn(
+                "min-h-[110px] space-y-1 border-b border-r p-1.5",
+                !isSameMonth(day, cursor) && "bg-muted/40",
+                dropTarget === key && "bg-primary/10"
+              )}
+            >
+              <button
+                type="button"
+                onClick={() => openDay(day)}
+                className={cn(
+                  "flex h-6 w-6 items-center justify-center rounded-full text-xs hover:bg-accent",
+                  isToday(day) && "bg-primary text-primary-foreground hover:bg-primary/90",
+                  !isSameMonth(day, cursor) && !isToday(day) && "text-muted-foreground"
+                )}
+              >
+                {format(day, "d")}
+              </button>
+              {dayFiles.slice(0, MAX_EVENTS_PER_DAY).map(renderEvent)}
+              {hiddenCount > 0 && (
+                <button
+                  type="button"
+                  onClick={() => openDay(day)}
+                  className="px-1.5 text-xs text-muted-foreground hover:text-foreground"
+                >
+                  +{hiddenCount} more
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const renderHours = () => (
+    <div className="border-l border-t">
+      <div
+        className="grid border-b"
+        style={{ gridTemplateColumns: `4rem repeat(${visibleDays.length}, minmax(0, 1fr))` }}
+      >
+        <div className="border-r" />
+        {visibleDays.map(day => (
+          <button
+            key={day.toISOString()}
+            type="button"
+            onClick={() => openDay(day)}
+            className={cn(
+              "border-r p-2 text-xs font-medium text-muted-foreground hover:text-foreground",
+              isToday(day) && "text-primary"
+            )}
+          >
+            {format(day, "EEE d")}
+          </button>
+        ))}
+      </div>
+      <div ref={scrollRef} className="max-h-[600px] overflow-y-auto">
+        {HOURS.map(hour => (
+          <div
+            key={hour}
+            className="grid"
+            style={{ gridTemplateColumns: `4rem repeat(${visibleDays.length}, minmax(0, 1fr))` }}
+          >
+            <div className="border-b border-r p-1 text-right text-xs text-muted-foreground" style={{ minHeight: HOUR_ROW_HEIGHT }}>
+              {format(set(cursor, { hours: hour, minutes: 0 }), "h a")}
+            </div>
+            {visibleDays.map(day => {
+              const key = `hour-${day.toISOString()}-${hour}`;
+              return (
+                <div
+                  key={key}
+                  {...getDropProps(key, file => set(day, { hours: hour, minutes: getDeliveryTime(file).getMinutes() }))}
+                  className={cn("space-y-1 border-b border-r p-1", dropTarget === key && "bg-primary/10")}
+                  style={{ minHeight: HOUR_ROW_HEIGHT }}
+                >
+                  {getFilesAt(day, hour).map(renderEvent)}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => move(-1)} aria-label="Previous">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => move(1)} aria-label="Next">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" onClick={() => setCursor(new Date())}>
+            Today
+          </Button>
+          <h2 className="ml-2 text-lg font-semibold">{getTitle()}</h2>
+        </div>
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          value={mode}
+          onValueChange={(value) => value && setMode(value as CalendarMode)}
+        >
+          <ToggleGroupItem value="month">Month</ToggleGroupItem>
+          <ToggleGroupItem value="week">Week</ToggleGroupItem>
+          <ToggleGroupItem value="day">Day</ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Drag a pending delivery to another day or time to reschedule it. Sent and failed deliveries are shown for reference.
+      </p>
+
+      {mode === "month" ? renderMonth() : renderHours()}
+    </div>
+  );
+};
+
+export default CalendarView;
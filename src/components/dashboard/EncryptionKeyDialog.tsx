@@ -0,0 +1,54 @@
+import { Copy, LockKeyhole } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+
+interface EncryptionKeyDialogProps {
+  encryptionKey: string | null;
+  onClose: () => void;
+}
+
+const EncryptionKeyDialog = ({ encryptionKey, onClose }: EncryptionKeyDialogProps) => {
+  const { toast } = useToast();
+
+  const copyKey = async () => {
+    if (!encryptionKey) return;
+    try {
+      await navigator.clipboard.writeText(encryptionKey);
+      toast({ title: "Key copied", duration: 2000 });
+    } catch (error) {
+      console.error("Error copying key:", error);
+      toast({ variant: "destructive", title: "Could not copy the key", duration: 3000 });
+    }
+  };
+
+  return (
+    <Dialog open={!!encryptionKey} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[425px] bg-background text-foreground border-border">
+        <DialogHeader>
+          <DialogTitle className="flex items-center text-foreground">
+            <LockKeyhole className="h-5 w-5 mr-2 text-primary" />
+            Share the encryption key
+          </DialogTitle>
+          <DialogDescription>
+            Recipients need this key to open the files. Send it to them separately, for example
+            in a message. It is not stored on our servers and cannot be recovered; this browser
+            keeps a copy you can find in the file's menu.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex gap-2">
+          <Input value={encryptionKey || ""} readOnly className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+          <Button variant="outline" size="icon" onClick={copyKey} aria-label="Copy key">
+            <Copy className="h-4 w-4" />
+          </Button>
+        </div>
+        <DialogFooter>
+          <Button onClick={onClose}>Done</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EncryptionKeyDialog;
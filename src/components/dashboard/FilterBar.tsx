@@ -1,9 +1,14 @@
 
 import { useState } from "react";
-import { Filter, Search } from "lucide-react";
+import { ArrowDownWideNarrow, ArrowUpNarrowWide, CalendarDays, Filter, LayoutGrid, Search } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { DropdownMenu, DropdownMenuCheckboxItem, DropdownMenuContent, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { FileSortField } from "@/services/fileService";
+
+export type DashboardView = "list" | "calendar";
 
 interface FilterBarProps {
   searchQuery: string;
@@ -11,6 +16,11 @@ interface FilterBarProps {
   statusFilter: string[];
   onStatusFilterChange: (status: string) => void;
   clearAllFilters: () => void;
+  view: DashboardView;
+  onViewChange: (view: DashboardView) => void;
+  sortBy: FileSortField;
+  sortDesc: boolean;
+  onSortChange: (sortBy: FileSortField, sortDesc: boolean) => void;
 }
 
 const FilterBar = ({
@@ -18,14 +28,19 @@ const FilterBar = ({
   setSearchQuery,
   statusFilter,
   onStatusFilterChange,
-  clearAllFilters
+  clearAllFilters,
+  view,
+  onViewChange,
+  sortBy,
+  sortDesc,
+  onSortChange
 }: FilterBarProps) => {
   return (
     <div className="flex flex-col md:flex-row gap-4 mb-6">
       <div className="relative flex-1">
         <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
         <Input
-          placeholder="Search files or recipients..."
+          placeholder="Search files, recipients or messages..."
           className="pl-10"
           value={searchQuery}
           onChange={(e) => setSearchQuery(e.target.value)}
@@ -65,6 +80,12 @@ const FilterBar = ({
           >
             Failed
           </DropdownMenuCheckboxItem>
+          <DropdownMenuCheckboxItem
+            checked={statusFilter.includes("cancelled")}
+            onCheckedChange={() => onStatusFilterChange("cancelled")}
+          >
+            Cancelled
+          </DropdownMenuCheckboxItem>
           <DropdownMenuSeparator />
           <Button 
             variant="ghost" 
@@ -75,6 +96,45 @@ const FilterBar = ({
           </Button>
         </DropdownMenuContent>
       </DropdownMenu>
+      
+      {/* The calendar is always in date order */}
+      {view === "list" && (
+        <div className="flex gap-2">
+          <Select value={sortBy} onValueChange={(value) => onSortChange(value as FileSortField, sortDesc)}>
+            <SelectTrigger className="w-[170px]" aria-label="Sort by">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="created_at">Date created</SelectItem>
+              <SelectItem value="scheduled_date">Delivery date</SelectItem>
+              <SelectItem value="file_name">Name</SelectItem>
+              <SelectItem value="file_size">Size</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => onSortChange(sortBy, !sortDesc)}
+            aria-label={sortDesc ? "Sorted descending" : "Sorted ascending"}
+          >
+            {sortDesc ? <ArrowDownWideNarrow className="h-4 w-4" /> : <ArrowUpNarrowWide className="h-4 w-4" />}
+          </Button>
+        </div>
+      )}
+      
+      <ToggleGroup
+        type="single"
+        variant="outline"
+        value={view}
+        onValueChange={(value) => value && onViewChange(value as DashboardView)}
+      >
+        <ToggleGroupItem value="list" aria-label="List view">
+          <LayoutGrid className="h-4 w-4" />
+        </ToggleGroupItem>
+        <ToggleGroupItem value="calendar" aria-label="Calendar view">
+          <CalendarDays className="h-4 w-4" />
+        </ToggleGroupItem>
+      </ToggleGroup>
     </div>
   );
 };
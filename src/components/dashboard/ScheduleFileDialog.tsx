@@ -1,43 +1,112 @@
 
+import { Pause, Play } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
 import ScheduleForm, { ScheduleFormData } from "@/components/ScheduleForm";
 import { FileItem } from "@/components/FileCard";
+import { UploadProgress } from "@/services/fileService";
 
 interface ScheduleFileDialogProps {
   isOpen: boolean;
   onOpenChange: (open: boolean) => void;
   onSubmit: (formData: ScheduleFormData) => void;
   editingFile: FileItem | null;
+  defaultTimeZone?: string;
+  defaultSenderName?: string;
+  // Set while the files of a new delivery are being uploaded
+  uploadProgress?: UploadProgress | null;
+  isUploadPaused?: boolean;
+  onPauseUpload?: () => void;
+  onResumeUpload?: () => void;
 }
 
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(0) + " KB";
+  if (bytes < 1024 * 1024 * 1024) return (bytes / (1024 * 1024)).toFixed(1) + " MB";
+  return (bytes / (1024 * 1024 * 1024)).toFixed(2) + " GB";
+};
+
 const ScheduleFileDialog = ({
   isOpen,
   onOpenChange,
   onSubmit,
-  editingFile
+  editingFile,
+  defaultTimeZone,
+  defaultSenderName,
+  uploadProgress,
+  isUploadPaused,
+  onPauseUpload,
+  onResumeUpload
 }: ScheduleFileDialogProps) => {
+  const percent = uploadProgress && uploadProgress.totalBytes > 0
+    ? Math.round((uploadProgress.uploadedBytes / uploadProgress.totalBytes) * 100)
+    : 0;
+  
   return (
     <Dialog open={isOpen} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[425px] bg-background text-foreground border-border">
+      <DialogContent className="sm:max-w-[425px] max-h-[90vh] overflow-y-auto bg-background text-foreground border-border">
         <DialogHeader>
           <DialogTitle className="text-foreground">
             {editingFile ? "Edit Scheduled File" : "Schedule New File"}
           </DialogTitle>
           <DialogDescription>
             {editingFile 
-              ? "Update the recipient and schedule for this file." 
-              : "Upload a file and set when it should be delivered."}
+              ? "Update the recipients and schedule for this file." 
+              : "Upload one or more files and set when they should be delivered."}
           </DialogDescription>
         </DialogHeader>
-        <ScheduleForm 
-          onSubmit={onSubmit}
-          editingFile={editingFile ? {
-            id: editingFile.id,
-            name: editingFile.name,
-            recipient: editingFile.recipient,
-            scheduledDate: editingFile.scheduledDate
-          } : null}
-        />
+        {uploadProgress ? (
+          <div className="space-y-3 py-4">
+            <div className="flex justify-between text-sm">
+              <span className="text-foreground">
+                {isUploadPaused ? "Upload paused" : percent === 100 ? "Saving delivery..." : "Uploading..."}
+              </span>
+              <span className="text-muted-foreground">
+                {formatBytes(uploadProgress.uploadedBytes)} of {formatBytes(uploadProgress.totalBytes)}
+              </span>
+            </div>
+            <Progress value={percent} className="h-2 w-full bg-muted" />
+            <p className="text-xs text-muted-foreground">
+              If the connection drops, the upload continues where it stopped. After a reload, choose the same files again to resume.
+            </p>
+            {percent < 100 && (
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full"
+                onClick={isUploadPaused ? onResumeUpload : onPauseUpload}
+              >
+                {isUploadPaused ? <Play className="h-4 w-4 mr-2" /> : <Pause className="h-4 w-4 mr-2" />}
+                {isUploadPaused ? "Resume" : "Pause"}
+              </Button>
+            )}
+          </div>
+        ) : (
+          <ScheduleForm 
+            onSubmit={onSubmit}
+            editingFile={editingFile ? {
+              id: editingFile.id,
+              name: editingFile.name,
+              items: editingFile.items,
+              recipients: editingFile.recipients,
+              scheduledDate: editingFile.scheduledDate,
+              recurrence: editingFile.recurrence,
+              timezone: editingFile.timezone,
+              deliverInRecipientTimezone: editingFile.deliverInRecipientTimezone,
+              senderName: editingFile.senderName,
+              emailSubject: editingFile.emailSubject,
+              personalMessage: editingFile.personalMessage,
+              linkValidDays: editingFile.linkValidDays,
+              maxDownloads: editingFile.maxDownloads,
+              passphraseProtected: editingFile.passphraseProtected,
+              retentionPolicy: editingFile.retentionPolicy,
+              retentionDays: editingFile.retentionDays
+            } : null}
+            defaultTimeZone={defaultTimeZone}
+            defaultSenderName={defaultSenderName}
+          />
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -1,9 +1,11 @@
 
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Loader2 } from "lucide-react";
+import { Loader2, Trash } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Plus } from "lucide-react";
 import FileCard, { FileItem } from "@/components/FileCard";
+import { TRASH_RETENTION_DAYS } from "@/services/fileService";
 
 interface StatusTabsProps {
   activeTab: string;
@@ -13,6 +15,22 @@ interface StatusTabsProps {
   onOpenDialog: () => void;
   onDeleteFile: (id: string) => void;
   onEditFile: (id: string) => void;
+  onSkipOccurrence: (id: string) => void;
+  onEndSeries: (id: string) => void;
+  onRetry: (id: string) => void;
+  onExtendAccess: (id: string) => void;
+  onRevokeAccess: (id: string) => void;
+  onRestoreAccess: (id: string) => void;
+  onResetDownloads: (id: string) => void;
+  onRescan: (id: string) => void;
+  onRestoreFile: (id: string) => void;
+  onDeletePermanently: (id: string) => void;
+  selectedIds: Set<string>;
+  onSelectedChange: (id: string, selected: boolean) => void;
+  onSelectAll: (ids: string[], selected: boolean) => void;
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  onLoadMore: () => void;
 }
 
 const StatusTabs = ({
@@ -22,23 +40,58 @@ const StatusTabs = ({
   filteredFiles,
   onOpenDialog,
   onDeleteFile,
-  onEditFile
+  onEditFile,
+  onSkipOccurrence,
+  onEndSeries,
+  onRetry,
+  onExtendAccess,
+  onRevokeAccess,
+  onRestoreAccess,
+  onResetDownloads,
+  onRescan,
+  onRestoreFile,
+  onDeletePermanently,
+  selectedIds,
+  onSelectedChange,
+  onSelectAll,
+  hasMore,
+  isLoadingMore,
+  onLoadMore
 }: StatusTabsProps) => {
+  const isTrash = activeTab === "trash";
+  const visibleIds = filteredFiles.map(file => file.id);
+  const allSelected = visibleIds.length > 0 && visibleIds.every(id => selectedIds.has(id));
+
   return (
     <Tabs defaultValue="all" value={activeTab} onValueChange={onTabChange}>
       <TabsList className="mb-6">
         <TabsTrigger value="all">All Files</TabsTrigger>
         <TabsTrigger value="pending">Pending</TabsTrigger>
         <TabsTrigger value="sent">Sent</TabsTrigger>
+        <TabsTrigger value="opened">Opened</TabsTrigger>
+        <TabsTrigger value="downloaded">Downloaded</TabsTrigger>
         <TabsTrigger value="failed">Failed</TabsTrigger>
+        <TabsTrigger value="trash" className="flex items-center">
+          <Trash className="h-3.5 w-3.5 mr-1" />
+          Trash
+        </TabsTrigger>
       </TabsList>
       
       <TabsContent value={activeTab} className="mt-0">
+        {isTrash && !isLoading && (
+          <p className="text-sm text-muted-foreground mb-4">
+            Files in the trash are not delivered and are deleted for good after {TRASH_RETENTION_DAYS} days.
+          </p>
+        )}
         {isLoading ? (
           <div className="flex flex-col items-center justify-center py-12">
             <Loader2 className="h-8 w-8 text-primary animate-spin mb-4" />
             <p className="text-muted-foreground">Loading your files...</p>
           </div>
+        ) : filteredFiles.length === 0 && isTrash ? (
+          <div className="text-center py-12 border border-dashed rounded-xl">
+            <p className="text-muted-foreground">The trash is empty</p>
+          </div>
         ) : filteredFiles.length === 0 ? (
           <div className="text-center py-12 border border-dashed rounded-xl">
             <p className="text-muted-foreground mb-4">No files found</p>
@@ -51,16 +104,53 @@ const StatusTabs = ({
             </Button>
           </div>
         ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {filteredFiles.map((file) => (
-              <FileCard 
-                key={file.id} 
-                file={file} 
-                onDelete={onDeleteFile}
-                onEdit={onEditFile}
-              />
-            ))}
-          </div>
+          <>
+            {!isTrash && (
+              <label className="flex items-center gap-2 text-sm text-muted-foreground mb-4 w-fit cursor-pointer">
+                <Checkbox
+                  checked={allSelected}
+                  onCheckedChange={(checked) => onSelectAll(visibleIds, checked === true)}
+                />
+                Select all {visibleIds.length} shown
+              </label>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {filteredFiles.map((file) => file.deletedAt ? (
+                // Trashed files can only be restored or deleted for good
+                <FileCard 
+                  key={file.id} 
+                  file={file} 
+                  onRestore={onRestoreFile}
+                  onDeletePermanently={onDeletePermanently}
+                />
+              ) : (
+                <FileCard 
+                  key={file.id} 
+                  file={file} 
+                  onDelete={onDeleteFile}
+                  onEdit={onEditFile}
+                  onSkipOccurrence={onSkipOccurrence}
+                  onEndSeries={onEndSeries}
+                  onRetry={onRetry}
+                  onExtendAccess={onExtendAccess}
+                  onRevokeAccess={onRevokeAccess}
+                  onRestoreAccess={onRestoreAccess}
+                  onResetDownloads={onResetDownloads}
+                  onRescan={onRescan}
+                  selected={selectedIds.has(file.id)}
+                  onSelectedChange={onSelectedChange}
+                />
+              ))}
+            </div>
+            {hasMore && (
+              <div className="flex justify-center mt-6">
+                <Button variant="outline" onClick={onLoadMore} disabled={isLoadingMore}>
+                  {isLoadingMore && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Load more
+                </Button>
+              </div>
+            )}
+          </>
         )}
       </TabsContent>
     </Tabs>
@@ -0,0 +1,32 @@
+import * as React from "react"
+import { supabase } from "@/integrations/supabase/client"
+import { useAuth } from "@/context/AuthContext"
+import { getLocalTimeZone } from "@/lib/timezone"
+
+// The signed-in user's preferred time zone, falling back to the browser's
+export function useProfileTimezone() {
+  const { user } = useAuth()
+  const [timeZone, setTimeZone] = React.useState(getLocalTimeZone)
+
+  React.useEffect(() => {
+    if (!user) return
+
+    let cancelled = false
+    supabase
+      .from("profiles")
+      .select("timezone")
+      .eq("id", user.id)
+      .maybeSingle()
+      .then(({ data }) => {
+        if (!cancelled && data?.timezone) {
+          setTimeZone(data.timezone)
+        }
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [user])
+
+  return timeZone
+}
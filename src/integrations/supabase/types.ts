@@ -9,87 +9,833 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      delivery_events: {
+        Row: {
+          created_at: string
+          delivery_recipient_id: string | null
+          email_id: string
+          event_type: string
+          id: string
+          occurred_at: string
+          payload: Json | null
+          provider_event_id: string
+          reason: string | null
+          scheduled_file_id: string
+        }
+        Insert: {
+          created_at?: string
+          delivery_recipient_id?: string | null
+          email_id: string
+          event_type: string
+          id?: string
+          occurred_at: string
+          payload?: Json | null
+          provider_event_id: string
+          reason?: string | null
+          scheduled_file_id: string
+        }
+        Update: {
+          created_at?: string
+          delivery_recipient_id?: string | null
+          email_id?: string
+          event_type?: string
+          id?: string
+          occurred_at?: string
+          payload?: Json | null
+          provider_event_id?: string
+          reason?: string | null
+          scheduled_file_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "delivery_events_delivery_recipient_id_fkey"
+            columns: ["delivery_recipient_id"]
+            isOneToOne: false
+            referencedRelation: "delivery_recipients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "delivery_events_scheduled_file_id_fkey"
+            columns: ["scheduled_file_id"]
+            isOneToOne: false
+            referencedRelation: "scheduled_files"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      delivery_passphrases: {
+        Row: {
+          failed_attempts: number
+          locked_until: string | null
+          passphrase_hash: string
+          scheduled_file_id: string
+          updated_at: string
+        }
+        Insert: {
+          failed_attempts?: number
+          locked_until?: string | null
+          passphrase_hash: string
+          scheduled_file_id: string
+          updated_at?: string
+        }
+        Update: {
+          failed_attempts?: number
+          locked_until?: string | null
+          passphrase_hash?: string
+          scheduled_file_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "delivery_passphrases_scheduled_file_id_fkey"
+            columns: ["scheduled_file_id"]
+            isOneToOne: true
+            referencedRelation: "scheduled_files"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      delivery_recipients: {
+        Row: {
+          access_token: string
+          attempts: number
+          created_at: string
+          deliver_at: string | null
+          delivery_status: string | null
+          delivery_status_at: string | null
+          email: string
+          email_id: string | null
+          error_message: string | null
+          id: string
+          last_accessed_at: string | null
+          role: string
+          scheduled_file_id: string
+          sent_at: string | null
+          status: string
+          timezone: string | null
+          updated_at: string
+        }
+        Insert: {
+          access_token?: string
+          attempts?: number
+          created_at?: string
+          deliver_at?: string | null
+          delivery_status?: string | null
+          delivery_status_at?: string | null
+          email: string
+          email_id?: string | null
+          error_message?: string | null
+          id?: string
+          last_accessed_at?: string | null
+          role?: string
+          scheduled_file_id: string
+          sent_at?: string | null
+          status?: string
+          timezone?: string | null
+          updated_at?: string
+        }
+        Update: {
+          access_token?: string
+          attempts?: number
+          created_at?: string
+          deliver_at?: string | null
+          delivery_status?: string | null
+          delivery_status_at?: string | null
+          email?: string
+          email_id?: string | null
+          error_message?: string | null
+          id?: string
+          last_accessed_at?: string | null
+          role?: string
+          scheduled_file_id?: string
+          sent_at?: string | null
+          status?: string
+          timezone?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "delivery_recipients_scheduled_file_id_fkey"
+            columns: ["scheduled_file_id"]
+            isOneToOne: false
+            referencedRelation: "scheduled_files"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_outbox: {
+        Row: {
+          created_at: string
+          eml: string
+          html: string
+          id: string
+          message_id: string
+          recipient: string
+          sender: string
+          subject: string
+        }
+        Insert: {
+          created_at?: string
+          eml: string
+          html: string
+          id?: string
+          message_id: string
+          recipient: string
+          sender: string
+          subject: string
+        }
+        Update: {
+          created_at?: string
+          eml?: string
+          html?: string
+          id?: string
+          message_id?: string
+          recipient?: string
+          sender?: string
+          subject?: string
+        }
+        Relationships: []
+      }
+      file_access_events: {
+        Row: {
+          created_at: string
+          event_type: string
+          id: string
+          ip_prefix: string | null
+          recipient_id: string | null
+          scheduled_file_id: string
+          user_agent: string | null
+        }
+        Insert: {
+          created_at?: string
+          event_type: string
+          id?: string
+          ip_prefix?: string | null
+          recipient_id?: string | null
+          scheduled_file_id: string
+          user_agent?: string | null
+        }
+        Update: {
+          created_at?: string
+          event_type?: string
+          id?: string
+          ip_prefix?: string | null
+          recipient_id?: string | null
+          scheduled_file_id?: string
+          user_agent?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "file_access_events_recipient_id_fkey"
+            columns: ["recipient_id"]
+            isOneToOne: false
+            referencedRelation: "delivery_recipients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "file_access_events_scheduled_file_id_fkey"
+            columns: ["scheduled_file_id"]
+            isOneToOne: false
+            referencedRelation: "scheduled_files"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           email: string
           full_name: string | null
           id: string
           role: string | null
+          timezone: string | null
         }
         Insert: {
           email: string
           full_name?: string | null
           id: string
           role?: string | null
+          timezone?: string | null
         }
         Update: {
           email?: string
           full_name?: string | null
           id?: string
           role?: string | null
+          timezone?: string | null
         }
         Relationships: []
       }
+      scheduled_file_items: {
+        Row: {
+          created_at: string
+          file_name: string
+          file_size: number
+          file_type: string
+          id: string
+          position: number
+          scan_attempts: number
+          scan_locked_until: string | null
+          scan_result: string | null
+          scan_status: string
+          scanned_at: string | null
+          scheduled_file_id: string
+          sha256: string | null
+          storage_path: string
+        }
+        Insert: {
+          created_at?: string
+          file_name: string
+          file_size: number
+          file_type: string
+          id?: string
+          position?: number
+          scan_attempts?: number
+          scan_locked_until?: string | null
+          scan_result?: string | null
+          scan_status?: string
+          scanned_at?: string | null
+          scheduled_file_id: string
+          sha256?: string | null
+          storage_path: string
+        }
+        Update: {
+          created_at?: string
+          file_name?: string
+          file_size?: number
+          file_type?: string
+          id?: string
+          position?: number
+          scan_attempts?: number
+          scan_locked_until?: string | null
+          scan_result?: string | null
+          scan_status?: string
+          scanned_at?: string | null
+          scheduled_file_id?: string
+          sha256?: string | null
+          storage_path?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scheduled_file_items_scheduled_file_id_fkey"
+            columns: ["scheduled_file_id"]
+            isOneToOne: false
+            referencedRelation: "scheduled_files"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       scheduled_files: {
         Row: {
           access_token: string | null
-          created_at: string | null
+          attempts: number
+          created_at: string
+          deleted_at: string | null
+          deliver_in_recipient_timezone: boolean
+          download_count: number
+          downloaded_at: string | null
           email_id: string | null
+          email_subject: string | null
+          encryption_key_check: string | null
           error_message: string | null
           file_name: string
           file_size: number
           file_type: string
           id: string
+          link_expires_at: string | null
+          link_revoked_at: string | null
+          link_valid_days: number | null
+          locked_by: string | null
+          locked_until: string | null
+          max_downloads: number | null
+          next_attempt_at: string | null
+          next_delivery_at: string | null
+          occurrence_index: number
+          opened_at: string | null
+          passphrase_protected: boolean
+          personal_message: string | null
+          purge_at: string | null
+          purged_at: string | null
           recipient_email: string
+          recurrence: Json | null
+          retention_days: number
+          retention_policy: string
           scheduled_date: string
+          search_vector: unknown | null
+          sender_name: string | null
           sent_at: string | null
+          series_id: string | null
           status: string
           storage_path: string
+          timezone: string
           updated_at: string | null
           user_id: string
         }
         Insert: {
           access_token?: string | null
-          created_at?: string | null
+          attempts?: number
+          created_at?: string
+          deleted_at?: string | null
+          deliver_in_recipient_timezone?: boolean
+          download_count?: number
+          downloaded_at?: string | null
           email_id?: string | null
+          email_subject?: string | null
+          encryption_key_check?: string | null
           error_message?: string | null
           file_name: string
           file_size: number
           file_type: string
           id?: string
+          link_expires_at?: string | null
+          link_revoked_at?: string | null
+          link_valid_days?: number | null
+          locked_by?: string | null
+          locked_until?: string | null
+          max_downloads?: number | null
+          next_attempt_at?: string | null
+          next_delivery_at?: string | null
+          occurrence_index?: number
+          opened_at?: string | null
+          passphrase_protected?: boolean
+          personal_message?: string | null
+          purge_at?: string | null
+          purged_at?: string | null
           recipient_email: string
+          recurrence?: Json | null
+          retention_days?: number
+          retention_policy?: string
           scheduled_date: string
+          search_vector?: unknown | null
+          sender_name?: string | null
           sent_at?: string | null
+          series_id?: string | null
           status?: string
           storage_path: string
+          timezone?: string
           updated_at?: string | null
           user_id: string
         }
         Update: {
           access_token?: string | null
-          created_at?: string | null
+          attempts?: number
+          created_at?: string
+          deleted_at?: string | null
+          deliver_in_recipient_timezone?: boolean
+          download_count?: number
+          downloaded_at?: string | null
           email_id?: string | null
+          email_subject?: string | null
+          encryption_key_check?: string | null
           error_message?: string | null
           file_name?: string
           file_size?: number
           file_type?: string
           id?: string
+          link_expires_at?: string | null
+          link_revoked_at?: string | null
+          link_valid_days?: number | null
+          locked_by?: string | null
+          locked_until?: string | null
+          max_downloads?: number | null
+          next_attempt_at?: string | null
+          next_delivery_at?: string | null
+          occurrence_index?: number
+          opened_at?: string | null
+          passphrase_protected?: boolean
+          personal_message?: string | null
+          purge_at?: string | null
+          purged_at?: string | null
           recipient_email?: string
+          recurrence?: Json | null
+          retention_days?: number
+          retention_policy?: string
           scheduled_date?: string
+          search_vector?: unknown | null
+          sender_name?: string | null
           sent_at?: string | null
+          series_id?: string | null
           status?: string
           storage_path?: string
+          timezone?: string
           updated_at?: string | null
           user_id?: string
         }
         Relationships: []
       }
+      storage_quotas: {
+        Row: {
+          quota_bytes: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          quota_bytes: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          quota_bytes?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      bulk_update_scheduled_files: {
+        Args: {
+          action: string
+          file_ids: string[]
+          offset_by?: unknown
+          recipient_email?: string
+        }
+        Returns: {
+          file_id: string
+          message: string
+          succeeded: boolean
+        }[]
+      }
+      check_delivery_passphrase: {
+        Args: {
+          file_id: string
+          passphrase: string
+        }
+        Returns: string
+      }
+      claim_pending_scans: {
+        Args: {
+          batch_size?: number
+          lease_seconds?: number
+        }
+        Returns: {
+          created_at: string
+          file_name: string
+          file_size: number
+          file_type: string
+          id: string
+          position: number
+          scan_attempts: number
+          scan_locked_until: string | null
+          scan_result: string | null
+          scan_status: string
+          scanned_at: string | null
+          scheduled_file_id: string
+          sha256: string | null
+          storage_path: string
+        }[]
+      }
+      claim_scheduled_files: {
+        Args: {
+          batch_size?: number
+          lease_seconds?: number
+          worker_id: string
+        }
+        Returns: {
+          access_token: string | null
+          attempts: number
+          created_at: string
+          deleted_at: string | null
+          deliver_in_recipient_timezone: boolean
+          download_count: number
+          downloaded_at: string | null
+          email_id: string | null
+          email_subject: string | null
+          encryption_key_check: string | null
+          error_message: string | null
+          file_name: string
+          file_size: number
+          file_type: string
+          id: string
+          link_expires_at: string | null
+          link_revoked_at: string | null
+          link_valid_days: number | null
+          locked_by: string | null
+          locked_until: string | null
+          max_downloads: number | null
+          next_attempt_at: string | null
+          next_delivery_at: string | null
+          occurrence_index: number
+          opened_at: string | null
+          passphrase_protected: boolean
+          personal_message: string | null
+          purge_at: string | null
+          purged_at: string | null
+          recipient_email: string
+          recurrence: Json | null
+          retention_days: number
+          retention_policy: string
+          scheduled_date: string
+          search_vector: unknown | null
+          sender_name: string | null
+          sent_at: string | null
+          series_id: string | null
+          status: string
+          storage_path: string
+          timezone: string
+          updated_at: string | null
+          user_id: string
+        }[]
+      }
+      delete_trashed_scheduled_file: {
+        Args: {
+          file_id: string
+          trashed_before: string
+        }
+        Returns: string[]
+      }
+      file_access_state: {
+        Args: {
+          f: Database["public"]["Tables"]["scheduled_files"]["Row"]
+        }
+        Returns: string
+      }
+      get_file_access_by_token: {
+        Args: {
+          token: string
+        }
+        Returns: {
+          downloads_remaining: number | null
+          link_expires_at: string | null
+          passphrase_required: boolean
+          state: string
+        }[]
+      }
+      get_largest_stored_files: {
+        Args: {
+          max_count?: number
+        }
+        Returns: {
+          delivery_count: number
+          file_name: string
+          file_size: number
+          scheduled_date: string
+          scheduled_file_id: string
+          storage_path: string
+        }[]
+      }
+      get_recipient_file_by_token: {
+        Args: {
+          token: string
+        }
+        Returns: {
+          file_name: string
+          file_type: string
+          id: string
+          status: string
+          storage_path: string
+        }[]
+      }
+      get_scheduled_file_by_token: {
+        Args: {
+          token: string
+        }
+        Returns: {
+          access_token: string | null
+          attempts: number
+          created_at: string
+          deleted_at: string | null
+          deliver_in_recipient_timezone: boolean
+          download_count: number
+          downloaded_at: string | null
+          email_id: string | null
+          email_subject: string | null
+          encryption_key_check: string | null
+          error_message: string | null
+          file_name: string
+          file_size: number
+          file_type: string
+          id: string
+          link_expires_at: string | null
+          link_revoked_at: string | null
+          link_valid_days: number | null
+          locked_by: string | null
+          locked_until: string | null
+          max_downloads: number | null
+          next_attempt_at: string | null
+          next_delivery_at: string | null
+          occurrence_index: number
+          opened_at: string | null
+          passphrase_protected: boolean
+          personal_message: string | null
+          purge_at: string | null
+          purged_at: string | null
+          recipient_email: string
+          recurrence: Json | null
+          retention_days: number
+          retention_policy: string
+          scheduled_date: string
+          search_vector: unknown | null
+          sender_name: string | null
+          sent_at: string | null
+          series_id: string | null
+          status: string
+          storage_path: string
+          timezone: string
+          updated_at: string | null
+          user_id: string
+        }[]
+      }
+      get_scheduled_file_items_by_token: {
+        Args: {
+          passphrase?: string
+          token: string
+        }
+        Returns: {
+          created_at: string
+          file_name: string
+          file_size: number
+          file_type: string
+          id: string
+          position: number
+          scan_attempts: number
+          scan_locked_until: string | null
+          scan_result: string | null
+          scan_status: string
+          scanned_at: string | null
+          scheduled_file_id: string
+          sha256: string | null
+          storage_path: string
+        }[]
+      }
+      get_storage_usage: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          capsule_count: number
+          file_count: number
+          quota_bytes: number
+          used_bytes: number
+        }[]
+      }
+      get_stored_file_size: {
+        Args: {
+          path: string
+        }
+        Returns: number
+      }
+      get_unshared_storage_paths: {
+        Args: {
+          file_id: string
+        }
+        Returns: string[]
+      }
+      record_delivery_event: {
+        Args: {
+          body?: Json
+          detail: string
+          event_id: string
+          kind: string
+          message_id: string
+          occurred: string
+        }
+        Returns: string
+      }
+      register_file_download: {
+        Args: {
+          passphrase?: string
+          token: string
+        }
+        Returns: string
+      }
+      release_expired_scheduled_file_leases: {
+        Args: {
+          max_attempts?: number
+        }
+        Returns: number
+      }
+      rescan_scheduled_file: {
+        Args: {
+          file_id: string
+        }
+        Returns: number
+      }
+      search_scheduled_files: {
+        Args: {
+          after_id?: string
+          after_value?: string
+          page_size?: number
+          scheduled_from?: string
+          scheduled_to?: string
+          search?: string
+          sort_by?: string
+          sort_desc?: boolean
+          statuses?: string[]
+          tab?: string
+        }
+        Returns: {
+          access_token: string | null
+          attempts: number
+          created_at: string
+          deleted_at: string | null
+          deliver_in_recipient_timezone: boolean
+          download_count: number
+          downloaded_at: string | null
+          email_id: string | null
+          email_subject: string | null
+          encryption_key_check: string | null
+          error_message: string | null
+          file_name: string
+          file_size: number
+          file_type: string
+          id: string
+          link_expires_at: string | null
+          link_revoked_at: string | null
+          link_valid_days: number | null
+          locked_by: string | null
+          locked_until: string | null
+          max_downloads: number | null
+          next_attempt_at: string | null
+          next_delivery_at: string | null
+          occurrence_index: number
+          opened_at: string | null
+          passphrase_protected: boolean
+          personal_message: string | null
+          purge_at: string | null
+          purged_at: string | null
+          recipient_email: string
+          recurrence: Json | null
+          retention_days: number
+          retention_policy: string
+          scheduled_date: string
+          search_vector: unknown | null
+          sender_name: string | null
+          sent_at: string | null
+          series_id: string | null
+          status: string
+          storage_path: string
+          timezone: string
+          updated_at: string | null
+          user_id: string
+        }[]
+      }
+      set_delivery_passphrase: {
+        Args: {
+          file_id: string
+          passphrase: string
+        }
+        Returns: undefined
+      }
+      storage_quota_bytes: {
+        Args: {
+          owner: string
+        }
+        Returns: number
+      }
+      storage_used_bytes: {
+        Args: {
+          owner: string
+        }
+        Returns: number
+      }
+      verify_delivery_passphrase: {
+        Args: {
+          passphrase: string
+          token: string
+        }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { getFileChecksum, shortenChecksum } from "@/lib/checksum";
+
+const toHex = (buffer: ArrayBuffer) => {
+  return Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, "0")).join("");
+};
+
+// Above the limit for hashing the whole file with Web Crypto
+const LARGE_FILE_SIZE = 64 * 1024 * 1024;
+
+const patternBytes = (length: number) => {
+  const bytes = new Uint8Array(length);
+  for (let i = 0; i < length; i++) {
+    bytes[i] = (i * 31 + (i >>> 11)) & 0xff;
+  }
+  return bytes;
+};
+
+describe("getFileChecksum", () => {
+  // FIPS 180-4 examples
+  it.each([
+    ["", "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855"],
+    ["abc", "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"],
+    [
+      "abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq",
+      "248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1"
+    ],
+    ["a".repeat(1000000), "cdc76e5c9914fb9281a1c7e284d73e67f1809a48a497200e046d39ccc7112cd0"],
+  ])("hashes %#", async (text, expected) => {
+    expect(await getFileChecksum(new Blob([text]))).toBe(expected);
+  });
+
+  // One byte past a block boundary, and a length whose padding needs a block
+  // of its own
+  it.each([1, 60])("hashes large files in slices (+%i bytes)", async (extra) => {
+    const bytes = patternBytes(LARGE_FILE_SIZE + extra);
+    const expected = toHex(await crypto.subtle.digest("SHA-256", bytes));
+    const progress: number[] = [];
+
+    const checksum = await getFileChecksum(new Blob([bytes]), hashed => progress.push(hashed));
+
+    expect(checksum).toBe(expected);
+    expect(progress[progress.length - 1]).toBe(bytes.length);
+  }, 60000);
+});
+
+describe("shortenChecksum", () => {
+  it("keeps both ends", () => {
+    expect(shortenChecksum("ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"))
+      .toBe("ba7816bf…f20015ad");
+  });
+});
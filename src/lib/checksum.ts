@@ -0,0 +1,149 @@
+// SHA-256 checksums of files, so senders and recipients can tell that a
+// download has exactly the bytes that were uploaded.
+//
+// Web Crypto only hashes a whole buffer at once, which is not an option for
+// files of several gigabytes. Small files go through Web Crypto; bigger ones
+// are read slice by slice and hashed with the incremental version below.
+
+const WHOLE_FILE_LIMIT = 64 * 1024 * 1024;
+const SLICE_SIZE = 4 * 1024 * 1024;
+
+const ROUND_CONSTANTS = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const INITIAL_STATE = [
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+];
+
+const toHex = (bytes: Uint8Array) => {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, "0")).join("");
+};
+
+const rotateRight = (value: number, bits: number) => (value >>> bits) | (value << (32 - bits));
+
+// SHA-256 (FIPS 180-4) over data fed in any number of pieces
+const createSha256 = () => {
+  const state = new Uint32Array(INITIAL_STATE);
+  const block = new Uint8Array(64);
+  const words = new Uint32Array(64);
+  let blockLength = 0;
+  let totalLength = 0;
+
+  const compress = (data: Uint8Array, offset: number) => {
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4;
+      words[i] = (data[j] << 24) | (data[j + 1] << 16) | (data[j + 2] << 8) | data[j + 3];
+    }
+    for (let i = 16; i < 64; i++) {
+      const w15 = words[i - 15];
+      const w2 = words[i - 2];
+      const s0 = rotateRight(w15, 7) ^ rotateRight(w15, 18) ^ (w15 >>> 3);
+      const s1 = rotateRight(w2, 17) ^ rotateRight(w2, 19) ^ (w2 >>> 10);
+      words[i] = (words[i - 16] + s0 + words[i - 7] + s1) | 0;
+    }
+
+    let [a, b, c, d, e, f, g, h] = state;
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotateRight(e, 6) ^ rotateRight(e, 11) ^ rotateRight(e, 25);
+      const choice = (e & f) ^ (~e & g);
+      const t1 = (h + s1 + choice + ROUND_CONSTANTS[i] + words[i]) | 0;
+      const s0 = rotateRight(a, 2) ^ rotateRight(a, 13) ^ rotateRight(a, 22);
+      const majority = (a & b) ^ (a & c) ^ (b & c);
+      const t2 = (s0 + majority) | 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+
+    state[0] += a;
+    state[1] += b;
+    state[2] += c;
+    state[3] += d;
+    state[4] += e;
+    state[5] += f;
+    state[6] += g;
+    state[7] += h;
+  };
+
+  return {
+    update(data: Uint8Array) {
+      let offset = 0;
+      totalLength += data.length;
+
+      if (blockLength > 0) {
+        const taken = Math.min(64 - blockLength, data.length);
+        block.set(data.subarray(0, taken), blockLength);
+        blockLength += taken;
+        offset = taken;
+        if (blockLength < 64) return;
+        compress(block, 0);
+        blockLength = 0;
+      }
+
+      for (; offset + 64 <= data.length; offset += 64) {
+        compress(data, offset);
+      }
+
+      block.set(data.subarray(offset), 0);
+      blockLength = data.length - offset;
+    },
+    digest(): string {
+      const bitLength = totalLength * 8;
+      block[blockLength++] = 0x80;
+      if (blockLength > 56) {
+        block.fill(0, blockLength);
+        compress(block, 0);
+        blockLength = 0;
+      }
+      block.fill(0, blockLength, 56);
+      // The length goes in as a 64-bit big-endian number of bits
+      const view = new DataView(block.buffer);
+      view.setUint32(56, Math.floor(bitLength / 0x100000000));
+      view.setUint32(60, bitLength >>> 0);
+      compress(block, 0);
+
+      const output = new Uint8Array(32);
+      const outputView = new DataView(output.buffer);
+      state.forEach((word, i) => outputView.setUint32(i * 4, word));
+      return toHex(output);
+    }
+  };
+};
+
+/**
+ * Hex SHA-256 of a file or blob. Large files are read in slices, so this
+ * never holds more than a few megabytes in memory; `onProgress` is told how
+ * many bytes have been hashed.
+ */
+export const getFileChecksum = async (file: Blob, onProgress?: (hashedBytes: number) => void): Promise<string> => {
+  if (file.size <= WHOLE_FILE_LIMIT) {
+    const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer());
+    onProgress?.(file.size);
+    return toHex(new Uint8Array(digest));
+  }
+
+  const hash = createSha256();
+  for (let offset = 0; offset < file.size; offset += SLICE_SIZE) {
+    hash.update(new Uint8Array(await file.slice(offset, offset + SLICE_SIZE).arrayBuffer()));
+    onProgress?.(Math.min(offset + SLICE_SIZE, file.size));
+  }
+  return hash.digest();
+};
+
+// Short form for display, e.g. "3a7bd3e2…9f0c51e7"
+export const shortenChecksum = (checksum: string) => {
+  return `${checksum.slice(0, 8)}…${checksum.slice(-8)}`;
+};
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import {
+  createEncryptedUpload,
+  createUploadNonce,
+  decryptStream,
+  exportFileKey,
+  generateFileKey,
+  importFileKey,
+  readFileKey,
+  withFileKey
+} from "@/lib/encryption";
+
+const CHUNK_SIZE = 4 * 1024 * 1024;
+
+const randomBytes = (length: number) => {
+  const bytes = new Uint8Array(length);
+  // getRandomValues fills at most 64 KiB at a time
+  for (let offset = 0; offset < length; offset += 65536) {
+    crypto.getRandomValues(bytes.subarray(offset, offset + 65536));
+  }
+  return bytes;
+};
+
+// Reads the encrypted body in ranges of the given size, like the upload does
+const readUpload = async (file: Blob, encodedKey: string, nonce: string, rangeSize: number) => {
+  const upload = await createEncryptedUpload(file, encodedKey, nonce);
+  const parts: Blob[] = [];
+  for (let start = 0; start < upload.size; start += rangeSize) {
+    parts.push(await upload.slice(start, start + rangeSize));
+  }
+  const body = new Uint8Array(await new Blob(parts).arrayBuffer());
+  expect(body.length).toBe(upload.size);
+  return body;
+};
+
+// toEqual walks typed arrays element by element, far too slowly for megabytes
+const sameBytes = (a: Uint8Array, b: Uint8Array) => {
+  return a.length === b.length && a.every((byte, index) => byte === b[index]);
+};
+
+const decrypt = async (body: Uint8Array, encodedKey: string) => {
+  const blob = await decryptStream(new Blob([body]).stream(), await importFileKey(encodedKey), "");
+  return new Uint8Array(await blob.arrayBuffer());
+};
+
+describe("chunked encryption", () => {
+  it.each([0, 1, CHUNK_SIZE, CHUNK_SIZE + 1, 2 * CHUNK_SIZE + 12345])("round-trips %i bytes", async (size) => {
+    const encodedKey = await exportFileKey(await generateFileKey());
+    const plaintext = randomBytes(size);
+
+    // A range size that does not line up with the chunks
+    const body = await readUpload(new Blob([plaintext]), encodedKey, createUploadNonce(), 3 * 1024 * 1024 + 7);
+
+    expect(sameBytes(await decrypt(body, encodedKey), plaintext)).toBe(true);
+  }, 30000);
+
+  it("encrypts the same way for the same nonce, and differently for another", async () => {
+    const encodedKey = await exportFileKey(await generateFileKey());
+    const file = new Blob([randomBytes(1000)]);
+    const nonce = createUploadNonce();
+
+    const first = await readUpload(file, encodedKey, nonce, 100);
+    const resumed = await readUpload(file, encodedKey, nonce, 333);
+    const fresh = await readUpload(file, encodedKey, createUploadNonce(), 100);
+
+    expect(sameBytes(resumed, first)).toBe(true);
+    expect(sameBytes(fresh, first)).toBe(false);
+  });
+
+  it("rejects a file cut off after a whole chunk", async () => {
+    const encodedKey = await exportFileKey(await generateFileKey());
+    const body = await readUpload(new Blob([randomBytes(CHUNK_SIZE + 10)]), encodedKey, createUploadNonce(), CHUNK_SIZE);
+    const header = body.length - (CHUNK_SIZE + 10) - 2 * 16;
+
+    await expect(decrypt(body.slice(0, header + CHUNK_SIZE + 16), encodedKey)).rejects.toThrow();
+  }, 30000);
+
+  it("rejects the wrong key", async () => {
+    const encodedKey = await exportFileKey(await generateFileKey());
+    const otherKey = await exportFileKey(await generateFileKey());
+    const body = await readUpload(new Blob([randomBytes(100)]), encodedKey, createUploadNonce(), 1024);
+
+    await expect(decrypt(body, otherKey)).rejects.toThrow();
+  });
+
+  it("decrypts files from before chunking", async () => {
+    const encodedKey = await exportFileKey(await generateFileKey());
+    const key = await importFileKey(encodedKey, ["encrypt"]);
+    const plaintext = randomBytes(5000);
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, plaintext));
+    const body = new Uint8Array(iv.length + ciphertext.length);
+    body.set(iv);
+    body.set(ciphertext, iv.length);
+
+    expect(sameBytes(await decrypt(body, encodedKey), plaintext)).toBe(true);
+  });
+});
+
+describe("readFileKey", () => {
+  it("reads the key from a link or on its own", async () => {
+    const encodedKey = await exportFileKey(await generateFileKey());
+    const link = withFileKey("https://example.com/access/abc#old", encodedKey);
+
+    expect(link).toBe(`https://example.com/access/abc#key=${encodedKey}`);
+    expect(readFileKey(link)).toBe(encodedKey);
+    expect(readFileKey(` ${encodedKey} `)).toBe(encodedKey);
+    expect(readFileKey("https://example.com/access/abc")).toBeNull();
+    expect(readFileKey("not a key")).toBeNull();
+  });
+});
@@ -0,0 +1,313 @@
+// End-to-end encryption of uploaded files.
+//
+// Each encrypted delivery has its own AES-GCM key, generated in the sender's
+// browser. The key never reaches the server: recipients get it in the
+// fragment of their link ("#key=..."), which browsers do not send with
+// requests. The server only keeps a SHA-256 of the key so a mistyped key can
+// be caught before any download is counted.
+//
+// Files are encrypted in 4 MiB chunks so that no file has to fit in memory
+// at once. A file is stored as a header (format marker, chunk size and an
+// 8-byte nonce) followed by the chunks, each with its own 16-byte tag. The IV
+// of a chunk is the nonce followed by the chunk number, and the last chunk is
+// marked as such, so chunks cannot be reordered or cut off unnoticed. Every
+// upload gets a random nonce; it is only used again to resume that upload,
+// which has to encrypt the file exactly as before.
+//
+// Files from before chunking are a 12-byte IV followed by one ciphertext.
+
+import type { UploadBody } from "@/lib/resumable-upload";
+
+const KEY_ALGORITHM = { name: "AES-GCM", length: 256 };
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const NONCE_LENGTH = 8;
+const CHUNK_SIZE = 4 * 1024 * 1024;
+const FORMAT_MARKER = new TextEncoder().encode("TCAPENC2");
+const HEADER_LENGTH = FORMAT_MARKER.length + 4 + NONCE_LENGTH;
+const KEY_FRAGMENT_PARAM = "key";
+const REMEMBERED_KEYS_STORAGE = "timecapsule:file-keys";
+const UPLOAD_KEYS_STORAGE = "timecapsule:upload-keys";
+// As long as the storage keeps unfinished uploads
+const UPLOAD_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const fromBase64Url = (value: string) => {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+export const generateFileKey = async (): Promise<CryptoKey> => {
+  return crypto.subtle.generateKey(KEY_ALGORITHM, true, ["encrypt", "decrypt"]);
+};
+
+export const exportFileKey = async (key: CryptoKey): Promise<string> => {
+  return toBase64Url(new Uint8Array(await crypto.subtle.exportKey("raw", key)));
+};
+
+// Throws if the text is not a 256-bit key
+export const importFileKey = async (encoded: string, usages: KeyUsage[] = ["decrypt"]): Promise<CryptoKey> => {
+  const raw = fromBase64Url(encoded.trim());
+  if (raw.length !== KEY_ALGORITHM.length / 8) {
+    throw new Error("Invalid encryption key");
+  }
+  return crypto.subtle.importKey("raw", raw, KEY_ALGORITHM, false, usages);
+};
+
+// Stored with the delivery to check keys typed in by recipients
+export const getFileKeyCheck = async (encoded: string): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", fromBase64Url(encoded.trim()));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, "0")).join("");
+};
+
+const getChunkIv = (nonce: Uint8Array, index: number) => {
+  const iv = new Uint8Array(IV_LENGTH);
+  iv.set(nonce);
+  new DataView(iv.buffer).setUint32(NONCE_LENGTH, index);
+  return iv;
+};
+
+// Tells the last chunk from the others
+const getChunkAdditionalData = (isLast: boolean) => new Uint8Array([isLast ? 1 : 0]);
+
+const concatBytes = (parts: Uint8Array[], length: number) => {
+  const bytes = new Uint8Array(length);
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+};
+
+export const createUploadNonce = (): string => {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(NONCE_LENGTH)));
+};
+
+/**
+ * The encrypted form of a file, produced a range at a time as the upload asks
+ * for it. `encodedNonce` comes from createUploadNonce, or from findUploadNonce
+ * when resuming.
+ */
+export const createEncryptedUpload = async (file: Blob, encodedKey: string, encodedNonce: string): Promise<UploadBody> => {
+  const key = await importFileKey(encodedKey, ["encrypt"]);
+  const nonce = fromBase64Url(encodedNonce);
+  if (nonce.length !== NONCE_LENGTH) {
+    throw new Error("Invalid encryption nonce");
+  }
+
+  const header = new Uint8Array(HEADER_LENGTH);
+  header.set(FORMAT_MARKER);
+  new DataView(header.buffer).setUint32(FORMAT_MARKER.length, CHUNK_SIZE);
+  header.set(nonce, FORMAT_MARKER.length + 4);
+
+  // An empty file still gets one (empty) chunk to carry the last-chunk mark
+  const chunkCount = Math.max(1, Math.ceil(file.size / CHUNK_SIZE));
+  const encryptedChunkSize = CHUNK_SIZE + TAG_LENGTH;
+  const size = HEADER_LENGTH + file.size + chunkCount * TAG_LENGTH;
+
+  // Upload ranges do not line up with chunks; keep the last one for the next range
+  let cached: { index: number; data: ArrayBuffer } | null = null;
+  const encryptChunk = async (index: number) => {
+    if (cached && cached.index === index) {
+      return cached.data;
+    }
+    const plaintext = await file.slice(index * CHUNK_SIZE, (index + 1) * CHUNK_SIZE).arrayBuffer();
+    const data = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv: getChunkIv(nonce, index), additionalData: getChunkAdditionalData(index === chunkCount - 1) },
+      key,
+      plaintext
+    );
+    cached = { index, data };
+    return data;
+  };
+
+  return {
+    size,
+    async slice(start: number, end: number) {
+      end = Math.min(end, size);
+      const first = Math.max(0, Math.floor((start - HEADER_LENGTH) / encryptedChunkSize));
+      const last = Math.min(chunkCount - 1, Math.floor((end - 1 - HEADER_LENGTH) / encryptedChunkSize));
+      const parts: BlobPart[] = start < HEADER_LENGTH ? [header] : [];
+      const partsStart = start < HEADER_LENGTH ? 0 : HEADER_LENGTH + first * encryptedChunkSize;
+      for (let index = first; index <= last; index++) {
+        parts.push(await encryptChunk(index));
+      }
+
+      return new Blob(parts).slice(start - partsStart, end - partsStart);
+    }
+  };
+};
+
+// Reads a stream in pieces of the requested size; shorter only at the end
+const createByteReader = (stream: ReadableStream<Uint8Array>) => {
+  const reader = stream.getReader();
+  let buffered: Uint8Array[] = [];
+  let bufferedLength = 0;
+
+  return async (length: number): Promise<Uint8Array> => {
+    while (bufferedLength < length) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffered.push(value);
+      bufferedLength += value.length;
+    }
+
+    const bytes = concatBytes(buffered, bufferedLength);
+    const rest = bytes.subarray(Math.min(length, bytes.length));
+    buffered = rest.length > 0 ? [rest] : [];
+    bufferedLength = rest.length;
+    return bytes.subarray(0, bytes.length - rest.length);
+  };
+};
+
+const isChunkedFormat = (header: Uint8Array) => {
+  return header.length === HEADER_LENGTH && FORMAT_MARKER.every((byte, index) => header[index] === byte);
+};
+
+// Fails when the key is wrong or the data was changed. Each decrypted chunk
+// goes into its own Blob, which the browser may keep out of memory.
+export const decryptStream = async (stream: ReadableStream<Uint8Array>, key: CryptoKey, type: string): Promise<Blob> => {
+  const read = createByteReader(stream);
+  const header = await read(HEADER_LENGTH);
+  const blobType = type || "application/octet-stream";
+
+  if (!isChunkedFormat(header)) {
+    const rest = await read(Number.MAX_SAFE_INTEGER);
+    const iv = header.slice(0, IV_LENGTH);
+    const ciphertext = concatBytes([header.subarray(IV_LENGTH), rest], header.length - IV_LENGTH + rest.length);
+    return new Blob([await crypto.subtle.decrypt({ name: "AES-GCM", iv }, key, ciphertext)], { type: blobType });
+  }
+
+  const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+  const chunkSize = view.getUint32(FORMAT_MARKER.length);
+  const nonce = header.slice(FORMAT_MARKER.length + 4);
+  const parts: Blob[] = [];
+
+  // Reading one chunk ahead tells whether the current one is the last
+  let chunk = await read(chunkSize + TAG_LENGTH);
+  for (let index = 0; ; index++) {
+    const next = await read(chunkSize + TAG_LENGTH);
+    const isLast = next.length === 0;
+    const plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: getChunkIv(nonce, index), additionalData: getChunkAdditionalData(isLast) },
+      key,
+      chunk
+    );
+    parts.push(new Blob([plaintext]));
+    if (isLast) break;
+    chunk = next;
+  }
+
+  return new Blob(parts, { type: blobType });
+};
+
+export const fetchAndDecrypt = async (url: string, key: CryptoKey, type: string): Promise<Blob> => {
+  const response = await fetch(url);
+  if (!response.ok || !response.body) {
+    throw new Error(`Download failed with status ${response.status}`);
+  }
+  return decryptStream(response.body, key, type);
+};
+
+// Accepts the bare key or a whole access link with the key in its fragment
+export const readFileKey = (text: string): string | null => {
+  const hashIndex = text.indexOf("#");
+  const fragment = hashIndex >= 0 ? text.slice(hashIndex + 1) : text;
+  const fromFragment = new URLSearchParams(fragment).get(KEY_FRAGMENT_PARAM);
+  const candidate = (fromFragment ?? (hashIndex >= 0 ? "" : text)).trim();
+  return /^[A-Za-z0-9_-]{43}$/.test(candidate) ? candidate : null;
+};
+
+export const withFileKey = (accessUrl: string, encodedKey: string): string => {
+  return `${accessUrl.split("#")[0]}#${KEY_FRAGMENT_PARAM}=${encodedKey}`;
+};
+
+// The sender's browser keeps the keys of the deliveries it encrypted, by the
+// storage path of their first file (shared by every occurrence of a series)
+const readRememberedKeys = (): Record<string, string> => {
+  try {
+    return JSON.parse(localStorage.getItem(REMEMBERED_KEYS_STORAGE) || "{}");
+  } catch (error) {
+    return {};
+  }
+};
+
+export const rememberFileKey = (storagePath: string, encodedKey: string) => {
+  const keys = readRememberedKeys();
+  keys[storagePath] = encodedKey;
+  localStorage.setItem(REMEMBERED_KEYS_STORAGE, JSON.stringify(keys));
+};
+
+export const getRememberedFileKey = (storagePath: string | undefined): string | null => {
+  if (!storagePath) return null;
+  return readRememberedKeys()[storagePath] || null;
+};
+
+// Keys and nonces of encrypted uploads that have not finished, by upload
+// fingerprint, so choosing the same files again after a reload encrypts them
+// the same way
+interface UploadKeyEntry {
+  key: string;
+  nonce?: string;
+  createdAt: number;
+}
+
+const readUploadKeys = (): Record<string, UploadKeyEntry> => {
+  try {
+    return JSON.parse(localStorage.getItem(UPLOAD_KEYS_STORAGE) || "{}");
+  } catch (error) {
+    return {};
+  }
+};
+
+const writeUploadKeys = (keys: Record<string, UploadKeyEntry>) => {
+  const now = Date.now();
+  const current = Object.fromEntries(
+    Object.entries(keys).filter(([, entry]) => now - entry.createdAt < UPLOAD_KEY_TTL_MS)
+  );
+  localStorage.setItem(UPLOAD_KEYS_STORAGE, JSON.stringify(current));
+};
+
+export const rememberUploadKey = (fingerprint: string, encodedKey: string, encodedNonce: string) => {
+  writeUploadKeys({
+    ...readUploadKeys(),
+    [fingerprint]: { key: encodedKey, nonce: encodedNonce, createdAt: Date.now() }
+  });
+};
+
+export const forgetUploadKey = (fingerprint: string) => {
+  const keys = readUploadKeys();
+  delete keys[fingerprint];
+  writeUploadKeys(keys);
+};
+
+// The key an unfinished upload of any of these files was encrypted with
+export const findUploadKey = (fingerprints: string[]): string | null => {
+  const keys = readUploadKeys();
+  const now = Date.now();
+  for (const fingerprint of fingerprints) {
+    const entry = keys[fingerprint];
+    if (entry && now - entry.createdAt < UPLOAD_KEY_TTL_MS) {
+      return entry.key;
+    }
+  }
+  return null;
+};
+
+// The nonce an unfinished upload of this file was encrypted with under this key
+export const findUploadNonce = (fingerprint: string, encodedKey: string): string | null => {
+  const entry = readUploadKeys()[fingerprint];
+  if (!entry?.nonce || entry.key !== encodedKey || Date.now() - entry.createdAt >= UPLOAD_KEY_TTL_MS) {
+    return null;
+  }
+  return entry.nonce;
+};
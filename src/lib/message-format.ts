@@ -0,0 +1,3 @@
+// Message formatting is shared with send-scheduled-file so the access page
+// shows the personal note exactly as the email does.
+export * from "../../supabase/functions/_shared/message-format";
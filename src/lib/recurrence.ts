@@ -0,0 +1,3 @@
+// The recurrence rules are shared with the edge functions, which materialise
+// the next occurrence after each send.
+export * from "../../supabase/functions/_shared/recurrence";
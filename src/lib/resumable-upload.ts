@@ -0,0 +1,271 @@
+// Resumable uploads over the TUS protocol, as spoken by Supabase Storage.
+//
+// A file is sent in 6 MB chunks (the chunk size Supabase requires). After a
+// network drop the upload asks the server how far it got and continues from
+// there. Uploads with a fingerprint are remembered in localStorage, so
+// choosing the same file again after a page reload resumes it as well.
+
+export const UPLOAD_CHUNK_SIZE = 6 * 1024 * 1024;
+
+const TUS_VERSION = "1.0.0";
+const STORED_UPLOADS = "timecapsule:uploads";
+// Supabase keeps unfinished uploads for a day
+const STORED_UPLOAD_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_CONSECUTIVE_FAILURES = 8;
+const MAX_RETRY_DELAY_MS = 30 * 1000;
+
+// A Blob, or data produced a range at a time (e.g. files encrypted on the fly)
+export interface UploadBody {
+  size: number;
+  slice(start: number, end: number): Blob | Promise<Blob>;
+}
+
+export interface ResumableUploadOptions {
+  endpoint: string;
+  headers: Record<string, string>;
+  bucket: string;
+  objectName: string;
+  contentType: string;
+  // Identifies the file across page loads; left out for data that changes
+  // between attempts
+  fingerprint?: string;
+  control?: UploadControl;
+  onProgress?: (uploadedBytes: number) => void;
+}
+
+interface StoredUpload {
+  url: string;
+  objectName: string;
+  createdAt: number;
+}
+
+class UploadRequestError extends Error {
+  constructor(message: string, public status: number | null, public retryable: boolean) {
+    super(message);
+    this.name = "UploadRequestError";
+  }
+}
+
+/**
+ * Pause and resume for one or more uploads. Pausing aborts the chunk in
+ * flight; resuming picks up at the offset the server confirmed.
+ */
+export const createUploadControl = () => {
+  let paused = false;
+  let abortController = new AbortController();
+  const waiting: (() => void)[] = [];
+
+  return {
+    get paused() {
+      return paused;
+    },
+    get signal() {
+      return abortController.signal;
+    },
+    pause() {
+      if (paused) return;
+      paused = true;
+      abortController.abort();
+    },
+    resume() {
+      if (!paused) return;
+      paused = false;
+      abortController = new AbortController();
+      waiting.splice(0).forEach(resolve => resolve());
+    },
+    waitUntilResumed(): Promise<void> {
+      return paused ? new Promise(resolve => waiting.push(resolve)) : Promise.resolve();
+    }
+  };
+};
+
+export type UploadControl = ReturnType<typeof createUploadControl>;
+
+export const getUploadFingerprint = (file: File, scope: string) => {
+  return [scope, file.name, file.size, file.lastModified].join(":");
+};
+
+const readStoredUploads = (): Record<string, StoredUpload> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORED_UPLOADS) || "{}");
+  } catch (error) {
+    return {};
+  }
+};
+
+const writeStoredUploads = (uploads: Record<string, StoredUpload>) => {
+  const now = Date.now();
+  const current = Object.fromEntries(
+    Object.entries(uploads).filter(([, upload]) => now - upload.createdAt < STORED_UPLOAD_TTL_MS)
+  );
+  localStorage.setItem(STORED_UPLOADS, JSON.stringify(current));
+};
+
+const rememberUpload = (fingerprint: string, upload: StoredUpload) => {
+  writeStoredUploads({ ...readStoredUploads(), [fingerprint]: upload });
+};
+
+const forgetUpload = (fingerprint: string) => {
+  const uploads = readStoredUploads();
+  delete uploads[fingerprint];
+  writeStoredUploads(uploads);
+};
+
+const findStoredUpload = (fingerprint: string): StoredUpload | null => {
+  const upload = readStoredUploads()[fingerprint];
+  return upload && Date.now() - upload.createdAt < STORED_UPLOAD_TTL_MS ? upload : null;
+};
+
+const encodeMetadataValue = (value: string) => {
+  let binary = "";
+  for (const byte of new TextEncoder().encode(value)) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+};
+
+const requestFailed = async (response: Response, action: string) => {
+  const text = await response.text().catch(() => "");
+  // Conflicts on an offset and locks are cleared by asking for the offset again
+  const retryable = response.status >= 500 || response.status === 409 || response.status === 423;
+  return new UploadRequestError(`${action} failed (${response.status}): ${text || response.statusText}`, response.status, retryable);
+};
+
+const createUpload = async (file: UploadBody, options: ResumableUploadOptions, objectName: string) => {
+  const metadata = {
+    bucketName: options.bucket,
+    objectName,
+    contentType: options.contentType || "application/octet-stream",
+    cacheControl: "3600",
+  };
+
+  const response = await fetch(options.endpoint, {
+    method: "POST",
+    headers: {
+      ...options.headers,
+      "Tus-Resumable": TUS_VERSION,
+      "Upload-Length": String(file.size),
+      "Upload-Metadata": Object.entries(metadata)
+        .map(([key, value]) => `${key} ${encodeMetadataValue(value)}`)
+        .join(","),
+    },
+    signal: options.control?.signal,
+  });
+
+  const location = response.headers.get("Location");
+  if (!response.ok || !location) {
+    const error = await requestFailed(response, "Starting the upload");
+    // A conflict here means the object already exists, which retrying won't fix
+    error.retryable = response.status >= 500;
+    throw error;
+  }
+
+  return new URL(location, options.endpoint).toString();
+};
+
+// Null when the server no longer knows the upload
+const getUploadOffset = async (url: string, options: ResumableUploadOptions): Promise<number | null> => {
+  const response = await fetch(url, {
+    method: "HEAD",
+    headers: { ...options.headers, "Tus-Resumable": TUS_VERSION },
+    signal: options.control?.signal,
+  });
+
+  if (response.status === 404 || response.status === 410) {
+    return null;
+  }
+  if (!response.ok) {
+    throw await requestFailed(response, "Checking the upload");
+  }
+
+  return Number(response.headers.get("Upload-Offset") || 0);
+};
+
+const sendChunk = async (url: string, offset: number, chunk: Blob, options: ResumableUploadOptions) => {
+  const response = await fetch(url, {
+    method: "PATCH",
+    headers: {
+      ...options.headers,
+      "Tus-Resumable": TUS_VERSION,
+      "Upload-Offset": String(offset),
+      "Content-Type": "application/offset+octet-stream",
+    },
+    body: chunk,
+    signal: options.control?.signal,
+  });
+
+  if (!response.ok) {
+    throw await requestFailed(response, "Uploading");
+  }
+
+  return Number(response.headers.get("Upload-Offset") || offset + chunk.size);
+};
+
+// Waits out a failure: until the browser is back online, or with backoff
+const waitBeforeRetry = (failures: number) => {
+  if (typeof navigator !== "undefined" && !navigator.onLine) {
+    return new Promise<void>(resolve => window.addEventListener("online", () => resolve(), { once: true }));
+  }
+  const delay = Math.min(1000 * Math.pow(2, failures - 1), MAX_RETRY_DELAY_MS);
+  return new Promise<void>(resolve => setTimeout(resolve, delay));
+};
+
+/**
+ * Upload a file in chunks, resuming after pauses and network errors.
+ * Resolves with the object name it was stored under, which differs from
+ * `options.objectName` when an upload from an earlier page load is resumed.
+ */
+export const uploadResumable = async (file: UploadBody, options: ResumableUploadOptions): Promise<string> => {
+  const { fingerprint, control, onProgress } = options;
+  const stored = fingerprint ? findStoredUpload(fingerprint) : null;
+  let uploadUrl = stored?.url || null;
+  let objectName = stored?.objectName || options.objectName;
+  let failures = 0;
+
+  for (;;) {
+    await control?.waitUntilResumed();
+
+    try {
+      let offset = 0;
+      if (uploadUrl) {
+        const confirmed = await getUploadOffset(uploadUrl, options);
+        if (confirmed === null) {
+          // Expired or finished by another tab; start over under a new name
+          if (fingerprint) forgetUpload(fingerprint);
+          uploadUrl = null;
+          objectName = options.objectName;
+          continue;
+        }
+        offset = confirmed;
+      } else {
+        uploadUrl = await createUpload(file, options, objectName);
+        if (fingerprint) {
+          rememberUpload(fingerprint, { url: uploadUrl, objectName, createdAt: Date.now() });
+        }
+      }
+
+      onProgress?.(offset);
+      while (offset < file.size) {
+        await control?.waitUntilResumed();
+        offset = await sendChunk(uploadUrl, offset, await file.slice(offset, offset + UPLOAD_CHUNK_SIZE), options);
+        failures = 0;
+        onProgress?.(offset);
+      }
+
+      if (fingerprint) forgetUpload(fingerprint);
+      return objectName;
+    } catch (error) {
+      // Paused mid-chunk: wait for resume, then ask where the server got to
+      if (control?.paused) continue;
+
+      const retryable = error instanceof UploadRequestError ? error.retryable : error instanceof TypeError;
+      failures++;
+      if (!retryable || failures > MAX_CONSECUTIVE_FAILURES) {
+        throw error;
+      }
+
+      console.warn(`Upload interrupted (attempt ${failures}), resuming:`, error);
+      await waitBeforeRetry(failures);
+    }
+  }
+};
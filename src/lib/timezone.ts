@@ -0,0 +1,3 @@
+// Shared with the edge functions so the form and the sender agree on how wall
+// clock times map to instants, including across daylight saving changes.
+export * from "../../supabase/functions/_shared/timezone";
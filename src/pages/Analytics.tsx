@@ -0,0 +1,354 @@
+import { useEffect, useMemo, useState } from "react";
+import { DateRange } from "react-day-picker";
+import { format, formatDistanceStrict, startOfDay, subDays, subMonths } from "date-fns";
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, Cell, Pie, PieChart, XAxis, YAxis } from "recharts";
+import { CalendarIcon, Loader2 } from "lucide-react";
+import Navbar from "@/components/Navbar";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent
+} from "@/components/ui/chart";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useToast } from "@/hooks/use-toast";
+import { AnalyticsBucket, AnalyticsRange, DeliveryAnalytics, getDeliveryAnalytics } from "@/services/analyticsService";
+
+type RangePreset = "7d" | "30d" | "90d" | "12m" | "custom";
+
+const RANGE_PRESETS: { value: RangePreset; label: string }[] = [
+  { value: "7d", label: "Last 7 days" },
+  { value: "30d", label: "Last 30 days" },
+  { value: "90d", label: "Last 90 days" },
+  { value: "12m", label: "Last 12 months" },
+  { value: "custom", label: "Custom range" }
+];
+
+const getPresetRange = (preset: Exclude<RangePreset, "custom">): AnalyticsRange => {
+  const to = new Date();
+  if (preset === "12m") return { from: startOfDay(subMonths(to, 12)), to };
+  const days = { "7d": 7, "30d": 30, "90d": 90 }[preset];
+  return { from: startOfDay(subDays(to, days - 1)), to };
+};
+
+const volumeConfig = {
+  sent: { label: "Sent", color: "hsl(142 71% 45%)" },
+  failed: { label: "Failed", color: "hsl(var(--destructive))" },
+  pending: { label: "Pending", color: "hsl(45 93% 47%)" }
+} satisfies ChartConfig;
+
+const outcomeConfig = {
+  sent: { label: "Delivered", color: "hsl(142 71% 45%)" },
+  failed: { label: "Failed", color: "hsl(var(--destructive))" }
+} satisfies ChartConfig;
+
+const openDelayConfig = {
+  count: { label: "Recipients", color: "hsl(var(--primary))" }
+} satisfies ChartConfig;
+
+const recipientsConfig = {
+  deliveries: { label: "Deliveries", color: "hsl(var(--primary))" },
+  opened: { label: "Opened", color: "hsl(142 71% 45%)" }
+} satisfies ChartConfig;
+
+const storageConfig = {
+  storedBytes: { label: "Stored", color: "hsl(var(--primary))" }
+} satisfies ChartConfig;
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(0) + " KB";
+  if (bytes < 1024 * 1024 * 1024) return (bytes / (1024 * 1024)).toFixed(1) + " MB";
+  return (bytes / (1024 * 1024 * 1024)).toFixed(2) + " GB";
+};
+
+const Analytics = () => {
+  const [preset, setPreset] = useState<RangePreset>("30d");
+  const [customRange, setCustomRange] = useState<DateRange | undefined>();
+  const [bucket, setBucket] = useState<AnalyticsBucket>("day");
+  const [analytics, setAnalytics] = useState<DeliveryAnalytics | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const { toast } = useToast();
+
+  // A custom range only applies once both ends are picked
+  const range = useMemo<AnalyticsRange | null>(() => {
+    if (preset !== "custom") return getPresetRange(preset);
+    return customRange?.from && customRange?.to ? { from: customRange.from, to: customRange.to } : null;
+  }, [preset, customRange]);
+
+  useEffect(() => {
+    if (!range) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    getDeliveryAnalytics(range, bucket)
+      .then(data => {
+        if (!cancelled) setAnalytics(data);
+      })
+      .catch(error => {
+        console.error("Error loading analytics:", error);
+        if (!cancelled) {
+          toast({
+            variant: "destructive",
+            title: "Error",
+            description: "Failed to load your delivery statistics",
+            duration: 3000
+          });
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [range, bucket, toast]);
+
+  const emailCount = analytics ? analytics.sentEmails + analytics.failedEmails : 0;
+  const successRate = analytics && emailCount > 0 ? (analytics.sentEmails / emailCount) * 100 : null;
+  const outcomes = analytics
+    ? [
+        { outcome: "sent", count: analytics.sentEmails, fill: "var(--color-sent)" },
+        { outcome: "failed", count: analytics.failedEmails, fill: "var(--color-failed)" }
+      ]
+    : [];
+
+  const summary = analytics && [
+    { title: "Deliveries", value: String(analytics.deliveryCount), note: "scheduled in this period" },
+    {
+      title: "Success rate",
+      value: successRate === null ? "–" : `${successRate.toFixed(1)}%`,
+      note: `of ${emailCount} ${emailCount === 1 ? "email" : "emails"} sent`
+    },
+    {
+      title: "Median time to open",
+      value: analytics.medianTimeToOpenMs === null
+        ? "–"
+        : formatDistanceStrict(0, analytics.medianTimeToOpenMs),
+      note: "from delivery to first visit"
+    },
+    {
+      title: "Stored",
+      value: formatBytes(analytics.storage[analytics.storage.length - 1]?.storedBytes || 0),
+      note: "at the end of the period"
+    }
+  ];
+
+  return (
+    <div className="min-h-screen bg-background pb-12">
+      <Navbar />
+
+      <main className="container-custom pt-24 space-y-6">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold">Analytics</h1>
+            <p className="text-muted-foreground mt-1">How your deliveries are doing</p>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={preset} onValueChange={(value) => setPreset(value as RangePreset)}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RANGE_PRESETS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {preset === "custom" && (
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="justify-start text-left font-normal">
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {customRange?.from
+                      ? `${format(customRange.from, "MMM d, yyyy")} – ${customRange.to ? format(customRange.to, "MMM d, yyyy") : "…"}`
+                      : "Pick dates"}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0 bg-popover text-popover-foreground" align="end">
+                  <Calendar
+                    mode="range"
+                    selected={customRange}
+                    onSelect={setCustomRange}
+                    numberOfMonths={2}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+            )}
+
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              value={bucket}
+              onValueChange={(value) => value && setBucket(value as AnalyticsBucket)}
+            >
+              <ToggleGroupItem value="day">Daily</ToggleGroupItem>
+              <ToggleGroupItem value="week">Weekly</ToggleGroupItem>
+            </ToggleGroup>
+          </div>
+        </div>
+
+        {!range ? (
+          <div className="text-center py-12 border border-dashed rounded-xl">
+            <p className="text-muted-foreground">Pick the first and last day to show</p>
+          </div>
+        ) : isLoading || !analytics ? (
+          <div className="flex flex-col items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 text-primary animate-spin mb-4" />
+            <p className="text-muted-foreground">Loading your statistics...</p>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+              {summary.map(item => (
+                <Card key={item.title}>
+                  <CardHeader className="pb-2">
+                    <CardDescription>{item.title}</CardDescription>
+                    <CardTitle className="text-2xl">{item.value}</CardTitle>
+                  </CardHeader>
+                  <CardContent className="text-xs text-muted-foreground">{item.note}</CardContent>
+                </Card>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+              <Card className="lg:col-span-2">
+                <CardHeader>
+                  <CardTitle className="text-base">Deliveries per {bucket}</CardTitle>
+                  <CardDescription>By scheduled date</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={volumeConfig} className="h-[280px] w-full aspect-auto">
+                    <BarChart data={analytics.volume}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                      <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <ChartLegend content={<ChartLegendContent />} />
+                      <Bar dataKey="sent" stackId="deliveries" fill="var(--color-sent)" />
+                      <Bar dataKey="failed" stackId="deliveries" fill="var(--color-failed)" />
+                      <Bar dataKey="pending" stackId="deliveries" fill="var(--color-pending)" radius={[4, 4, 0, 0]} />
+                    </BarChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Delivered vs failed</CardTitle>
+                  <CardDescription>Emails to each recipient</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {emailCount === 0 ? (
+                    <p className="text-sm text-muted-foreground py-12 text-center">Nothing sent in this period</p>
+                  ) : (
+                    <ChartContainer config={outcomeConfig} className="h-[280px] w-full aspect-auto">
+                      <PieChart>
+                        <ChartTooltip content={<ChartTooltipContent nameKey="outcome" hideLabel />} />
+                        <Pie data={outcomes} dataKey="count" nameKey="outcome" innerRadius={60} strokeWidth={4}>
+                          {outcomes.map(item => (
+                            <Cell key={item.outcome} fill={item.fill} />
+                          ))}
+                        </Pie>
+                        <ChartLegend content={<ChartLegendContent nameKey="outcome" />} />
+                      </PieChart>
+                    </ChartContainer>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Time to open</CardTitle>
+                  <CardDescription>How soon recipients first visited their link</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={openDelayConfig} className="h-[240px] w-full aspect-auto">
+                    <BarChart data={analytics.openDelays}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                      <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="count" fill="var(--color-count)" radius={[4, 4, 0, 0]} />
+                    </BarChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Top recipients</CardTitle>
+                  <CardDescription>Who received the most deliveries</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {analytics.topRecipients.length === 0 ? (
+                    <p className="text-sm text-muted-foreground py-12 text-center">No recipients in this period</p>
+                  ) : (
+                    <ChartContainer config={recipientsConfig} className="h-[240px] w-full aspect-auto">
+                      <BarChart data={analytics.topRecipients} layout="vertical" margin={{ left: 8 }}>
+                        <CartesianGrid horizontal={false} />
+                        <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                        <YAxis
+                          type="category"
+                          dataKey="email"
+                          tickLine={false}
+                          axisLine={false}
+                          width={140}
+                          tickFormatter={(email: string) => email.length > 22 ? `${email.slice(0, 21)}…` : email}
+                        />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <ChartLegend content={<ChartLegendContent />} />
+                        <Bar dataKey="deliveries" fill="var(--color-deliveries)" radius={4} />
+                        <Bar dataKey="opened" fill="var(--color-opened)" radius={4} />
+                      </BarChart>
+                    </ChartContainer>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Storage</CardTitle>
+                <CardDescription>Files kept for your deliveries at the end of each {bucket}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={storageConfig} className="h-[240px] w-full aspect-auto">
+                  <AreaChart data={analytics.storage}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                    <YAxis tickLine={false} axisLine={false} width={72} tickFormatter={formatBytes} />
+                    <ChartTooltip
+                      content={<ChartTooltipContent formatter={(value) => formatBytes(Number(value))} />}
+                    />
+                    <Area
+                      dataKey="storedBytes"
+                      type="stepAfter"
+                      fill="var(--color-storedBytes)"
+                      fillOpacity={0.2}
+                      stroke="var(--color-storedBytes)"
+                    />
+                  </AreaChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Analytics;
@@ -1,17 +1,30 @@
-import { useState, useEffect, useCallback, useRef } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import { useSearchParams } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
 import Navbar from "@/components/Navbar";
 import { FileItem } from "@/components/FileCard";
 import { ScheduleFormData } from "@/components/ScheduleForm";
 import { useAuth } from "@/context/AuthContext";
-import { getScheduledFiles, scheduleFile, updateScheduledFile, deleteScheduledFile, triggerFileSending } from "@/services/fileService";
+import { useProfileTimezone } from "@/hooks/use-profile-timezone";
+import { UploadProgress, FILE_PAGE_SIZE, FileListCursor, FileListQuery, FileSortField, searchScheduledFiles, scheduleFile, updateScheduledFile, deleteScheduledFile, trashScheduledFile, restoreScheduledFile, triggerFileSending, skipOccurrence, endSeries, retryScheduledFile, extendFileAccess, revokeFileAccess, restoreFileAccess, resetDownloadCount, rescanScheduledFile, bulkUpdateScheduledFiles, BulkAction, BulkActionOptions } from "@/services/fileService";
 import { supabase } from "@/integrations/supabase/client";
+import { UploadControl, createUploadControl } from "@/lib/resumable-upload";
+import { fromZonedWallClock, toZonedWallClock } from "@/lib/timezone";
 
 // Import new components
 import DashboardHeader from "@/components/dashboard/DashboardHeader";
-import FilterBar from "@/components/dashboard/FilterBar";
+import FilterBar, { DashboardView } from "@/components/dashboard/FilterBar";
 import StatusTabs from "@/components/dashboard/StatusTabs";
+import CalendarView from "@/components/dashboard/CalendarView";
+import BulkActionBar from "@/components/dashboard/BulkActionBar";
 import ScheduleFileDialog from "@/components/dashboard/ScheduleFileDialog";
+import EncryptionKeyDialog from "@/components/dashboard/EncryptionKeyDialog";
+
+const TABS = ["all", "pending", "sent", "opened", "downloaded", "failed", "trash"];
+const SORT_FIELDS: FileSortField[] = ["created_at", "scheduled_date", "file_name", "file_size"];
+const SEARCH_DELAY_MS = 300;
+// The most rows one request returns; a refresh reloads up to this many
+const MAX_PAGE_SIZE = 500;
 
 // Define types for payload
 interface RealtimePayload {
@@ -31,24 +44,70 @@ interface RealtimePayload {
 
 const Dashboard = () => {
   const [files, setFiles] = useState<FileItem[]>([]);
-  const [filteredFiles, setFilteredFiles] = useState<FileItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [searchQuery, setSearchQuery] = useState("");
-  const [statusFilter, setStatusFilter] = useState<string[]>([]);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [nextCursor, setNextCursor] = useState<FileListCursor | null>(null);
+  // The filters live in the query string, so a reload or a shared link shows
+  // the same list. Other pages link here with a search, e.g. Settings.
+  const [searchParams, setSearchParams] = useSearchParams();
+  const searchQuery = searchParams.get("search") || "";
+  const statusParam = searchParams.get("status") || "";
+  const activeTab = TABS.find(tab => tab === searchParams.get("tab")) || "all";
+  const view: DashboardView = searchParams.get("view") === "calendar" ? "calendar" : "list";
+  const sortBy = SORT_FIELDS.find(field => field === searchParams.get("sort")) || "created_at";
+  const sortDesc = searchParams.get("order") !== "asc";
+  const statusFilter = useMemo(() => statusParam.split(",").filter(Boolean), [statusParam]);
+  const [debouncedSearch, setDebouncedSearch] = useState(searchQuery);
+  const [calendarRange, setCalendarRange] = useState<{ from: Date; to: Date } | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingFile, setEditingFile] = useState<FileItem | null>(null);
-  const [activeTab, setActiveTab] = useState("all");
+  // Picked for a bulk action; kept when switching tabs or loading more
+  const [selectedFiles, setSelectedFiles] = useState<Map<string, FileItem>>(() => new Map());
+  const selectedIds = useMemo(() => new Set(selectedFiles.keys()), [selectedFiles]);
   const [initialLoadComplete, setInitialLoadComplete] = useState(false);
+  // Key of a delivery just scheduled with encryption, shown once to the sender
+  const [newEncryptionKey, setNewEncryptionKey] = useState<string | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
+  const [isUploadPaused, setIsUploadPaused] = useState(false);
+  const uploadControlRef = useRef<UploadControl | null>(null);
   
   const realtimeChannelRef = useRef<any>(null);
   const refreshIntervalRef = useRef<number | null>(null);
   const fetchAttemptRef = useRef(0);
   const hasUserCheckedRef = useRef(false);
+  // Only the latest request may update the list
+  const requestIdRef = useRef(0);
+  const loadedCountRef = useRef(0);
+  const nextCursorRef = useRef<FileListCursor | null>(null);
   
   const { toast } = useToast();
   const { user } = useAuth();
+  const profileTimeZone = useProfileTimezone();
+  
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchQuery), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+  
+  // The calendar is in date order and has no tabs; it shows everything
+  // outside the trash on the days it shows, once it has said which
+  const listQuery = useMemo<FileListQuery | null>(() => {
+    if (view === "calendar") {
+      return calendarRange && {
+        search: debouncedSearch,
+        statuses: statusFilter,
+        scheduledFrom: calendarRange.from,
+        scheduledTo: calendarRange.to,
+        sortBy: "scheduled_date",
+        sortDesc: false
+      };
+    }
+    return { search: debouncedSearch, tab: activeTab, statuses: statusFilter, sortBy, sortDesc };
+  }, [view, calendarRange, debouncedSearch, statusFilter, activeTab, sortBy, sortDesc]);
+  const listQueryRef = useRef(listQuery);
+  listQueryRef.current = listQuery;
   
-  const fetchFiles = useCallback(async () => {
+  const fetchFiles = useCallback(async (append = false) => {
     if (!user) {
       if (fetchAttemptRef.current > 5) {
         console.log("No user after multiple attempts, stopping fetch attempts");
@@ -63,13 +122,39 @@ const Dashboard = () => {
     
     hasUserCheckedRef.current = true;
     
+    const query = listQueryRef.current;
+    if (!query) return;
+    const requestId = ++requestIdRef.current;
+    
     try {
-      console.log("Fetching scheduled files");
-      const data = await getScheduledFiles();
-      console.log("Fetched files:", data);
+      console.log("Fetching scheduled files", query);
+      let page;
+      if (query.scheduledFrom) {
+        // Every delivery in the calendar's range, however many pages
+        const rangeFiles: FileItem[] = [];
+        let after: FileListCursor | null = null;
+        do {
+          const rangePage = await searchScheduledFiles({ ...query, after, pageSize: MAX_PAGE_SIZE });
+          rangeFiles.push(...rangePage.files);
+          after = rangePage.nextCursor;
+        } while (after);
+        page = { files: rangeFiles, nextCursor: null };
+      } else if (append) {
+        page = await searchScheduledFiles({ ...query, after: nextCursorRef.current });
+      } else {
+        // A refresh keeps what was loaded with "Load more"
+        page = await searchScheduledFiles({
+          ...query,
+          pageSize: Math.min(MAX_PAGE_SIZE, Math.max(FILE_PAGE_SIZE, loadedCountRef.current))
+        });
+      }
       
-      setFiles(data);
-      setFilteredFiles(data);
+      if (requestId !== requestIdRef.current) return;
+      
+      loadedCountRef.current = append ? loadedCountRef.current + page.files.length : page.files.length;
+      nextCursorRef.current = page.nextCursor;
+      setFiles(prev => append ? [...prev, ...page.files] : page.files);
+      setNextCursor(page.nextCursor);
       setInitialLoadComplete(true);
     } catch (error) {
       console.error("Error fetching files:", error);
@@ -89,8 +174,11 @@ const Dashboard = () => {
     
     try {
       const now = new Date();
+      // Files still waiting for the malware scan are not sent yet either
       const pendingPastDue = files.filter(
-        file => file.status === 'pending' && new Date(file.scheduledDate) <= now
+        file => file.status === 'pending' && !file.deletedAt &&
+          (file.scanStatus === 'clean' || file.scanStatus === 'skipped') &&
+          new Date(file.nextDeliveryAt || file.scheduledDate) <= now
       );
       
       if (pendingPastDue.length > 0) {
@@ -188,10 +276,6 @@ const Dashboard = () => {
       setIsLoading(true);
     }
     
-    if (isLoading && user) {
-      fetchFiles();
-    }
-    
     return () => {
       if (realtimeChannelRef.current) {
         console.log("Removing realtime subscription");
@@ -205,7 +289,7 @@ const Dashboard = () => {
         refreshIntervalRef.current = null;
       }
     };
-  }, [user, isLoading, fetchFiles]);
+  }, [user, isLoading]);
   
   useEffect(() => {
     if (!user) return;
@@ -229,81 +313,147 @@ const Dashboard = () => {
     };
   }, [user, setupRealtimeSubscription, setupRefreshListener, checkAndTriggerPendingFiles]);
   
+  // A new search, filter, tab or sort starts again from the first page
   useEffect(() => {
-    if (initialLoadComplete) {
-      filterFiles();
-    }
-  }, [searchQuery, statusFilter, activeTab, files, initialLoadComplete]);
+    loadedCountRef.current = 0;
+    nextCursorRef.current = null;
+    fetchFiles();
+  }, [listQuery, fetchFiles]);
   
-  const filterFiles = () => {
-    let filtered = [...files];
-    
-    if (activeTab === "pending") {
-      filtered = filtered.filter(file => file.status === "pending");
-    } else if (activeTab === "sent") {
-      filtered = filtered.filter(file => file.status === "sent");
-    } else if (activeTab === "failed") {
-      filtered = filtered.filter(file => file.status === "failed");
-    }
-    
-    if (statusFilter.length > 0) {
-      filtered = filtered.filter(file => statusFilter.includes(file.status));
-    }
-    
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase();
-      filtered = filtered.filter(
-        file => 
-          file.name.toLowerCase().includes(query) || 
-          file.recipient.toLowerCase().includes(query)
-      );
+  // Keep the selection in step with the loaded rows, and drop deliveries that
+  // were moved to the trash meanwhile
+  useEffect(() => {
+    setSelectedFiles(prev => {
+      if (prev.size === 0) return prev;
+      const next = new Map(prev);
+      files.forEach(file => {
+        if (!next.has(file.id)) return;
+        if (file.deletedAt) next.delete(file.id);
+        else next.set(file.id, file);
+      });
+      return next;
+    });
+  }, [files]);
+  
+  const handleLoadMore = async () => {
+    setIsLoadingMore(true);
+    try {
+      await fetchFiles(true);
+    } finally {
+      setIsLoadingMore(false);
     }
-    
-    setFilteredFiles(filtered);
+  };
+  
+  const updateSearchParams = (changes: Record<string, string | null>) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      Object.entries(changes).forEach(([key, value]) => {
+        if (value) next.set(key, value);
+        else next.delete(key);
+      });
+      return next;
+    }, { replace: true });
+  };
+  
+  const setSearchQuery = (query: string) => {
+    updateSearchParams({ search: query || null });
   };
   
   const handleStatusFilterChange = (status: string) => {
-    setStatusFilter(prev => {
-      if (prev.includes(status)) {
-        return prev.filter(s => s !== status);
-      } else {
-        return [...prev, status];
-      }
-    });
+    const next = statusFilter.includes(status)
+      ? statusFilter.filter(s => s !== status)
+      : [...statusFilter, status];
+    updateSearchParams({ status: next.join(",") || null });
   };
   
   const clearAllFilters = () => {
-    setSearchQuery("");
-    setStatusFilter([]);
+    updateSearchParams({ search: null, status: null });
+  };
+  
+  // Defaults are left out of the URL
+  const handleViewChange = (value: DashboardView) => {
+    updateSearchParams({ view: value === "list" ? null : value });
   };
+  
+  const handleSortChange = (field: FileSortField, desc: boolean) => {
+    updateSearchParams({ sort: field === "created_at" ? null : field, order: desc ? null : "asc" });
+  };
+  
+  const handleCalendarRangeChange = useCallback((from: Date, to: Date) => {
+    setCalendarRange({ from, to });
+  }, []);
 
   const handleNewSchedule = async (formData: ScheduleFormData) => {
-    if (!formData.file) return;
+    if (!formData.files?.length) return;
+    
+    const uploadControl = createUploadControl();
+    uploadControlRef.current = uploadControl;
+    setIsUploadPaused(false);
+    setUploadProgress({ uploadedBytes: 0, totalBytes: formData.files.reduce((total, file) => total + file.size, 0) });
     
     try {
-      await scheduleFile({
-        file: formData.file,
-        recipient: formData.recipient,
-        scheduledDate: formData.scheduledDate
+      const encryptionKey = await scheduleFile({
+        files: formData.files,
+        recipients: formData.recipients,
+        scheduledDate: formData.scheduledDate,
+        recurrence: formData.recurrence,
+        timeZone: formData.timeZone,
+        deliverInRecipientTimezone: formData.deliverInRecipientTimezone,
+        senderName: formData.senderName,
+        emailSubject: formData.emailSubject,
+        personalMessage: formData.personalMessage,
+        linkValidDays: formData.linkValidDays,
+        maxDownloads: formData.maxDownloads,
+        passphrase: formData.passphrase,
+        retentionPolicy: formData.retentionPolicy,
+        retentionDays: formData.retentionDays,
+        encrypt: formData.encrypt,
+        uploadControl,
+        onUploadProgress: setUploadProgress
       });
       
       setIsDialogOpen(false);
+      setNewEncryptionKey(encryptionKey);
       setTimeout(() => {
         fetchFiles();
       }, 1000);
     } catch (error) {
       console.error("Error scheduling file:", error);
+    } finally {
+      uploadControlRef.current = null;
+      setUploadProgress(null);
     }
   };
   
+  const handlePauseUpload = () => {
+    uploadControlRef.current?.pause();
+    setIsUploadPaused(true);
+  };
+  
+  const handleResumeUpload = () => {
+    uploadControlRef.current?.resume();
+    setIsUploadPaused(false);
+  };
+  
   const handleEditSchedule = async (formData: ScheduleFormData) => {
     if (!formData.id) return;
     
     try {
       await updateScheduledFile({
         id: formData.id,
-        recipient: formData.recipient,
-        scheduledDate: formData.scheduledDate
+        recipients: formData.recipients,
+        scheduledDate: formData.scheduledDate,
+        recurrence: formData.recurrence,
+        timeZone: formData.timeZone,
+        deliverInRecipientTimezone: formData.deliverInRecipientTimezone,
+        senderName: formData.senderName,
+        emailSubject: formData.emailSubject,
+        personalMessage: formData.personalMessage,
+        linkValidDays: formData.linkValidDays,
+        maxDownloads: formData.maxDownloads,
+        passphrase: formData.passphrase,
+        retentionPolicy: formData.retentionPolicy,
+        retentionDays: formData.retentionDays
       });
       
       setEditingFile(null);
@@ -316,15 +466,199 @@ const Dashboard = () => {
     }
   };
   
+  // Dropped on a new slot in the calendar
+  const handleReschedule = async (id: string, scheduledDate: Date) => {
+    const file = files.find(item => item.id === id);
+    if (!file || file.status !== 'pending') return;
+    
+    // Recipients in their own time zone keep the same wall clock time
+    const wallClock = toZonedWallClock(scheduledDate, file.timezone);
+    const recipients = file.recipients.map(recipient => ({
+      ...recipient,
+      deliverAt: file.deliverInRecipientTimezone && recipient.timezone
+        ? fromZonedWallClock(wallClock, recipient.timezone)
+        : null
+    }));
+    
+    const now = new Date();
+    const lateRecipient = recipients.find(recipient => recipient.deliverAt && recipient.deliverAt < now);
+    if (lateRecipient || (!file.deliverInRecipientTimezone && scheduledDate < now)) {
+      toast({
+        variant: "destructive",
+        title: "Cannot reschedule",
+        description: lateRecipient
+          ? `That time has already passed in ${lateRecipient.timezone} (${lateRecipient.email})`
+          : "Please pick a time in the future",
+        duration: 3000
+      });
+      return;
+    }
+    
+    // Move it right away; the refetch puts it back if the update fails.
+    // Its recipients move along, so its next delivery shifts the same way.
+    const shift = scheduledDate.getTime() - file.scheduledDate.getTime();
+    const nextDeliveryAt = file.nextDeliveryAt ? new Date(file.nextDeliveryAt.getTime() + shift) : undefined;
+    setFiles(prev => prev.map(item => item.id === id ? { ...item, scheduledDate, nextDeliveryAt } : item));
+    
+    try {
+      await updateScheduledFile({ id, recipients, scheduledDate });
+    } catch (error) {
+      console.error("Error rescheduling file:", error);
+    } finally {
+      fetchFiles();
+    }
+  };
+  
   const handleDeleteFile = async (id: string) => {
+    try {
+      await trashScheduledFile(id);
+      // Trashed files only show in the trash tab
+      setFiles(prev => prev.filter(file => file.id !== id));
+    } catch (error) {
+      console.error("Error moving file to trash:", error);
+    }
+  };
+  
+  const handleRestoreFile = async (id: string) => {
+    try {
+      await restoreScheduledFile(id);
+      setFiles(prev => prev.filter(file => file.id !== id));
+    } catch (error) {
+      console.error("Error restoring file:", error);
+    }
+  };
+  
+  const handleDeletePermanently = async (id: string) => {
     try {
       await deleteScheduledFile(id);
       setFiles(prev => prev.filter(file => file.id !== id));
+      handleSelectedChange(id, false);
     } catch (error) {
       console.error("Error deleting file:", error);
     }
   };
   
+  const handleSkipOccurrence = async (id: string) => {
+    try {
+      await skipOccurrence(id);
+      fetchFiles();
+    } catch (error) {
+      console.error("Error skipping occurrence:", error);
+    }
+  };
+  
+  const handleEndSeries = async (id: string) => {
+    try {
+      await endSeries(id);
+      fetchFiles();
+    } catch (error) {
+      console.error("Error ending series:", error);
+    }
+  };
+  
+  const handleRetry = async (id: string) => {
+    try {
+      await retryScheduledFile(id);
+      // Send right away instead of waiting for the next scheduler run
+      await triggerFileSending();
+      fetchFiles();
+    } catch (error) {
+      console.error("Error retrying delivery:", error);
+    }
+  };
+  
+  const handleExtendAccess = async (id: string) => {
+    try {
+      await extendFileAccess(id);
+      fetchFiles();
+    } catch (error) {
+      console.error("Error extending file access:", error);
+    }
+  };
+  
+  const handleRevokeAccess = async (id: string) => {
+    try {
+      await revokeFileAccess(id);
+      fetchFiles();
+    } catch (error) {
+      console.error("Error revoking file access:", error);
+    }
+  };
+  
+  const handleRestoreAccess = async (id: string) => {
+    try {
+      await restoreFileAccess(id);
+      fetchFiles();
+    } catch (error) {
+      console.error("Error restoring file access:", error);
+    }
+  };
+  
+  const handleResetDownloads = async (id: string) => {
+    try {
+      await resetDownloadCount(id);
+      fetchFiles();
+    } catch (error) {
+      console.error("Error resetting download count:", error);
+    }
+  };
+  
+  const handleRescan = async (id: string) => {
+    try {
+      await rescanScheduledFile(id);
+      fetchFiles();
+    } catch (error) {
+      console.error("Error queueing malware scan:", error);
+    }
+  };
+  
+  const handleSelectAll = (ids: string[], selected: boolean) => {
+    setSelectedFiles(prev => {
+      const next = new Map(prev);
+      ids.forEach(id => {
+        const file = files.find(item => item.id === id);
+        if (selected && file) next.set(id, file);
+        else next.delete(id);
+      });
+      return next;
+    });
+  };
+  
+  const handleSelectedChange = (id: string, selected: boolean) => {
+    handleSelectAll([id], selected);
+  };
+  
+  const handleBulkAction = async (action: BulkAction, options?: BulkActionOptions) => {
+    const results = await bulkUpdateScheduledFiles(Array.from(selectedFiles.keys()), action, options);
+    const updated = results.filter(result => result.succeeded).length;
+    const failed = results.length - updated;
+    
+    toast({
+      variant: updated === 0 ? "destructive" : "default",
+      title: updated === 0 ? "Nothing updated" : `Updated ${updated} ${updated === 1 ? "delivery" : "deliveries"}`,
+      description: failed > 0 ? `${failed} could not be updated` : undefined,
+      duration: 3000
+    });
+    
+    // The ones that did not go through stay selected
+    setSelectedFiles(prev => new Map(
+      results
+        .filter(result => !result.succeeded && prev.has(result.fileId))
+        .map(result => [result.fileId, prev.get(result.fileId)])
+    ));
+    
+    if (action === "retry" && updated > 0) {
+      try {
+        await triggerFileSending();
+      } catch (error) {
+        console.error("Error triggering file sending:", error);
+      }
+    }
+    fetchFiles();
+    
+    return results;
+  };
+  
   const handleEditFile = (id: string) => {
     const fileToEdit = files.find(file => file.id === id);
     if (fileToEdit) {
@@ -334,7 +668,7 @@ const Dashboard = () => {
   };
   
   const handleTabChange = (value: string) => {
-    setActiveTab(value);
+    updateSearchParams({ tab: value === "all" ? null : value });
   };
 
   const handleManualTrigger = async () => {
@@ -360,7 +694,8 @@ const Dashboard = () => {
     <div className="min-h-screen bg-background pb-12">
       <Navbar />
       
-      <main className="container-custom pt-24">
+      {/* Room for the bulk action bar below the last cards */}
+      <main className={`container-custom pt-24 ${view === "list" && selectedIds.size > 0 ? "pb-20" : ""}`}>
         <DashboardHeader 
           onNewSchedule={openNewScheduleDialog} 
           onManualTrigger={handleManualTrigger}
@@ -373,24 +708,73 @@ const Dashboard = () => {
           statusFilter={statusFilter}
           onStatusFilterChange={handleStatusFilterChange}
           clearAllFilters={clearAllFilters}
+          view={view}
+          onViewChange={handleViewChange}
+          sortBy={sortBy}
+          sortDesc={sortDesc}
+          onSortChange={handleSortChange}
         />
         
-        <StatusTabs 
-          activeTab={activeTab}
-          onTabChange={handleTabChange}
-          isLoading={isLoading}
-          filteredFiles={filteredFiles}
-          onOpenDialog={openNewScheduleDialog}
-          onDeleteFile={handleDeleteFile}
-          onEditFile={handleEditFile}
-        />
+        {view === "calendar" ? (
+          <CalendarView 
+            files={files}
+            onReschedule={handleReschedule}
+            onEditFile={handleEditFile}
+            onRangeChange={handleCalendarRangeChange}
+          />
+        ) : (
+          <StatusTabs 
+            activeTab={activeTab}
+            onTabChange={handleTabChange}
+            isLoading={isLoading}
+            filteredFiles={files}
+            onOpenDialog={openNewScheduleDialog}
+            onDeleteFile={handleDeleteFile}
+            onEditFile={handleEditFile}
+            onSkipOccurrence={handleSkipOccurrence}
+            onEndSeries={handleEndSeries}
+            onRetry={handleRetry}
+            onExtendAccess={handleExtendAccess}
+            onRevokeAccess={handleRevokeAccess}
+            onRestoreAccess={handleRestoreAccess}
+            onResetDownloads={handleResetDownloads}
+            onRescan={handleRescan}
+            onRestoreFile={handleRestoreFile}
+            onDeletePermanently={handleDeletePermanently}
+            selectedIds={selectedIds}
+            onSelectedChange={handleSelectedChange}
+            onSelectAll={handleSelectAll}
+            hasMore={!!nextCursor}
+            isLoadingMore={isLoadingMore}
+            onLoadMore={handleLoadMore}
+          />
+        )}
       </main>
       
+      {view === "list" && (
+        <BulkActionBar 
+          selectedFiles={Array.from(selectedFiles.values())}
+          onClear={() => setSelectedFiles(new Map())}
+          onAction={handleBulkAction}
+        />
+      )}
+      
       <ScheduleFileDialog 
         isOpen={isDialogOpen}
         onOpenChange={setIsDialogOpen}
         onSubmit={editingFile ? handleEditSchedule : handleNewSchedule}
         editingFile={editingFile}
+        defaultTimeZone={profileTimeZone}
+        defaultSenderName={user?.user_metadata?.full_name || ""}
+        uploadProgress={uploadProgress}
+        isUploadPaused={isUploadPaused}
+        onPauseUpload={handlePauseUpload}
+        onResumeUpload={handleResumeUpload}
+      />
+      
+      <EncryptionKeyDialog 
+        encryptionKey={newEncryptionKey}
+        onClose={() => setNewEncryptionKey(null)}
       />
     </div>
   );
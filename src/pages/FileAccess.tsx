@@ -1,22 +1,53 @@
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useParams, Link } from "react-router-dom";
-import { File, Download, ArrowLeft, Loader2, Shield, ExternalLink } from "lucide-react";
+import { File, Download, ArrowLeft, Loader2, Shield, ExternalLink, FileArchive, MessageSquare, Ban, Clock, KeyRound, Hourglass, LockKeyhole, ShieldCheck, ShieldAlert, Copy } from "lucide-react";
+import { format } from "date-fns";
 import { Button } from "@/components/ui/button";
-import { getFileByToken, initializeSocket } from "@/services/fileService";
+import { Input } from "@/components/ui/input";
+import {
+  AccessibleFile,
+  FileAccessDetails,
+  FileAccessState,
+  MAX_BUNDLE_BYTES,
+  getBundleDownloadUrl,
+  getDownloadUrl,
+  getFileByToken,
+  initializeSocket
+} from "@/services/fileService";
 import { useTheme } from "next-themes";
 import { toast } from "sonner";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { renderMessageHtml } from "@/lib/message-format";
+import Countdown from "@/components/Countdown";
+import { fetchAndDecrypt, getFileKeyCheck, importFileKey, readFileKey } from "@/lib/encryption";
+import { getFileChecksum, shortenChecksum } from "@/lib/checksum";
+
+// Downloads up to this size are fetched and checked in the browser; bigger
+// ones go straight to disk and can be checked by hand against the checksum
+const MAX_VERIFIED_DOWNLOAD_BYTES = 512 * 1024 * 1024;
+
+type Verification = "verifying" | "verified" | "mismatch";
 
 const FileAccess = () => {
   const { token } = useParams<{ token: string }>();
   const [loading, setLoading] = useState(true);
-  const [fileData, setFileData] = useState<{
-    fileName: string;
-    fileType: string;
-    fileUrl: string;
-  } | null>(null);
+  const [fileData, setFileData] = useState<FileAccessDetails | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [isZipping, setIsZipping] = useState(false);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  // Last issued download URL, offered as a direct link on mobile
+  const [issuedUrl, setIssuedUrl] = useState<string | null>(null);
+  // Kept once accepted; every download is checked against it again
+  const [passphrase, setPassphrase] = useState<string | undefined>(undefined);
+  const [passphraseInput, setPassphraseInput] = useState("");
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  // Key of an end-to-end encrypted delivery, from the link fragment or typed in
+  const [fileKey, setFileKey] = useState<CryptoKey | null>(null);
+  const [keyInput, setKeyInput] = useState("");
+  const [keyError, setKeyError] = useState<string | null>(null);
+  const [decryptedPreviewUrl, setDecryptedPreviewUrl] = useState<string | null>(null);
+  const [verification, setVerification] = useState<Record<string, Verification>>({});
   const { theme } = useTheme();
   const isMobile = useIsMobile();
 
@@ -53,11 +84,6 @@ const FileAccess = () => {
         } else {
           console.log("File data retrieved:", data);
           setFileData(data);
-          // Verify the URL is valid
-          if (!data.fileUrl || !data.fileUrl.startsWith('http')) {
-            console.error("Invalid file URL:", data.fileUrl);
-            setError("Invalid file access URL. Please contact support.");
-          }
         }
       } catch (err: any) {
         console.error("Error fetching file:", err);
@@ -70,14 +96,74 @@ const FileAccess = () => {
     fetchFile();
   }, [token]);
 
+  // Check the key against the delivery before using it, so a wrong key is
+  // reported before any download is counted
+  const applyFileKey = useCallback(async (encodedKey: string | null) => {
+    if (!fileData?.encryptionKeyCheck) return false;
+    
+    if (!encodedKey || await getFileKeyCheck(encodedKey) !== fileData.encryptionKeyCheck) {
+      setKeyError("This key does not open these files.");
+      return false;
+    }
+    
+    setFileKey(await importFileKey(encodedKey));
+    setKeyError(null);
+    return true;
+  }, [fileData?.encryptionKeyCheck]);
+
+  useEffect(() => {
+    if (!fileData?.encryptionKeyCheck || fileKey) return;
+    
+    const fromLink = readFileKey(window.location.hash);
+    if (fromLink) {
+      applyFileKey(fromLink);
+    }
+  }, [fileData?.encryptionKeyCheck, fileKey, applyFileKey]);
+
+  const encryptedPreviewUrl = fileData?.encryptionKeyCheck ? fileData.previewUrl : null;
+  const encryptedPreviewType = fileData?.fileType || "";
+
+  // Encrypted previews are decrypted here and shown from a local object URL
+  useEffect(() => {
+    if (!fileKey || !encryptedPreviewUrl) return;
+    
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    fetchAndDecrypt(encryptedPreviewUrl, fileKey, encryptedPreviewType)
+      .then(blob => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setDecryptedPreviewUrl(objectUrl);
+      })
+      .catch(err => console.error("Error decrypting preview:", err));
+      
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [fileKey, encryptedPreviewUrl, encryptedPreviewType]);
+
+  const handleKeySubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const encodedKey = readFileKey(keyInput);
+    if (!encodedKey) {
+      setKeyError("Paste the key or the whole link the sender gave you.");
+      return;
+    }
+    if (await applyFileKey(encodedKey)) {
+      setKeyInput("");
+    }
+  };
+
   const getFileIcon = () => {
     if (!fileData) return null;
     
-    if (fileData.fileType.includes("image")) {
+    const previewSrc = fileData.encryptionKeyCheck ? decryptedPreviewUrl : fileData.previewUrl;
+    if (fileData.fileType.includes("image") && previewSrc) {
       return (
         <div className="w-full max-w-md rounded-lg overflow-hidden shadow-lg mb-6">
           <img 
-            src={fileData.fileUrl} 
+            src={previewSrc} 
             alt={fileData.fileName} 
             className="w-full h-auto"
             onError={() => toast.error("Error loading image preview")}
@@ -93,13 +179,17 @@ const FileAccess = () => {
     );
   };
 
-  const handleDownload = () => {
-    if (!fileData) return;
-    
+  const formatFileSize = (bytes: number) => {
+    if (bytes < 1024) return bytes + ' B';
+    if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
+    return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+  };
+
+  const handleDownload = (url: string, fileName: string) => {
     // Create an invisible anchor element for more reliable downloads
     const link = document.createElement('a');
-    link.href = fileData.fileUrl;
-    link.download = fileData.fileName; // Set the filename for the download
+    link.href = url;
+    link.download = fileName; // Set the filename for the download
     link.target = "_blank"; // Open in new tab as fallback
     link.rel = "noopener noreferrer";
     document.body.appendChild(link);
@@ -110,7 +200,7 @@ const FileAccess = () => {
     } catch (err) {
       console.error("Error starting download:", err);
       // Fallback for devices that don't support the download attribute
-      window.open(fileData.fileUrl, '_blank');
+      window.open(url, '_blank');
       toast.success("File opened in new tab");
     } finally {
       // Clean up
@@ -118,6 +208,252 @@ const FileAccess = () => {
     }
   };
 
+  // The link may have run out since the page loaded; show its current state
+  const showAccessState = (accessState: FileAccessState) => {
+    setFileData(prev => prev && { ...prev, accessState });
+  };
+
+  // The countdown reached zero: ask the server whether the delivery is open now
+  const handleCountdownComplete = useCallback(async () => {
+    if (!token) return;
+    
+    try {
+      const latest = await getFileByToken(token, passphrase);
+      if (!latest) {
+        setError("File not found or access has expired");
+        return;
+      }
+      if (latest.accessState === "scheduled" && latest.availableAt <= new Date()) {
+        // This device's clock runs ahead of the server; check again shortly
+        setFileData({ ...latest, availableAt: new Date(Date.now() + 5000) });
+        return;
+      }
+      setFileData(latest);
+    } catch (err) {
+      console.error("Error refreshing file:", err);
+    }
+  }, [token, passphrase]);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token || !passphraseInput) return;
+    
+    setIsUnlocking(true);
+    try {
+      const data = await getFileByToken(token, passphraseInput);
+      if (!data) {
+        setError("File not found or access has expired");
+        return;
+      }
+      setFileData(data);
+      if (data.passphrase === "accepted") {
+        setPassphrase(passphraseInput);
+      }
+      setPassphraseInput("");
+    } catch (err) {
+      console.error("Error checking passphrase:", err);
+      toast.error("Could not check the passphrase. Please try again.");
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  // A passphrase refused at download time sends the recipient back to the prompt
+  const requirePassphraseAgain = (state: "invalid_passphrase" | "locked") => {
+    setPassphrase(undefined);
+    setFileData(prev => prev && { ...prev, files: [], passphrase: state === "locked" ? "locked" : "invalid" });
+  };
+
+  const countDownload = () => {
+    setFileData(prev => prev && prev.downloadsRemaining !== null
+      ? { ...prev, downloadsRemaining: Math.max(prev.downloadsRemaining - 1, 0) }
+      : prev);
+  };
+
+  const handleDownloadFile = async (file: AccessibleFile) => {
+    if (!token) return;
+    
+    setDownloadingId(file.id);
+    try {
+      const { state, url } = await getDownloadUrl(token, file.id, passphrase);
+      if (state === "invalid_passphrase" || state === "locked") {
+        requirePassphraseAgain(state);
+        return;
+      }
+      if (state === "not_found") {
+        setError("File not found or access has expired");
+        return;
+      }
+      if (state !== "ok" || !url) {
+        showAccessState(state);
+        return;
+      }
+      countDownload();
+      if (fileKey) {
+        // The stored file is ciphertext; hand the browser the decrypted copy
+        const decrypted = await fetchAndDecrypt(url, fileKey, file.type);
+        const objectUrl = URL.createObjectURL(decrypted);
+        handleDownload(objectUrl, file.name);
+        setTimeout(() => URL.revokeObjectURL(objectUrl), 60000);
+        return;
+      }
+      setIssuedUrl(url);
+      if (file.sha256 && file.size <= MAX_VERIFIED_DOWNLOAD_BYTES) {
+        await downloadAndVerify(url, file);
+        return;
+      }
+      handleDownload(url, file.name);
+    } catch (err) {
+      console.error("Error getting download link:", err);
+      toast.error(`Could not start the download: ${err.message || 'Unknown error'}`);
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  // Saves the file either way, but says so clearly when the bytes differ
+  // from what the sender uploaded
+  const downloadAndVerify = async (url: string, file: AccessibleFile) => {
+    setVerification(prev => ({ ...prev, [file.id]: "verifying" }));
+    try {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`Download failed with status ${response.status}`);
+      }
+      const blob = await response.blob();
+      const matches = await getFileChecksum(blob) === file.sha256;
+      setVerification(prev => ({ ...prev, [file.id]: matches ? "verified" : "mismatch" }));
+      if (!matches) {
+        toast.error(`${file.name} does not match the sender's checksum`, { duration: 10000 });
+      }
+      
+      const objectUrl = URL.createObjectURL(blob);
+      handleDownload(objectUrl, file.name);
+      setTimeout(() => URL.revokeObjectURL(objectUrl), 60000);
+    } catch (err) {
+      setVerification(prev => {
+        const next = { ...prev };
+        delete next[file.id];
+        return next;
+      });
+      throw err;
+    }
+  };
+
+  const copyChecksum = (checksum: string) => {
+    navigator.clipboard.writeText(checksum)
+      .then(() => toast.success("Checksum copied"))
+      .catch(() => toast.error("Could not copy the checksum"));
+  };
+
+  const renderChecksum = (file: AccessibleFile) => {
+    if (!file.sha256) return null;
+    const state = verification[file.id];
+    
+    return (
+      <span className="inline-flex items-center gap-1 text-xs text-muted-foreground">
+        {state === "verified" ? (
+          <ShieldCheck className="h-3.5 w-3.5 text-green-600 dark:text-green-400" aria-label="Checksum verified" />
+        ) : state === "mismatch" ? (
+          <ShieldAlert className="h-3.5 w-3.5 text-destructive" aria-label="Checksum mismatch" />
+        ) : state === "verifying" ? (
+          <Loader2 className="h-3.5 w-3.5 animate-spin" aria-label="Checking" />
+        ) : null}
+        <span className="font-mono" title={file.sha256}>SHA-256 {shortenChecksum(file.sha256)}</span>
+        <button
+          type="button"
+          className="p-0.5 rounded hover:text-foreground"
+          onClick={() => copyChecksum(file.sha256)}
+          aria-label="Copy checksum"
+        >
+          <Copy className="h-3 w-3" />
+        </button>
+      </span>
+    );
+  };
+
+  const handleDownloadAll = async () => {
+    if (!token) return;
+    
+    // The server can only zip ciphertext, so encrypted files come one by one,
+    // and so do deliveries too large for one ZIP
+    if (fileData && !canZip) {
+      for (const file of fileData.files) {
+        await handleDownloadFile(file);
+      }
+      return;
+    }
+    
+    setIsZipping(true);
+    try {
+      const url = await getBundleDownloadUrl(token, passphrase);
+      countDownload();
+      handleDownload(url, "timecapsule-files.zip");
+    } catch (err) {
+      console.error("Error downloading bundle:", err);
+      // A refused archive usually means the link ran out in the meantime
+      const latest = await getFileByToken(token, passphrase);
+      if (latest && latest.passphrase !== "accepted" && latest.passphrase !== "not_required") {
+        requirePassphraseAgain(latest.passphrase === "locked" ? "locked" : "invalid_passphrase");
+      } else if (latest && latest.accessState !== "ok") {
+        showAccessState(latest.accessState);
+      } else {
+        toast.error(`Could not create the ZIP file: ${err.message || 'Unknown error'}`);
+      }
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  const isBundle = (fileData?.files.length || 0) > 1;
+  const bundleSize = fileData?.files.reduce((sum, file) => sum + file.size, 0) || 0;
+  const canZip = !fileKey && bundleSize <= MAX_BUNDLE_BYTES;
+  const firstFile = fileData?.files[0];
+  
+  const accessMessages: Record<Exclude<FileAccessState, "ok">, { title: string; description: string }> = {
+    scheduled: {
+      title: "Not available yet",
+      description: "This delivery is not open yet."
+    },
+    expired: {
+      title: "This link has expired",
+      description: "The files are no longer available through this link. Ask the sender to extend it."
+    },
+    revoked: {
+      title: "This link has been revoked",
+      description: "The sender has withdrawn access to these files."
+    },
+    limit_reached: {
+      title: "Download limit reached",
+      description: "These files have been downloaded as many times as the sender allowed. Ask the sender for a new link."
+    },
+    purged: {
+      title: "These files have been deleted",
+      description: "The sender chose to delete the files after a while, and they are no longer stored. Ask the sender to send them again."
+    },
+    blocked: {
+      title: "These files have been blocked",
+      description: "These files have not passed the malware scan, so they cannot be downloaded. If the sender just added them, try again in a few minutes."
+    }
+  };
+  const blockedAccess = fileData && fileData.accessState !== "ok" ? accessMessages[fileData.accessState] : null;
+  const needsPassphrase = !!fileData && ["required", "invalid", "locked"].includes(fileData.passphrase);
+  const needsKey = !!fileData?.encryptionKeyCheck && !fileKey;
+  const mismatchedFiles = fileData?.files.filter(file => verification[file.id] === "mismatch") || [];
+  
+  const getLimitNote = () => {
+    if (!fileData) return null;
+    const notes: string[] = [];
+    if (fileData.linkExpiresAt) {
+      notes.push(`Available until ${format(fileData.linkExpiresAt, "PPP 'at' p")}`);
+    }
+    if (fileData.downloadsRemaining !== null) {
+      notes.push(fileData.downloadsRemaining === 1 ? "1 download left" : `${fileData.downloadsRemaining} downloads left`);
+    }
+    return notes.length > 0 ? notes.join(" · ") : null;
+  };
+  const limitNote = getLimitNote();
+
   return (
     <div className="min-h-screen bg-background">
       <header className="border-b">
@@ -152,52 +488,235 @@ const FileAccess = () => {
                 <Link to="/">Go to Home</Link>
               </Button>
             </div>
+          ) : fileData?.accessState === "scheduled" ? (
+            <div className="py-12">
+              <div className="w-16 h-16 bg-primary/10 rounded-full flex items-center justify-center mx-auto mb-6">
+                <Hourglass className="h-8 w-8 text-primary" />
+              </div>
+              <h2 className="text-2xl font-bold mb-2 text-foreground">
+                {fileData.senderName ? `${fileData.senderName} sent you a time capsule` : "A time capsule is on its way"}
+              </h2>
+              <p className="text-muted-foreground mb-8">
+                It opens on {format(fileData.availableAt, "PPP 'at' p")}. Keep this page open or come back then.
+              </p>
+              <Countdown target={fileData.availableAt} onComplete={handleCountdownComplete} />
+            </div>
+          ) : blockedAccess ? (
+            <div className="py-12 border border-dashed rounded-xl bg-background text-foreground">
+              <Ban className="h-10 w-10 text-muted-foreground mx-auto mb-4" />
+              <h2 className="text-2xl font-bold mb-4 text-foreground">{blockedAccess.title}</h2>
+              <p className="text-muted-foreground mb-6 px-4">{blockedAccess.description}</p>
+              <Button asChild>
+                <Link to="/">Go to Home</Link>
+              </Button>
+            </div>
+          ) : needsPassphrase ? (
+            <div className="py-12">
+              <div className="w-16 h-16 bg-primary/10 rounded-full flex items-center justify-center mx-auto mb-6">
+                <KeyRound className="h-8 w-8 text-primary" />
+              </div>
+              <h2 className="text-2xl font-bold mb-2 text-foreground">This delivery is protected</h2>
+              <p className="text-muted-foreground mb-8">
+                Enter the passphrase the sender gave you to see the files.
+              </p>
+              <form onSubmit={handleUnlock} className="w-full max-w-sm mx-auto space-y-3">
+                <Input
+                  type="password"
+                  autoComplete="off"
+                  placeholder="Passphrase"
+                  value={passphraseInput}
+                  onChange={(e) => setPassphraseInput(e.target.value)}
+                  disabled={isUnlocking}
+                  aria-label="Passphrase"
+                  autoFocus
+                />
+                {fileData?.passphrase === "invalid" && (
+                  <p className="text-sm text-destructive">That passphrase is not correct.</p>
+                )}
+                {fileData?.passphrase === "locked" && (
+                  <p className="text-sm text-destructive">
+                    Too many incorrect attempts. Wait 15 minutes, then try again.
+                  </p>
+                )}
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={isUnlocking || !passphraseInput}
+                >
+                  {isUnlocking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Unlock
+                </Button>
+              </form>
+            </div>
+          ) : needsKey ? (
+            <div className="py-12">
+              <div className="w-16 h-16 bg-primary/10 rounded-full flex items-center justify-center mx-auto mb-6">
+                <LockKeyhole className="h-8 w-8 text-primary" />
+              </div>
+              <h2 className="text-2xl font-bold mb-2 text-foreground">These files are end-to-end encrypted</h2>
+              <p className="text-muted-foreground mb-8">
+                Only the key from the sender can open them. Paste the key, or the full link it came with.
+              </p>
+              <form onSubmit={handleKeySubmit} className="w-full max-w-sm mx-auto space-y-3">
+                <Input
+                  autoComplete="off"
+                  spellCheck={false}
+                  placeholder="Encryption key"
+                  value={keyInput}
+                  onChange={(e) => setKeyInput(e.target.value)}
+                  aria-label="Encryption key"
+                  autoFocus
+                />
+                {keyError && (
+                  <p className="text-sm text-destructive">{keyError}</p>
+                )}
+                <Button type="submit" className="w-full" disabled={!keyInput}>
+                  Open Files
+                </Button>
+              </form>
+            </div>
           ) : (
             <div className="py-12">
               <div className="mb-6 text-primary flex items-center justify-center">
                 <Shield className="h-6 w-6 mr-2" />
-                <span className="text-sm font-medium">Secure File Access</span>
+                <span className="text-sm font-medium">
+                  {fileKey ? "End-to-end encrypted" : "Secure File Access"}
+                </span>
               </div>
               
-              <h2 className="text-2xl font-bold mb-2 text-foreground">Your file is ready!</h2>
+              <h2 className="text-2xl font-bold mb-2 text-foreground">
+                {isBundle ? "Your files are ready!" : "Your file is ready!"}
+              </h2>
               <p className="text-muted-foreground mb-8">
-                You can now view or download the file.
+                {isBundle
+                  ? `You can download the ${fileData?.files.length} files one by one or all at once.`
+                  : "You can now view or download the file."}
               </p>
               
-              <div className="flex flex-col items-center">
-                {getFileIcon()}
-                
-                <h3 className="text-xl font-semibold mb-2 text-foreground">{fileData?.fileName}</h3>
-                <p className="text-sm text-muted-foreground mb-6">
-                  {fileData?.fileType}
+              {limitNote && (
+                <p className="flex items-center justify-center text-sm text-muted-foreground -mt-6 mb-8">
+                  <Clock className="h-4 w-4 mr-2" />
+                  {limitNote}
                 </p>
-                
-                {/* Primary download button */}
-                <Button onClick={handleDownload} size="lg" className="mb-4">
-                  <Download className="mr-2 h-5 w-5" />
-                  Download File
-                </Button>
-                
-                {/* Alternative direct link for mobile */}
-                {isMobile && fileData && (
-                  <div className="mt-4 w-full max-w-md">
-                    <p className="text-sm text-muted-foreground mb-2">
-                      If the download doesn't start automatically:
-                    </p>
-                    <Button variant="outline" asChild className="w-full">
-                      <a 
-                        href={fileData.fileUrl} 
-                        target="_blank" 
-                        rel="noopener noreferrer"
-                        className="flex items-center justify-center"
-                      >
-                        <ExternalLink className="mr-2 h-4 w-4" />
-                        Open Directly
-                      </a>
-                    </Button>
+              )}
+              
+              {fileData?.personalMessage && (
+                <div className="w-full max-w-md mx-auto mb-8 border rounded-xl p-4 text-left bg-muted/30">
+                  <div className="flex items-center text-sm text-muted-foreground mb-2">
+                    <MessageSquare className="h-4 w-4 mr-2" />
+                    <span>A message from {fileData.senderName || "the sender"}</span>
                   </div>
-                )}
-              </div>
+                  <div
+                    className="text-foreground break-words [&_a]:text-primary [&_a]:underline [&_p]:mb-2 [&_p:last-child]:mb-0 [&_ul]:list-disc [&_ul]:pl-5"
+                    // renderMessageHtml escapes the text before adding its own markup
+                    dangerouslySetInnerHTML={{ __html: renderMessageHtml(fileData.personalMessage) }}
+                  />
+                </div>
+              )}
+              
+              {mismatchedFiles.length > 0 && (
+                <div className="w-full max-w-md mx-auto mb-8 border border-destructive/50 rounded-xl p-4 text-left bg-destructive/10">
+                  <div className="flex items-center text-sm font-medium text-destructive mb-1">
+                    <ShieldAlert className="h-4 w-4 mr-2" />
+                    Checksum mismatch
+                  </div>
+                  <p className="text-sm text-foreground">
+                    What you downloaded of {mismatchedFiles.map(file => file.name).join(", ")} is not
+                    exactly what the sender uploaded. It may be incomplete or changed on the way. Delete
+                    it and download it again; if this keeps happening, let the sender know.
+                  </p>
+                </div>
+              )}
+              
+              {isBundle && fileData ? (
+                <div className="flex flex-col items-center">
+                  <div className="w-full max-w-md border rounded-xl divide-y mb-6 text-left">
+                    {fileData.files.map((file) => (
+                      <div key={file.id} className="flex items-center gap-3 p-3">
+                        <div className="w-10 h-10 bg-primary/10 rounded-lg flex items-center justify-center shrink-0">
+                          <File className="h-5 w-5 text-primary" />
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <p className="font-medium truncate text-foreground">{file.name}</p>
+                          <p className="text-xs text-muted-foreground">{formatFileSize(file.size)}</p>
+                          {renderChecksum(file)}
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleDownloadFile(file)}
+                          disabled={downloadingId !== null}
+                          aria-label={`Download ${file.name}`}
+                        >
+                          {downloadingId === file.id ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <Download className="h-4 w-4" />
+                          )}
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                  
+                  <Button onClick={handleDownloadAll} size="lg" disabled={isZipping || downloadingId !== null}>
+                    {isZipping ? (
+                      <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                    ) : !canZip ? (
+                      <Download className="mr-2 h-5 w-5" />
+                    ) : (
+                      <FileArchive className="mr-2 h-5 w-5" />
+                    )}
+                    {isZipping ? "Preparing ZIP..." : canZip ? "Download All (ZIP)" : "Download All"}
+                  </Button>
+                </div>
+              ) : (
+                <div className="flex flex-col items-center">
+                  {getFileIcon()}
+                  
+                  <h3 className="text-xl font-semibold mb-2 text-foreground">{fileData?.fileName}</h3>
+                  <p className="text-sm text-muted-foreground mb-6">
+                    {fileData?.fileType}
+                  </p>
+                  {firstFile?.sha256 && (
+                    <div className="-mt-4 mb-6">{renderChecksum(firstFile)}</div>
+                  )}
+                  
+                  {/* Primary download button */}
+                  <Button
+                    onClick={() => firstFile && handleDownloadFile(firstFile)}
+                    size="lg"
+                    className="mb-4"
+                    disabled={!firstFile || downloadingId !== null}
+                  >
+                    {downloadingId ? (
+                      <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                    ) : (
+                      <Download className="mr-2 h-5 w-5" />
+                    )}
+                    Download File
+                  </Button>
+                  
+                  {/* Alternative direct link for mobile */}
+                  {isMobile && issuedUrl && (
+                    <div className="mt-4 w-full max-w-md">
+                      <p className="text-sm text-muted-foreground mb-2">
+                        If the download doesn't start automatically:
+                      </p>
+                      <Button variant="outline" asChild className="w-full">
+                        <a 
+                          href={issuedUrl} 
+                          target="_blank" 
+                          rel="noopener noreferrer"
+                          className="flex items-center justify-center"
+                        >
+                          <ExternalLink className="mr-2 h-4 w-4" />
+                          Open Directly
+                        </a>
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -1,7 +1,7 @@
 
 import { useState, useEffect, useRef } from "react";
 import { useNavigate } from "react-router-dom";
-import { User, Mail, Lock, Bell, Palette, LogOut, Check, Calendar } from "lucide-react";
+import { User, Mail, Lock, Bell, Palette, LogOut, Check, Calendar, HardDrive } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -12,6 +12,9 @@ import { toast } from "sonner";
 import Navbar from "@/components/Navbar";
 import { useTheme } from "next-themes";
 import { useAuth } from "@/context/AuthContext";
+import { useProfileTimezone } from "@/hooks/use-profile-timezone";
+import TimezoneSelect from "@/components/TimezoneSelect";
+import StorageUsage from "@/components/StorageUsage";
 import { Popover, PopoverContent } from "@/components/ui/popover";
 import { supabase } from "@/integrations/supabase/client";
 
@@ -22,6 +25,7 @@ const Settings = () => {
   
   // Create refs for each section
   const profileSectionRef = useRef<HTMLElement>(null);
+  const storageSectionRef = useRef<HTMLElement>(null);
   const notificationsSectionRef = useRef<HTMLElement>(null);
   const appearanceSectionRef = useRef<HTMLElement>(null);
   
@@ -29,6 +33,12 @@ const Settings = () => {
   const [name, setName] = useState("");
   const [email, setEmail] = useState("");
   const [isSaving, setIsSaving] = useState(false);
+  const profileTimeZone = useProfileTimezone();
+  const [timeZone, setTimeZone] = useState(profileTimeZone);
+  
+  useEffect(() => {
+    setTimeZone(profileTimeZone);
+  }, [profileTimeZone]);
   
   // Effect to set email and name from authenticated user
   useEffect(() => {
@@ -110,7 +120,8 @@ const Settings = () => {
         .upsert({ 
           id: user?.id,
           full_name: name,
-          email: email
+          email: email,
+          timezone: timeZone
         });
         
       toast.success("Profile settings updated successfully");
@@ -210,6 +221,15 @@ const Settings = () => {
               <User className="h-4 w-4 mr-2" />
               <span>Profile</span>
             </Button>
+            <Button 
+              variant="ghost" 
+              className="w-full justify-start" 
+              size="lg"
+              onClick={() => scrollToSection(storageSectionRef)}
+            >
+              <HardDrive className="h-4 w-4 mr-2" />
+              <span>Storage</span>
+            </Button>
             <Button 
               variant="ghost" 
               className="w-full justify-start" 
@@ -296,6 +316,14 @@ const Settings = () => {
                     </div>
                   </div>
                   
+                  <div className="space-y-2">
+                    <Label>Time Zone</Label>
+                    <TimezoneSelect value={timeZone} onChange={setTimeZone} className="w-full md:w-[320px]" />
+                    <p className="text-sm text-muted-foreground">
+                      New deliveries are scheduled in this time zone by default
+                    </p>
+                  </div>
+                  
                   <div className="space-y-2">
                     <Label htmlFor="current-password">Current Password</Label>
                     <Input
@@ -348,6 +376,20 @@ const Settings = () => {
             
             <Separator />
             
+            {/* Storage Section */}
+            <section ref={storageSectionRef}>
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="text-xl font-semibold flex items-center">
+                  <HardDrive className="h-5 w-5 mr-2" />
+                  Storage
+                </h2>
+              </div>
+              
+              <StorageUsage />
+            </section>
+            
+            <Separator />
+            
             {/* Notifications Section */}
             <section ref={notificationsSectionRef}>
               <div className="flex items-center justify-between mb-6">
@@ -0,0 +1,243 @@
+import { eachDayOfInterval, eachWeekOfInterval, endOfDay, endOfWeek, format, startOfDay, startOfWeek } from "date-fns";
+import type { PostgrestError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+// Delivery statistics for the analytics page, worked out in the browser from
+// the signed-in user's deliveries, recipients and access events.
+
+export type AnalyticsBucket = "day" | "week";
+
+export interface AnalyticsRange {
+  from: Date;
+  to: Date;
+}
+
+export interface DeliveryVolumePoint {
+  label: string;
+  sent: number;
+  failed: number;
+  pending: number;
+}
+
+export interface OpenDelayBucket {
+  label: string;
+  count: number;
+}
+
+export interface RecipientStats {
+  email: string;
+  deliveries: number;
+  opened: number;
+}
+
+export interface StoragePoint {
+  label: string;
+  storedBytes: number;
+}
+
+export interface DeliveryAnalytics {
+  deliveryCount: number;
+  volume: DeliveryVolumePoint[];
+  // Per recipient email, so one bounce in a bundle of three counts once
+  sentEmails: number;
+  failedEmails: number;
+  // From the moment a recipient was emailed to their first visit
+  medianTimeToOpenMs: number | null;
+  openDelays: OpenDelayBucket[];
+  topRecipients: RecipientStats[];
+  storage: StoragePoint[];
+}
+
+// PostgREST hands out at most this many rows per request
+const PAGE_SIZE = 1000;
+const TOP_RECIPIENT_COUNT = 5;
+
+const HOUR = 60 * 60 * 1000;
+const OPEN_DELAY_BUCKETS = [
+  { label: "Within an hour", maxMs: HOUR },
+  { label: "Within a day", maxMs: 24 * HOUR },
+  { label: "Within a week", maxMs: 7 * 24 * HOUR },
+  { label: "Later", maxMs: Infinity }
+];
+
+const fetchAllRows = async <T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: PostgrestError | null }>
+): Promise<T[]> => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...data);
+    if (data.length < PAGE_SIZE) return rows;
+  }
+};
+
+const getMedian = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Start and end of every day or week the range touches
+const getPeriods = (range: AnalyticsRange, bucket: AnalyticsBucket) => {
+  if (bucket === "week") {
+    return eachWeekOfInterval({ start: range.from, end: range.to }).map(start => ({
+      start,
+      end: endOfWeek(start),
+      label: format(start, "MMM d")
+    }));
+  }
+  return eachDayOfInterval({ start: range.from, end: range.to }).map(start => ({
+    start,
+    end: endOfDay(start),
+    label: format(start, "MMM d")
+  }));
+};
+
+export const getDeliveryAnalytics = async (range: AnalyticsRange, bucket: AnalyticsBucket): Promise<DeliveryAnalytics> => {
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) {
+    throw new Error("User not authenticated");
+  }
+  const userId = userData.user.id;
+  const from = startOfDay(range.from).toISOString();
+  const to = endOfDay(range.to).toISOString();
+
+  const [deliveries, viewEvents, storedItems] = await Promise.all([
+    fetchAllRows(
+      (first, last) => supabase
+        .from("scheduled_files")
+        .select("id, scheduled_date, status, opened_at, delivery_recipients(id, email, status, sent_at)")
+        .eq("user_id", userId)
+        .is("deleted_at", null)
+        .neq("status", "draft")
+        .gte("scheduled_date", from)
+        .lte("scheduled_date", to)
+        .order("scheduled_date", { ascending: true })
+        .range(first, last)
+    ),
+    fetchAllRows(
+      (first, last) => supabase
+        .from("file_access_events")
+        .select("scheduled_file_id, recipient_id, created_at, scheduled_files!inner(scheduled_date)")
+        .eq("event_type", "viewed")
+        .gte("scheduled_files.scheduled_date", from)
+        .lte("scheduled_files.scheduled_date", to)
+        .order("created_at", { ascending: true })
+        .range(first, last)
+    ),
+    // Every stored file, for the level of storage before the range starts
+    fetchAllRows(
+      (first, last) => supabase
+        .from("scheduled_file_items")
+        .select("storage_path, file_size, created_at, scheduled_files!inner(user_id, purged_at)")
+        .eq("scheduled_files.user_id", userId)
+        .order("created_at", { ascending: true })
+        .range(first, last)
+    )
+  ]);
+
+  const periods = getPeriods(range, bucket);
+  const getPeriodIndex = (date: Date) => {
+    const start = bucket === "week" ? startOfWeek(date) : startOfDay(date);
+    return periods.findIndex(period => period.start.getTime() === start.getTime());
+  };
+
+  // Deliveries per period, by how they ended
+  const volume: DeliveryVolumePoint[] = periods.map(period => ({ label: period.label, sent: 0, failed: 0, pending: 0 }));
+  for (const delivery of deliveries) {
+    const point = volume[getPeriodIndex(new Date(delivery.scheduled_date))];
+    if (!point) continue;
+    if (delivery.status === "sent") point.sent++;
+    else if (delivery.status === "failed") point.failed++;
+    // Cancelled deliveries were never meant to go out after all
+    else if (delivery.status !== "cancelled") point.pending++;
+  }
+
+  // First visit per recipient; events from links older than per-recipient
+  // tokens only name the delivery
+  const firstViews = new Map<string, Date>();
+  for (const event of viewEvents) {
+    const key = event.recipient_id || event.scheduled_file_id;
+    if (!firstViews.has(key)) firstViews.set(key, new Date(event.created_at));
+  }
+
+  const openDelays: number[] = [];
+  const recipientStats = new Map<string, RecipientStats>();
+  let sentEmails = 0;
+  let failedEmails = 0;
+
+  for (const delivery of deliveries) {
+    const scheduledAt = new Date(delivery.scheduled_date);
+    let deliveryOpened = false;
+
+    for (const recipient of delivery.delivery_recipients) {
+      if (recipient.status === "sent") sentEmails++;
+      if (recipient.status === "failed") failedEmails++;
+
+      const email = recipient.email.toLowerCase();
+      const stats = recipientStats.get(email) || { email, deliveries: 0, opened: 0 };
+      stats.deliveries++;
+
+      const firstView = firstViews.get(recipient.id);
+      if (firstView) {
+        stats.opened++;
+        deliveryOpened = true;
+        openDelays.push(firstView.getTime() - new Date(recipient.sent_at || delivery.scheduled_date).getTime());
+      }
+      recipientStats.set(email, stats);
+    }
+
+    // Deliveries opened before visits were logged per recipient
+    if (!deliveryOpened) {
+      const openedAt = firstViews.get(delivery.id) || (delivery.opened_at ? new Date(delivery.opened_at) : null);
+      if (openedAt) openDelays.push(openedAt.getTime() - scheduledAt.getTime());
+    }
+  }
+
+  const validDelays = openDelays.filter(delay => delay >= 0);
+  const openDelayCounts = OPEN_DELAY_BUCKETS.map(({ label }) => ({ label, count: 0 }));
+  for (const delay of validDelays) {
+    openDelayCounts[OPEN_DELAY_BUCKETS.findIndex(({ maxMs }) => delay < maxMs)].count++;
+  }
+
+  const topRecipients = Array.from(recipientStats.values())
+    .sort((a, b) => b.deliveries - a.deliveries || b.opened - a.opened)
+    .slice(0, TOP_RECIPIENT_COUNT);
+
+  // Stored bytes at the end of each period. Occurrences of a recurring
+  // delivery share an object, which is gone once every one of them is purged.
+  const objects = new Map<string, { size: number; addedAt: number; purgedAt: number | null }>();
+  for (const item of storedItems) {
+    const purgedAt = item.scheduled_files.purged_at ? new Date(item.scheduled_files.purged_at).getTime() : null;
+    const existing = objects.get(item.storage_path);
+    if (!existing) {
+      objects.set(item.storage_path, { size: item.file_size, addedAt: new Date(item.created_at).getTime(), purgedAt });
+    } else if (existing.purgedAt !== null) {
+      existing.purgedAt = purgedAt === null ? null : Math.max(existing.purgedAt, purgedAt);
+    }
+  }
+
+  const storage = periods.map(period => {
+    const end = period.end.getTime();
+    let storedBytes = 0;
+    objects.forEach(object => {
+      if (object.addedAt <= end && (object.purgedAt === null || object.purgedAt > end)) {
+        storedBytes += object.size;
+      }
+    });
+    return { label: period.label, storedBytes };
+  });
+
+  return {
+    deliveryCount: deliveries.length,
+    volume,
+    sentEmails,
+    failedEmails,
+    medianTimeToOpenMs: getMedian(validDelays),
+    openDelays: openDelayCounts,
+    topRecipients,
+    storage
+  };
+};
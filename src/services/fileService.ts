@@ -1,7 +1,25 @@
 
 import { supabase } from "@/integrations/supabase/client";
-import { FileItem } from "@/components/FileCard";
+import { Tables } from "@/integrations/supabase/types";
+import { RecurrenceRule, getNextOccurrence } from "@/lib/recurrence";
+import { shiftToTimeZone } from "@/lib/timezone";
+import {
+  createEncryptedUpload,
+  createUploadNonce,
+  exportFileKey,
+  findUploadKey,
+  findUploadNonce,
+  forgetUploadKey,
+  generateFileKey,
+  getFileKeyCheck,
+  rememberFileKey,
+  rememberUploadKey
+} from "@/lib/encryption";
+import { getFileChecksum } from "@/lib/checksum";
+import { UPLOAD_CHUNK_SIZE, UploadBody, UploadControl, getUploadFingerprint, uploadResumable } from "@/lib/resumable-upload";
+import { BundleItem, FileItem, FileRecipient, RetentionPolicy, ScanStatus } from "@/components/FileCard";
 import { toast } from "sonner";
+import { addDays } from "date-fns";
 import { io, Socket } from "socket.io-client";
 
 let socket: Socket | null = null;
@@ -97,26 +115,177 @@ export const initializeSocket = async (): Promise<Socket> => {
 };
 
 export interface ScheduleFileParams {
-  file: File;
-  recipient: string;
+  files: File[];
+  recipients: FileRecipient[];
   scheduledDate: Date;
+  recurrence?: RecurrenceRule | null;
+  timeZone: string;
+  deliverInRecipientTimezone?: boolean;
+  senderName?: string;
+  emailSubject?: string;
+  personalMessage?: string;
+  linkValidDays?: number | null;
+  maxDownloads?: number | null;
+  passphrase?: string;
+  retentionPolicy?: RetentionPolicy;
+  retentionDays?: number;
+  // Encrypt the files in the browser before they are uploaded
+  encrypt?: boolean;
+  uploadControl?: UploadControl;
+  onUploadProgress?: (progress: UploadProgress) => void;
+}
+
+export interface UploadProgress {
+  uploadedBytes: number;
+  totalBytes: number;
+}
+
+interface UploadedFile {
+  path: string;
+  sha256: string | null;
+}
+
+interface UploadOptions {
+  // Encoded key of an end-to-end encrypted delivery
+  key?: string;
+  control?: UploadControl;
+  onProgress?: (uploadedBytes: number) => void;
 }
 
 export interface UpdateScheduleParams {
   id: string;
-  recipient: string;
+  recipients: FileRecipient[];
   scheduledDate: Date;
+  recurrence?: RecurrenceRule | null;
+  timeZone?: string;
+  deliverInRecipientTimezone?: boolean;
+  senderName?: string;
+  emailSubject?: string;
+  personalMessage?: string;
+  linkValidDays?: number | null;
+  maxDownloads?: number | null;
+  // Left out to keep the current passphrase, empty to remove it
+  passphrase?: string;
+  retentionPolicy?: RetentionPolicy;
+  retentionDays?: number;
 }
 
-export const uploadFile = async (file: File, userId: string): Promise<string> => {
-  const fileExt = file.name.split(".").pop();
-  const fileName = `${userId}/${Date.now()}.${fileExt}`;
+// The primary recipient is the first "to" address; it is kept on the
+// scheduled_files row for display and for older clients.
+const getPrimaryRecipient = <T extends FileRecipient>(recipients: T[]): T => {
+  return recipients.find(r => r.role === "to") || recipients[0];
+};
+
+// Recipients with their own delivery time may be due before the scheduled date
+const getFirstDelivery = (scheduledDate: Date, recipients: FileRecipient[]): Date => {
+  const deliverAts = recipients.filter(r => r.deliverAt).map(r => r.deliverAt.getTime());
+  return deliverAts.length > 0 ? new Date(Math.min(...deliverAts)) : scheduledDate;
+};
+
+const ROLE_ORDER: FileRecipient["role"][] = ["to", "cc", "bcc"];
+
+const mapBundleItem = (item: Tables<"scheduled_file_items">): BundleItem => ({
+  id: item.id,
+  name: item.file_name,
+  size: item.file_size,
+  type: item.file_type,
+  storagePath: item.storage_path,
+  sha256: item.sha256,
+  scanStatus: item.scan_status as ScanStatus,
+  scanResult: item.scan_result
+});
+
+// One file that is not cleared holds back the whole delivery
+const SCAN_STATUS_ORDER: ScanStatus[] = ["infected", "error", "pending", "clean", "skipped"];
+
+const getDeliveryScanStatus = (items: Tables<"scheduled_file_items">[]): ScanStatus => {
+  return SCAN_STATUS_ORDER.find(status => items.some(item => item.scan_status === status)) || "clean";
+};
+
+const mapRecipient = (item: Tables<"delivery_recipients">): FileRecipient => ({
+  id: item.id,
+  email: item.email,
+  role: item.role as FileRecipient["role"],
+  status: item.status as FileRecipient["status"],
+  sentAt: item.sent_at ? new Date(item.sent_at) : undefined,
+  errorMessage: item.error_message || undefined,
+  timezone: item.timezone,
+  deliverAt: item.deliver_at ? new Date(item.deliver_at) : null,
+  deliveryStatus: item.delivery_status as FileRecipient["deliveryStatus"]
+});
+
+// How long deleted deliveries can be restored; cron-scheduler empties the trash
+export const TRASH_RETENTION_DAYS = 30;
+
+const RESUMABLE_UPLOAD_URL = "https://limzhusojiirnsefkupe.supabase.co/storage/v1/upload/resumable";
+
+// Anything bigger than one chunk goes through the resumable endpoint
+const uploadLargeFile = async (file: File, body: UploadBody, fileName: string, fingerprint: string, options: UploadOptions) => {
+  const { data: authData } = await supabase.auth.getSession();
+  const accessToken = authData.session?.access_token;
+  
+  return uploadResumable(body, {
+    endpoint: RESUMABLE_UPLOAD_URL,
+    headers: {
+      "Authorization": accessToken ? `Bearer ${accessToken}` : "",
+      // Object names are unique per upload; this only lets a retried start
+      // replace its own half-created object
+      "x-upsert": "true",
+    },
+    bucket: "timecapsule",
+    objectName: fileName,
+    contentType: options.key ? "application/octet-stream" : file.type || "application/octet-stream",
+    fingerprint,
+    control: options.control,
+    onProgress: options.onProgress,
+  });
+};
+
+export const uploadFile = async (file: File, userId: string, options: UploadOptions = {}): Promise<UploadedFile> => {
+  const { key } = options;
+  const fileExt = key ? "enc" : file.name.split(".").pop();
+  // Files of one bundle are uploaded within the same millisecond
+  const fileName = `${userId}/${Date.now()}-${crypto.randomUUID().slice(0, 8)}.${fileExt}`;
+  const fingerprint = getUploadFingerprint(file, userId);
+  // Only an upload being resumed reuses its nonce; the fingerprint cannot
+  // tell whether the file's content changed in between otherwise
+  const nonce = key ? findUploadNonce(fingerprint, key) || createUploadNonce() : null;
+  // Encrypted a chunk at a time while the upload asks for it
+  const body: UploadBody = key ? await createEncryptedUpload(file, key, nonce) : file;
+  // Hashed while the upload runs; decryption already checks encrypted files
+  const checksum = key ? null : getFileChecksum(file);
+  
+  if (body.size > UPLOAD_CHUNK_SIZE) {
+    try {
+      if (key) {
+        // Kept until the upload finishes so a reload can encrypt the file
+        // the same way and resume
+        rememberUploadKey(fingerprint, key, nonce);
+      }
+      // The same file under another key or nonce is different data
+      const uploadFingerprint = key ? `${fingerprint}:${nonce}` : fingerprint;
+      const path = await uploadLargeFile(file, body, fileName, uploadFingerprint, options);
+      if (key) {
+        forgetUploadKey(fingerprint);
+      }
+      return { path, sha256: await checksum };
+    } catch (error) {
+      console.error("Error uploading file:", error);
+      toast("Upload Error", {
+        description: `Failed to upload ${file.name}: ${error.message}`,
+        duration: 3000,
+        style: { backgroundColor: 'rgb(var(--color-destructive))' }
+      });
+      throw error;
+    }
+  }
   
   const { data, error } = await supabase
     .storage
     .from("timecapsule")
-    .upload(fileName, file, {
+    .upload(fileName, key ? await body.slice(0, body.size) : file, {
       cacheControl: "3600",
+      contentType: key ? "application/octet-stream" : undefined,
       upsert: false
     });
     
@@ -130,7 +299,8 @@ export const uploadFile = async (file: File, userId: string): Promise<string> =>
     throw error;
   }
   
-  return data.path;
+  options.onProgress?.(body.size);
+  return { path: data.path, sha256: await checksum };
 };
 
 export const getFilePreviewUrl = async (storagePath: string): Promise<string | null> => {
@@ -154,7 +324,9 @@ export const getFilePreviewUrl = async (storagePath: string): Promise<string | n
   }
 };
 
-export const scheduleFile = async (params: ScheduleFileParams): Promise<void> => {
+// Resolves with the key of an encrypted delivery, which is not stored anywhere
+// but in this browser; the sender has to pass it on to the recipients
+export const scheduleFile = async (params: ScheduleFileParams): Promise<string | null> => {
   try {
     const { data: userData } = await supabase.auth.getUser();
     if (!userData.user) {
@@ -166,24 +338,94 @@ export const scheduleFile = async (params: ScheduleFileParams): Promise<void> =>
       throw new Error("User not authenticated");
     }
     
-    const storagePath = await uploadFile(params.file, userData.user.id);
-    const accessToken = crypto.randomUUID();
+    if (params.recipients.length === 0) {
+      throw new Error("At least one recipient is required");
+    }
     
-    const { error } = await supabase
+    if (params.files.length === 0) {
+      throw new Error("At least one file is required");
+    }
+    
+    const totalBytes = params.files.reduce((total, file) => total + file.size, 0);
+    // The database checks the quota again when the files are saved
+    const usage = await getStorageUsage();
+    if (usage.usedBytes + totalBytes > usage.quotaBytes) {
+      const availableMB = Math.max(usage.quotaBytes - usage.usedBytes, 0) / (1024 * 1024);
+      throw new Error(`Not enough storage left: ${availableMB.toFixed(1)} MB available. Delete older capsules in Settings to free up space.`);
+    }
+    
+    // An interrupted encrypted upload of these files can only resume under its key
+    const encodedKey = params.encrypt
+      ? findUploadKey(params.files.map(file => getUploadFingerprint(file, userData.user.id)))
+        || await exportFileKey(await generateFileKey())
+      : null;
+    
+    const storagePaths: string[] = [];
+    const checksums: (string | null)[] = [];
+    let finishedBytes = 0;
+    try {
+      for (const file of params.files) {
+        const uploaded = await uploadFile(file, userData.user.id, {
+          key: encodedKey || undefined,
+          control: params.uploadControl,
+          // Encryption adds a few bytes per file; progress is told in file bytes
+          onProgress: (uploaded) => params.onUploadProgress?.({
+            uploadedBytes: finishedBytes + Math.min(uploaded, file.size),
+            totalBytes
+          })
+        });
+        storagePaths.push(uploaded.path);
+        checksums.push(uploaded.sha256);
+        finishedBytes += file.size;
+      }
+    } catch (uploadError) {
+      if (storagePaths.length > 0) {
+        await supabase.storage.from("timecapsule").remove(storagePaths);
+      }
+      throw uploadError;
+    }
+    
+    const [firstFile] = params.files;
+    const recipients = params.recipients.map(recipient => ({
+      ...recipient,
+      accessToken: crypto.randomUUID()
+    }));
+    const primary = getPrimaryRecipient(recipients);
+    // The first occurrence of a recurring delivery identifies its series
+    const fileId = crypto.randomUUID();
+    
+    const { data: fileRow, error } = await supabase
       .from("scheduled_files")
       .insert({
+        id: fileId,
         user_id: userData.user.id,
-        file_name: params.file.name,
-        file_size: params.file.size,
-        file_type: params.file.type,
-        storage_path: storagePath,
-        recipient_email: params.recipient,
+        file_name: firstFile.name,
+        file_size: totalBytes,
+        file_type: firstFile.type,
+        storage_path: storagePaths[0],
+        recipient_email: primary.email,
         scheduled_date: params.scheduledDate.toISOString(),
-        access_token: accessToken,
-        status: "pending", // explicitly set status
-      });
+        access_token: primary.accessToken,
+        // Not sent until its files and recipients are saved below
+        status: "draft",
+        recurrence: params.recurrence || null,
+        series_id: params.recurrence ? fileId : null,
+        timezone: params.timeZone,
+        deliver_in_recipient_timezone: params.deliverInRecipientTimezone || false,
+        sender_name: params.senderName || null,
+        email_subject: params.emailSubject || null,
+        personal_message: params.personalMessage || null,
+        link_valid_days: params.linkValidDays || null,
+        max_downloads: params.maxDownloads || null,
+        encryption_key_check: encodedKey ? await getFileKeyCheck(encodedKey) : null,
+        retention_policy: params.retentionPolicy || "keep",
+        retention_days: params.retentionDays || 0,
+      })
+      .select("id")
+      .single();
       
     if (error) {
+      await supabase.storage.from("timecapsule").remove(storagePaths);
       toast("Error", {
         description: `Failed to schedule: ${error.message}`,
         duration: 3000,
@@ -192,8 +434,92 @@ export const scheduleFile = async (params: ScheduleFileParams): Promise<void> =>
       throw error;
     }
     
+    // Don't leave a delivery behind that nobody would receive
+    const rollback = async () => {
+      await supabase.from("scheduled_files").delete().eq("id", fileRow.id);
+      await supabase.storage.from("timecapsule").remove(storagePaths);
+    };
+    
+    const { error: itemsError } = await supabase
+      .from("scheduled_file_items")
+      .insert(params.files.map((file, index) => ({
+        scheduled_file_id: fileRow.id,
+        file_name: file.name,
+        file_size: file.size,
+        file_type: file.type,
+        storage_path: storagePaths[index],
+        position: index,
+        sha256: checksums[index],
+      })));
+      
+    if (itemsError) {
+      await rollback();
+      toast("Error", {
+        description: `Failed to save files: ${itemsError.message}`,
+        duration: 3000,
+        style: { backgroundColor: 'rgb(var(--color-destructive))' }
+      });
+      throw itemsError;
+    }
+    
+    if (params.passphrase) {
+      // Hashed by the database; the passphrase itself is never stored
+      const { error: passphraseError } = await supabase
+        .rpc("set_delivery_passphrase", { file_id: fileRow.id, passphrase: params.passphrase });
+        
+      if (passphraseError) {
+        await rollback();
+        toast("Error", {
+          description: `Failed to set the passphrase: ${passphraseError.message}`,
+          duration: 3000,
+          style: { backgroundColor: 'rgb(var(--color-destructive))' }
+        });
+        throw passphraseError;
+      }
+    }
+    
+    const { error: recipientsError } = await supabase
+      .from("delivery_recipients")
+      .insert(recipients.map(recipient => ({
+        scheduled_file_id: fileRow.id,
+        email: recipient.email,
+        role: recipient.role,
+        access_token: recipient.accessToken,
+        timezone: recipient.timezone || null,
+        deliver_at: recipient.deliverAt ? recipient.deliverAt.toISOString() : null,
+      })));
+      
+    if (recipientsError) {
+      await rollback();
+      toast("Error", {
+        description: `Failed to save recipients: ${recipientsError.message}`,
+        duration: 3000,
+        style: { backgroundColor: 'rgb(var(--color-destructive))' }
+      });
+      throw recipientsError;
+    }
+    
+    const { error: activateError } = await supabase
+      .from("scheduled_files")
+      .update({ status: "pending" })
+      .eq("id", fileRow.id);
+      
+    if (activateError) {
+      await rollback();
+      toast("Error", {
+        description: `Failed to schedule: ${activateError.message}`,
+        duration: 3000,
+        style: { backgroundColor: 'rgb(var(--color-destructive))' }
+      });
+      throw activateError;
+    }
+    
+    if (encodedKey) {
+      rememberFileKey(storagePaths[0], encodedKey);
+    }
+    
     toast("Success", {
-      description: "File scheduled successfully",
+      description: `${params.files.length > 1 ? "Files" : "File"} scheduled successfully`,
       duration: 2000
     });
     
@@ -205,13 +531,15 @@ export const scheduleFile = async (params: ScheduleFileParams): Promise<void> =>
     }
     
     const now = new Date();
-    if (params.scheduledDate <= now) {
+    if (getFirstDelivery(params.scheduledDate, params.recipients) <= now) {
       try {
         await triggerFileSending();
       } catch (triggerError) {
         console.log("Non-critical error when triggering immediate file sending:", triggerError);
       }
     }
+    
+    return encodedKey;
   } catch (error: any) {
     console.error("Error scheduling file:", error);
     toast("Schedule Error", {
@@ -223,14 +551,63 @@ export const scheduleFile = async (params: ScheduleFileParams): Promise<void> =>
   }
 };
 
+// Existing recipients keep their access token; removed ones are deleted and
+// new ones get a fresh token from the column default.
+const replaceRecipients = async (fileId: string, recipients: FileRecipient[]): Promise<void> => {
+  const { error: upsertError } = await supabase
+    .from("delivery_recipients")
+    .upsert(
+      recipients.map(recipient => ({
+        scheduled_file_id: fileId,
+        email: recipient.email,
+        role: recipient.role,
+        timezone: recipient.timezone || null,
+        deliver_at: recipient.deliverAt ? recipient.deliverAt.toISOString() : null,
+        updated_at: new Date().toISOString(),
+      })),
+      { onConflict: "scheduled_file_id,email" }
+    );
+    
+  if (upsertError) {
+    throw upsertError;
+  }
+  
+  const emails = recipients.map(recipient => `"${recipient.email}"`).join(",");
+  const { error: deleteError } = await supabase
+    .from("delivery_recipients")
+    .delete()
+    .eq("scheduled_file_id", fileId)
+    .not("email", "in", `(${emails})`);
+    
+  if (deleteError) {
+    throw deleteError;
+  }
+};
+
 export const updateScheduledFile = async (params: UpdateScheduleParams): Promise<void> => {
   try {
+    if (params.recipients.length === 0) {
+      throw new Error("At least one recipient is required");
+    }
+    
     const { error } = await supabase
       .from("scheduled_files")
       .update({
-        recipient_email: params.recipient,
+        recipient_email: getPrimaryRecipient(params.recipients).email,
         scheduled_date: params.scheduledDate.toISOString(),
         updated_at: new Date().toISOString(),
+        ...(params.recurrence !== undefined && { recurrence: params.recurrence }),
+        ...(params.timeZone !== undefined && { timezone: params.timeZone }),
+        ...(params.deliverInRecipientTimezone !== undefined && {
+          deliver_in_recipient_timezone: params.deliverInRecipientTimezone
+        }),
+        ...(params.senderName !== undefined && { sender_name: params.senderName || null }),
+        ...(params.emailSubject !== undefined && { email_subject: params.emailSubject || null }),
+        ...(params.personalMessage !== undefined && { personal_message: params.personalMessage || null }),
+        ...(params.linkValidDays !== undefined && { link_valid_days: params.linkValidDays || null }),
+        ...(params.maxDownloads !== undefined && { max_downloads: params.maxDownloads || null }),
+        ...(params.retentionPolicy !== undefined && { retention_policy: params.retentionPolicy }),
+        ...(params.retentionDays !== undefined && { retention_days: params.retentionDays }),
       })
       .eq("id", params.id);
       
@@ -243,13 +620,24 @@ export const updateScheduledFile = async (params: UpdateScheduleParams): Promise
       throw error;
     }
     
+    if (params.passphrase !== undefined) {
+      const { error: passphraseError } = await supabase
+        .rpc("set_delivery_passphrase", { file_id: params.id, passphrase: params.passphrase });
+        
+      if (passphraseError) {
+        throw passphraseError;
+      }
+    }
+    
+    await replaceRecipients(params.id, params.recipients);
+    
     toast("Success", {
       description: "Schedule updated",
       duration: 2000
     });
     
     const now = new Date();
-    if (params.scheduledDate <= now) {
+    if (getFirstDelivery(params.scheduledDate, params.recipients) <= now) {
       try {
         await triggerFileSending();
       } catch (triggerError) {
@@ -267,11 +655,72 @@ export const updateScheduledFile = async (params: UpdateScheduleParams): Promise
   }
 };
 
+// Moves a delivery to the trash: it is not sent and its links stop working
+// until it is restored. The files are deleted for good after TRASH_RETENTION_DAYS.
+export const trashScheduledFile = async (id: string): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from("scheduled_files")
+      .update({
+        deleted_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", id);
+      
+    if (error) {
+      throw error;
+    }
+    
+    toast("Moved to trash", {
+      description: `You can restore it from the trash for ${TRASH_RETENTION_DAYS} days`,
+      duration: 3000
+    });
+  } catch (error) {
+    console.error("Error moving file to trash:", error);
+    toast("Delete Error", {
+      description: `Error moving file to trash: ${error.message}`,
+      duration: 3000,
+      style: { backgroundColor: 'rgb(var(--color-destructive))' }
+    });
+    throw error;
+  }
+};
+
+export const restoreScheduledFile = async (id: string): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from("scheduled_files")
+      .update({
+        deleted_at: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", id);
+      
+    if (error) {
+      throw error;
+    }
+    
+    toast("Success", {
+      description: "File restored",
+      duration: 2000
+    });
+  } catch (error) {
+    console.error("Error restoring file:", error);
+    toast("Update Error", {
+      description: `Error restoring file: ${error.message}`,
+      duration: 3000,
+      style: { backgroundColor: 'rgb(var(--color-destructive))' }
+    });
+    throw error;
+  }
+};
+
+// Deletes a delivery and its files right away, skipping the trash
 export const deleteScheduledFile = async (id: string): Promise<void> => {
   try {
     const { data, error } = await supabase
       .from("scheduled_files")
-      .select("storage_path")
+      .select("storage_path, scheduled_file_items(storage_path)")
       .eq("id", id)
       .single();
       
@@ -284,13 +733,30 @@ export const deleteScheduledFile = async (id: string): Promise<void> => {
       throw error;
     }
     
-    const { error: storageError } = await supabase
-      .storage
-      .from("timecapsule")
-      .remove([data.storage_path]);
-      
-    if (storageError) {
-      console.error("Error removing file from storage:", storageError);
+    const storagePaths = Array.from(new Set([
+      data.storage_path,
+      ...data.scheduled_file_items.map(item => item.storage_path)
+    ]));
+    
+    // Occurrences of a recurring delivery share storage objects
+    const { data: sharedItems } = await supabase
+      .from("scheduled_file_items")
+      .select("storage_path")
+      .in("storage_path", storagePaths)
+      .neq("scheduled_file_id", id);
+    
+    const sharedPaths = new Set((sharedItems || []).map(item => item.storage_path));
+    const unusedPaths = storagePaths.filter(path => !sharedPaths.has(path));
+    
+    if (unusedPaths.length > 0) {
+      const { error: storageError } = await supabase
+        .storage
+        .from("timecapsule")
+        .remove(unusedPaths);
+        
+      if (storageError) {
+        console.error("Error removing files from storage:", storageError);
+      }
     }
     
     const { error: dbError } = await supabase
@@ -308,7 +774,7 @@ export const deleteScheduledFile = async (id: string): Promise<void> => {
     }
     
     toast("Success", {
-      description: "File deleted successfully",
+      description: "File deleted permanently",
       duration: 3000
     });
   } catch (error: any) {
@@ -322,113 +788,627 @@ export const deleteScheduledFile = async (id: string): Promise<void> => {
   }
 };
 
-export const getScheduledFiles = async (): Promise<FileItem[]> => {
+export const skipOccurrence = async (id: string): Promise<void> => {
   try {
-    const { data: userData } = await supabase.auth.getUser();
-    if (!userData.user) {
-      toast("Authentication Error", {
-        description: "User not authenticated",
-        duration: 3000,
-        style: { backgroundColor: 'rgb(var(--color-destructive))' }
-      });
-      return [];
+    const { data, error } = await supabase
+      .from("scheduled_files")
+      .select("scheduled_date, recurrence, occurrence_index, timezone, delivery_recipients(id, timezone)")
+      .eq("id", id)
+      .single();
+      
+    if (error) {
+      throw error;
+    }
+    
+    const rule = data.recurrence as RecurrenceRule | null;
+    const next = rule
+      ? getNextOccurrence(rule, new Date(data.scheduled_date), data.occurrence_index, data.timezone)
+      : null;
+      
+    if (!next) {
+      throw new Error("This is the last delivery in the series");
+    }
+    
+    // Recipients with their own zone move to the same wall clock time there
+    const recipientUpdates = data.delivery_recipients
+      .filter(recipient => recipient.timezone)
+      .map(recipient => supabase
+        .from("delivery_recipients")
+        .update({
+          deliver_at: shiftToTimeZone(next, data.timezone, recipient.timezone).toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", recipient.id));
+    
+    for (const { error: recipientError } of await Promise.all(recipientUpdates)) {
+      if (recipientError) {
+        throw recipientError;
+      }
+    }
+    
+    // A skipped occurrence still counts towards the series length
+    const { error: updateError } = await supabase
+      .from("scheduled_files")
+      .update({
+        scheduled_date: next.toISOString(),
+        occurrence_index: data.occurrence_index + 1,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", id)
+      .eq("status", "pending");
+      
+    if (updateError) {
+      throw updateError;
     }
+    
+    toast("Success", {
+      description: "Skipped this delivery",
+      duration: 2000
+    });
+  } catch (error) {
+    console.error("Error skipping occurrence:", error);
+    toast("Skip Error", {
+      description: `Error: ${error.message}`,
+      duration: 3000,
+      style: { backgroundColor: 'rgb(var(--color-destructive))' }
+    });
+    throw error;
+  }
+};
 
-    const { data, error } = await supabase
+export const endSeries = async (id: string): Promise<void> => {
+  try {
+    // Without a rule, no further occurrence is created after this one is sent
+    const { error } = await supabase
       .from("scheduled_files")
-      .select("*")
-      .eq("user_id", userData.user.id)
-      .order("created_at", { ascending: false });
+      .update({
+        recurrence: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", id);
       
     if (error) {
-      toast("Fetch Error", {
-        description: `Failed to fetch files: ${error.message}`,
-        duration: 3000,
-        style: { backgroundColor: 'rgb(var(--color-destructive))' }
-      });
       throw error;
     }
     
-    return data.map((item: any) => ({
-      id: item.id,
-      name: item.file_name,
-      size: item.file_size,
-      type: item.file_type,
-      recipient: item.recipient_email,
-      scheduledDate: new Date(item.scheduled_date),
-      status: item.status as "pending" | "sent" | "failed",
-      createdAt: new Date(item.created_at),
-      access_token: item.access_token,
-      storage_path: item.storage_path
-    }));
-  } catch (error: any) {
-    console.error("Error fetching scheduled files:", error);
-    toast("Fetch Error", {
-      description: `Error fetching scheduled files: ${error.message}`,
+    toast("Success", {
+      description: "Series ends after this delivery",
+      duration: 2000
+    });
+  } catch (error) {
+    console.error("Error ending series:", error);
+    toast("Update Error", {
+      description: `Error: ${error.message}`,
       duration: 3000,
       style: { backgroundColor: 'rgb(var(--color-destructive))' }
     });
-    return [];
+    throw error;
   }
 };
 
-export const getFileByToken = async (token: string): Promise<{
-  fileName: string;
-  fileType: string;
-  fileUrl: string;
-} | null> => {
+export const retryScheduledFile = async (id: string): Promise<void> => {
   try {
-    console.log("Fetching file with token:", token);
+    // Recipients go first so a worker never claims the delivery while they
+    // are still marked failed; each gets a fresh set of attempts
+    const { error: recipientsError } = await supabase
+      .from("delivery_recipients")
+      .update({
+        status: "pending",
+        attempts: 0,
+        error_message: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("scheduled_file_id", id)
+      .neq("status", "sent");
+      
+    if (recipientsError) {
+      throw recipientsError;
+    }
+    
+    const { error } = await supabase
+      .from("scheduled_files")
+      .update({
+        status: "pending",
+        error_message: null,
+        next_attempt_at: null,
+        attempts: 0,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", id)
+      .in("status", ["failed", "pending"]);
+      
+    if (error) {
+      throw error;
+    }
     
+    toast("Success", {
+      description: "Delivery queued for another attempt",
+      duration: 2000
+    });
+  } catch (error) {
+    console.error("Error retrying delivery:", error);
+    toast("Retry Error", {
+      description: `Error: ${error.message}`,
+      duration: 3000,
+      style: { backgroundColor: 'rgb(var(--color-destructive))' }
+    });
+    throw error;
+  }
+};
+
+// Only moves the expiry; revocations and the download count have their own actions
+export const extendFileAccess = async (id: string, days = 7): Promise<void> => {
+  try {
     const { data, error } = await supabase
       .from("scheduled_files")
-      .select("*")
-      .eq("access_token", token)
+      .select("link_expires_at")
+      .eq("id", id)
       .single();
       
-    if (error || !data) {
-      console.error("Error fetching file by token:", error);
-      return null;
+    if (error) {
+      throw error;
     }
     
-    console.log("File data found in database:", data);
+    if (!data.link_expires_at) {
+      throw new Error("This link does not expire");
+    }
     
-    const { data: fileData, error: fileError } = await supabase
-      .storage
-      .from("timecapsule")
-      .createSignedUrl(data.storage_path, 60 * 60 * 24); // 24 hours
+    const now = new Date();
+    const currentExpiry = new Date(data.link_expires_at);
+    const from = currentExpiry > now ? currentExpiry : now;
+    
+    const { error: updateError } = await supabase
+      .from("scheduled_files")
+      .update({
+        link_expires_at: addDays(from, days).toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", id);
       
-    if (fileError || !fileData) {
-      console.error("Error creating signed URL:", fileError);
-      return null;
+    if (updateError) {
+      throw updateError;
     }
     
-    console.log("Signed URL created successfully:", fileData.signedUrl);
+    toast("Success", {
+      description: `Link extended by ${days} days`,
+      duration: 2000
+    });
+  } catch (error) {
+    console.error("Error extending file access:", error);
+    toast("Update Error", {
+      description: `Error: ${error.message}`,
+      duration: 3000,
+      style: { backgroundColor: 'rgb(var(--color-destructive))' }
+    });
+    throw error;
+  }
+};
+
+export const restoreFileAccess = async (id: string): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from("scheduled_files")
+      .update({
+        link_revoked_at: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", id);
+      
+    if (error) {
+      throw error;
+    }
     
-    if (data.status === 'pending') {
-      try {
-        const { error: updateError } = await supabase
-          .from("scheduled_files")
-          .update({ 
-            status: "sent",
-            sent_at: new Date().toISOString() 
-          })
-          .eq("id", data.id);
-        
-        if (updateError) {
-          console.error("Error updating file status:", updateError);
-        } else {
-          console.log("Updated file status to 'sent'");
-        }
-      } catch (updateErr) {
-        console.error("Exception updating file status:", updateErr);
-      }
+    toast("Success", {
+      description: "Link access restored",
+      duration: 2000
+    });
+  } catch (error) {
+    console.error("Error restoring file access:", error);
+    toast("Update Error", {
+      description: `Error: ${error.message}`,
+      duration: 3000,
+      style: { backgroundColor: 'rgb(var(--color-destructive))' }
+    });
+    throw error;
+  }
+};
+
+// Gives recipients a fresh round of downloads up to the limit
+export const resetDownloadCount = async (id: string): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from("scheduled_files")
+      .update({
+        download_count: 0,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", id);
+      
+    if (error) {
+      throw error;
+    }
+    
+    toast("Success", {
+      description: "Download count reset",
+      duration: 2000
+    });
+  } catch (error) {
+    console.error("Error resetting download count:", error);
+    toast("Update Error", {
+      description: `Error: ${error.message}`,
+      duration: 3000,
+      style: { backgroundColor: 'rgb(var(--color-destructive))' }
+    });
+    throw error;
+  }
+};
+
+// Queue the files of a delivery that could not be scanned for another scan
+export const rescanScheduledFile = async (id: string): Promise<void> => {
+  try {
+    const { data: queued, error } = await supabase
+      .rpc("rescan_scheduled_file", { file_id: id });
+      
+    if (error) {
+      throw error;
+    }
+    
+    toast("Success", {
+      description: queued > 0 ? "Files queued for another malware scan" : "No files are waiting for a new scan",
+      duration: 2000
+    });
+  } catch (error) {
+    console.error("Error queueing malware scan:", error);
+    toast("Update Error", {
+      description: `Error: ${error.message}`,
+      duration: 3000,
+      style: { backgroundColor: 'rgb(var(--color-destructive))' }
+    });
+    throw error;
+  }
+};
+
+export const revokeFileAccess = async (id: string): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from("scheduled_files")
+      .update({
+        link_revoked_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", id);
+      
+    if (error) {
+      throw error;
+    }
+    
+    toast("Success", {
+      description: "Access links revoked",
+      duration: 2000
+    });
+  } catch (error) {
+    console.error("Error revoking file access:", error);
+    toast("Update Error", {
+      description: `Error: ${error.message}`,
+      duration: 3000,
+      style: { backgroundColor: 'rgb(var(--color-destructive))' }
+    });
+    throw error;
+  }
+};
+
+export type BulkAction = "reschedule" | "change_recipient" | "cancel" | "delete" | "retry";
+
+export interface BulkActionOptions {
+  // A Postgres interval such as "2 hours" or "-1 days", for reschedule
+  offset?: string;
+  // The new primary recipient, for change_recipient
+  recipientEmail?: string;
+}
+
+export interface BulkActionResult {
+  fileId: string;
+  succeeded: boolean;
+  // Why the action did not apply to this delivery
+  message: string | null;
+}
+
+// Applies the action to every delivery in one call. Deliveries that cannot
+// take it are reported back and do not stop the others.
+export const bulkUpdateScheduledFiles = async (
+  fileIds: string[],
+  action: BulkAction,
+  options: BulkActionOptions = {}
+): Promise<BulkActionResult[]> => {
+  try {
+    const { data, error } = await supabase.rpc("bulk_update_scheduled_files", {
+      file_ids: fileIds,
+      action,
+      offset_by: options.offset,
+      recipient_email: options.recipientEmail
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return data.map(result => ({
+      fileId: result.file_id,
+      succeeded: result.succeeded,
+      message: result.message
+    }));
+  } catch (error) {
+    console.error("Error updating deliveries:", error);
+    toast("Update Error", {
+      description: `Error: ${error.message}`,
+      duration: 3000,
+      style: { backgroundColor: 'rgb(var(--color-destructive))' }
+    });
+    throw error;
+  }
+};
+
+export type FileSortField = "scheduled_date" | "created_at" | "file_name" | "file_size";
+
+// Where the next page starts: the sort value and id of the last row so far
+export interface FileListCursor {
+  value: string;
+  id: string;
+}
+
+export interface FileListQuery {
+  search?: string;
+  // One of the dashboard tabs; "all" leaves out the trash
+  tab?: string;
+  statuses?: string[];
+  // Only deliveries going out in this range, e.g. for the calendar; that is
+  // the next pending recipient's time, or a later automatic retry
+  scheduledFrom?: Date;
+  scheduledTo?: Date;
+  sortBy?: FileSortField;
+  sortDesc?: boolean;
+  after?: FileListCursor | null;
+  pageSize?: number;
+}
+
+export interface FileListPage {
+  files: FileItem[];
+  // null on the last page
+  nextCursor: FileListCursor | null;
+}
+
+export const FILE_PAGE_SIZE = 30;
+
+type ScheduledFileRow = Tables<"scheduled_files"> & {
+  delivery_recipients: Tables<"delivery_recipients">[];
+  scheduled_file_items: Tables<"scheduled_file_items">[];
+};
+
+const mapScheduledFile = (item: ScheduledFileRow): FileItem => ({
+  id: item.id,
+  name: item.file_name,
+  size: item.file_size,
+  type: item.file_type,
+  items: (item.scheduled_file_items || [])
+    .sort((a, b) => a.position - b.position)
+    .map(mapBundleItem),
+  recipient: item.recipient_email,
+  recipients: (item.delivery_recipients || [])
+    .map(mapRecipient)
+    .sort((a, b) => ROLE_ORDER.indexOf(a.role) - ROLE_ORDER.indexOf(b.role)),
+  scheduledDate: new Date(item.scheduled_date),
+  status: item.status as FileItem["status"],
+  createdAt: new Date(item.created_at),
+  access_token: item.access_token,
+  storage_path: item.storage_path,
+  recurrence: item.recurrence as unknown as RecurrenceRule | null,
+  seriesId: item.series_id || undefined,
+  occurrenceIndex: item.occurrence_index,
+  timezone: item.timezone,
+  deliverInRecipientTimezone: item.deliver_in_recipient_timezone,
+  nextDeliveryAt: item.next_delivery_at ? new Date(item.next_delivery_at) : undefined,
+  nextAttemptAt: item.next_attempt_at ? new Date(item.next_attempt_at) : undefined,
+  errorMessage: item.error_message || undefined,
+  senderName: item.sender_name,
+  emailSubject: item.email_subject,
+  personalMessage: item.personal_message,
+  linkValidDays: item.link_valid_days,
+  maxDownloads: item.max_downloads,
+  downloadCount: item.download_count,
+  linkExpiresAt: item.link_expires_at ? new Date(item.link_expires_at) : null,
+  linkRevokedAt: item.link_revoked_at ? new Date(item.link_revoked_at) : null,
+  passphraseProtected: item.passphrase_protected,
+  openedAt: item.opened_at ? new Date(item.opened_at) : null,
+  downloadedAt: item.downloaded_at ? new Date(item.downloaded_at) : null,
+  encrypted: !!item.encryption_key_check,
+  retentionPolicy: item.retention_policy as RetentionPolicy,
+  retentionDays: item.retention_days,
+  purgeAt: item.purge_at ? new Date(item.purge_at) : null,
+  purgedAt: item.purged_at ? new Date(item.purged_at) : null,
+  deletedAt: item.deleted_at ? new Date(item.deleted_at) : null,
+  scanStatus: getDeliveryScanStatus(item.scheduled_file_items || [])
+});
+
+// One page of the signed-in user's deliveries. Searching, filtering and
+// sorting happen in the database (search_scheduled_files).
+export const searchScheduledFiles = async (query: FileListQuery = {}): Promise<FileListPage> => {
+  const sortBy = query.sortBy || "created_at";
+  const sortDesc = query.sortDesc ?? true;
+  const pageSize = query.pageSize || FILE_PAGE_SIZE;
+
+  const { data, error } = await supabase
+    .rpc("search_scheduled_files", {
+      search: query.search || undefined,
+      tab: query.tab || "all",
+      statuses: query.statuses?.length ? query.statuses : undefined,
+      scheduled_from: query.scheduledFrom?.toISOString(),
+      scheduled_to: query.scheduledTo?.toISOString(),
+      sort_by: sortBy,
+      sort_desc: sortDesc,
+      after_value: query.after?.value,
+      after_id: query.after?.id,
+      page_size: pageSize
+    })
+    .select("*, delivery_recipients(*), scheduled_file_items(*)")
+    // Embedding the related rows does not keep the function's order
+    .order(sortBy, { ascending: !sortDesc })
+    .order("id", { ascending: !sortDesc });
+
+  if (error) {
+    console.error("Error fetching scheduled files:", error);
+    throw error;
+  }
+
+  const rows = data as unknown as ScheduledFileRow[];
+  const last = rows[rows.length - 1];
+
+  return {
+    files: rows.map(mapScheduledFile),
+    nextCursor: rows.length === pageSize ? { value: String(last[sortBy]), id: last.id } : null
+  };
+};
+
+export type AccessEventType = "viewed" | "downloaded" | "failed_passphrase" | "expired";
+
+export interface AccessEvent {
+  id: string;
+  type: AccessEventType;
+  recipientEmail: string | null;
+  userAgent: string | null;
+  ipPrefix: string | null;
+  createdAt: Date;
+}
+
+// What recipients did with the links of a delivery, newest first
+export const getFileAccessEvents = async (fileId: string, limit = 50): Promise<AccessEvent[]> => {
+  const { data, error } = await supabase
+    .from("file_access_events")
+    .select("*, delivery_recipients(email)")
+    .eq("scheduled_file_id", fileId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+    
+  if (error) {
+    console.error("Error fetching access events:", error);
+    throw error;
+  }
+  
+  return data.map(event => ({
+    id: event.id,
+    type: event.event_type as AccessEventType,
+    recipientEmail: event.delivery_recipients?.email || null,
+    userAgent: event.user_agent,
+    ipPrefix: event.ip_prefix,
+    createdAt: new Date(event.created_at)
+  }));
+};
+
+export interface StorageUsage {
+  usedBytes: number;
+  quotaBytes: number;
+  capsuleCount: number;
+  fileCount: number;
+}
+
+export interface StoredFile {
+  storagePath: string;
+  name: string;
+  size: number;
+  // The latest delivery that uses the file
+  fileId: string;
+  scheduledDate: Date;
+  // Occurrences of a recurring delivery share their files
+  deliveryCount: number;
+}
+
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+  const { data, error } = await supabase.rpc("get_storage_usage");
+  
+  if (error) {
+    console.error("Error fetching storage usage:", error);
+    throw error;
+  }
+  
+  const [usage] = data;
+  return {
+    usedBytes: usage.used_bytes,
+    quotaBytes: usage.quota_bytes,
+    capsuleCount: usage.capsule_count,
+    fileCount: usage.file_count
+  };
+};
+
+export const getLargestStoredFiles = async (limit = 5): Promise<StoredFile[]> => {
+  const { data, error } = await supabase.rpc("get_largest_stored_files", { max_count: limit });
+  
+  if (error) {
+    console.error("Error fetching largest files:", error);
+    throw error;
+  }
+  
+  return data.map(file => ({
+    storagePath: file.storage_path,
+    name: file.file_name,
+    size: file.file_size,
+    fileId: file.scheduled_file_id,
+    scheduledDate: new Date(file.scheduled_date),
+    deliveryCount: file.delivery_count
+  }));
+};
+
+export interface AccessibleFile {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  sha256: string | null;
+}
+
+// Why a recipient can or cannot download, as decided by the access-file function
+export type FileAccessState = "ok" | "scheduled" | "expired" | "revoked" | "limit_reached" | "purged" | "blocked";
+
+// "invalid" and "locked" come back after a wrong passphrase; five wrong
+// guesses lock the delivery for a while
+export type PassphraseState = "not_required" | "required" | "accepted" | "invalid" | "locked";
+
+export interface FileAccessDetails {
+  fileName: string;
+  fileType: string;
+  files: AccessibleFile[];
+  senderName: string | null;
+  personalMessage: string | null;
+  accessState: FileAccessState;
+  // When this recipient's delivery time comes
+  availableAt: Date;
+  linkExpiresAt: Date | null;
+  downloadsRemaining: number | null;
+  passphrase: PassphraseState;
+  // Inline preview of the first file; only offered when downloads are not
+  // limited, since the preview URL would otherwise bypass the count
+  previewUrl: string | null;
+  // SHA-256 of the key for end-to-end encrypted deliveries, null otherwise
+  encryptionKeyCheck: string | null;
+}
+
+// Recipients are not signed in; the access-file function checks the token,
+// the delivery time and the link's limits on their behalf
+export const getFileByToken = async (token: string, passphrase?: string): Promise<FileAccessDetails | null> => {
+  try {
+    console.log("Fetching file with token:", token);
+    
+    const { data, error } = await supabase.functions.invoke("access-file", {
+      body: { action: "open", token, passphrase }
+    });
+      
+    if (error || !data) {
+      console.error("Error fetching file by token:", error);
+      return null;
     }
     
     return {
-      fileName: data.file_name,
-      fileType: data.file_type,
-      fileUrl: fileData.signedUrl
+      ...data,
+      availableAt: new Date(data.availableAt),
+      linkExpiresAt: data.linkExpiresAt ? new Date(data.linkExpiresAt) : null
     };
   } catch (error: any) {
     console.error("Error in getFileByToken:", error);
@@ -436,6 +1416,50 @@ export const getFileByToken = async (token: string): Promise<{
   }
 };
 
+// Download URLs are issued one at a time: each counts against the download
+// limit and expires after a minute, so it is not worth passing around
+export const getDownloadUrl = async (
+  token: string,
+  fileId: string,
+  passphrase?: string
+): Promise<{ state: FileAccessState | "invalid_passphrase" | "locked" | "not_found"; url: string | null }> => {
+  const { data, error } = await supabase.functions.invoke("access-file", {
+    body: { action: "download", token, fileId, passphrase }
+  });
+  
+  if (error) {
+    console.error("Error getting download link:", error);
+    throw error;
+  }
+  
+  return data;
+};
+
+// Larger deliveries are downloaded file by file; the ZIP format the
+// download-bundle function writes stops at 4 GiB
+export const MAX_BUNDLE_BYTES = 4 * 1000 * 1000 * 1000;
+
+// All files of a delivery as one ZIP, built on demand by the download-bundle
+// function. The function checks the link and counts the download, then hands
+// out a URL the browser downloads the archive from straight to disk; it
+// expires after a minute.
+export const getBundleDownloadUrl = async (token: string, passphrase?: string): Promise<string> => {
+  const { data, error } = await supabase.functions.invoke("download-bundle", {
+    body: { token, passphrase }
+  });
+  
+  if (error) {
+    console.error("Error creating bundle download:", error);
+    throw error;
+  }
+  
+  if (!data?.url) {
+    throw new Error("Unexpected response when creating the ZIP file");
+  }
+  
+  return data.url;
+};
+
 export const getFilePreviewByStoragePath = async (storagePath: string): Promise<string | null> => {
   try {
     const { data, error } = await supabase
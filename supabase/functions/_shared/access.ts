@@ -0,0 +1,120 @@
+// Resolve recipient access tokens for the functions that serve files
+// (access-file, download-bundle). They run with the service role; the token
+// lookups are not open to the browser.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+
+export interface DeliveryRow {
+  id: string;
+  file_name: string;
+  file_type: string;
+  file_size: number;
+  storage_path: string;
+  scheduled_date: string;
+  status: string;
+  sender_name: string | null;
+  personal_message: string | null;
+  encryption_key_check: string | null;
+}
+
+export type AccessEventType = "viewed" | "downloaded" | "failed_passphrase" | "expired";
+
+export interface TokenAccess {
+  file: DeliveryRow;
+  /** The recipient the token was issued to; null for tokens older than per-recipient links */
+  recipientId: string | null;
+  /** When this recipient may open the delivery */
+  availableAt: Date;
+}
+
+/**
+ * Look up the delivery and recipient behind an access token. Returns null
+ * when the token is unknown.
+ */
+export async function resolveAccessToken(supabaseClient: SupabaseClient, token: string): Promise<TokenAccess | null> {
+  const { data: file, error } = await supabaseClient
+    .rpc("get_scheduled_file_by_token", { token })
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up access token: ${error.message}`);
+  }
+
+  if (!file) {
+    return null;
+  }
+
+  const { data: recipient, error: recipientError } = await supabaseClient
+    .from("delivery_recipients")
+    .select("id, deliver_at, sent_at")
+    .eq("scheduled_file_id", file.id)
+    .eq("access_token", token)
+    .maybeSingle();
+
+  if (recipientError) {
+    throw new Error(`Failed to look up recipient: ${recipientError.message}`);
+  }
+
+  // Recipients in their own time zone get the file at their local time; a
+  // recipient who was already emailed can always open it
+  let availableAt = new Date(recipient?.deliver_at || file.scheduled_date);
+  if (recipient?.sent_at && new Date(recipient.sent_at) < availableAt) {
+    availableAt = new Date(recipient.sent_at);
+  }
+
+  return {
+    file: file as DeliveryRow,
+    recipientId: recipient?.id || null,
+    availableAt,
+  };
+}
+
+/**
+ * The client address with the host part dropped: the /24 of an IPv4 address
+ * or the /48 of an IPv6 one. Enough to tell networks apart, not people.
+ */
+export function coarseIpAddress(address: string | null): string | null {
+  const ip = address?.split(",")[0].trim();
+  if (!ip) return null;
+
+  if (ip.includes(".") && !ip.includes(":")) {
+    const octets = ip.split(".");
+    if (octets.length !== 4) return null;
+    return `${octets.slice(0, 3).join(".")}.0/24`;
+  }
+
+  if (ip.includes(":")) {
+    // Expand "::" far enough to read the first three groups
+    const [head] = ip.split("::");
+    const groups = head.split(":").filter(Boolean);
+    while (groups.length < 3) groups.push("0");
+    return `${groups.slice(0, 3).join(":")}::/48`;
+  }
+
+  return null;
+}
+
+/**
+ * Add an entry to the delivery's access log. Logging never blocks access, so
+ * failures are only reported.
+ */
+export async function recordAccessEvent(
+  supabaseClient: SupabaseClient,
+  access: TokenAccess,
+  eventType: AccessEventType,
+  req: Request
+): Promise<void> {
+  const { error } = await supabaseClient
+    .from("file_access_events")
+    .insert({
+      scheduled_file_id: access.file.id,
+      recipient_id: access.recipientId,
+      event_type: eventType,
+      user_agent: req.headers.get("user-agent")?.slice(0, 512) || null,
+      ip_prefix: coarseIpAddress(req.headers.get("x-forwarded-for") || req.headers.get("x-real-ip")),
+    });
+
+  if (error) {
+    console.error(`Error recording ${eventType} event for file ${access.file.id}:`, error);
+  }
+}
@@ -0,0 +1,291 @@
+// Email transports for the edge functions.
+//
+// EMAIL_TRANSPORT selects the driver:
+//   resend (default)  Resend HTTP API, needs RESEND_API_KEY
+//   smtp              any SMTP server, e.g. the local Inbucket on port 54325
+//   sink              writes each message as .eml to a directory or to the
+//                     email_outbox table instead of sending it (dev and tests)
+
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+import { encode as encodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+
+export interface EmailMessage {
+  /** Display name shown as the sender; the address comes from EMAIL_FROM */
+  fromName: string;
+  to: string;
+  subject: string;
+  html: string;
+}
+
+export interface EmailSendError {
+  statusCode: number;
+  message: string;
+  details?: unknown;
+}
+
+// Same shape the Resend API returns, so callers can treat every driver alike.
+// A result can carry both an id and an error when the provider reported a
+// problem but still accepted the message.
+export interface EmailSendResult {
+  data: { id: string } | null;
+  error: EmailSendError | null;
+}
+
+export interface EmailTransport {
+  name: "resend" | "smtp" | "sink";
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
+
+interface TransportOptions {
+  /** Needed by the table sink */
+  supabaseClient?: SupabaseClient;
+  /** Defaults to the function's environment */
+  env?: { get(key: string): string | undefined };
+}
+
+const DEFAULT_FROM_ADDRESS = "onboarding@resend.dev"; // Resend's default domain
+const REQUEST_TIMEOUT_MS = 30000;
+
+const formatFrom = (fromName: string, address: string): string => {
+  return fromName ? `${fromName} <${address}>` : address;
+};
+
+const toErrorResult = (statusCode: number, error: unknown): EmailSendResult => {
+  return {
+    data: null,
+    error: {
+      statusCode,
+      message: error instanceof Error ? error.message : String(error) || "Unknown error occurred",
+    },
+  };
+};
+
+/**
+ * Resend HTTP API
+ */
+function createResendTransport(apiKey: string, fromAddress: string): EmailTransport {
+  return {
+    name: "resend",
+    async send(message) {
+      try {
+        console.log(`Sending email to ${message.to} using Resend...`);
+
+        const res = await fetch("https://api.resend.com/emails", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${apiKey}`,
+          },
+          body: JSON.stringify({
+            from: formatFrom(message.fromName, fromAddress),
+            to: [message.to],
+            subject: message.subject,
+            html: message.html,
+          }),
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+
+        const data = await res.json();
+
+        if (!res.ok) {
+          console.error("Resend API error response:", data);
+
+          // Resend sometimes returns errors on the free tier but still delivers the email
+          if (data && data.id && res.status === 403) {
+            console.log(`Resend reported error but provided ID ${data.id}, message may have been sent`);
+            return {
+              data: { id: data.id },
+              error: {
+                statusCode: res.status,
+                message: data.message || "Free tier limitation, but message appears to be sent",
+                details: data,
+              },
+            };
+          }
+
+          return {
+            data: null,
+            error: {
+              statusCode: res.status,
+              message: data.message || "Unknown error from Resend API",
+              details: data,
+            },
+          };
+        }
+
+        console.log("Email sent successfully with response:", data);
+        return { data: { id: data.id }, error: null };
+      } catch (error) {
+        console.error("Error sending email through Resend:", error);
+        // A timeout is reported like a gateway timeout so it is retried
+        const timedOut = error instanceof DOMException && error.name === "TimeoutError";
+        return toErrorResult(timedOut ? 504 : 500, error);
+      }
+    },
+  };
+}
+
+/**
+ * Plain SMTP, one connection per message
+ */
+function createSmtpTransport(
+  config: { hostname: string; port: number; tls: boolean; username?: string; password?: string },
+  fromAddress: string
+): EmailTransport {
+  return {
+    name: "smtp",
+    async send(message) {
+      const client = new SMTPClient({
+        connection: {
+          hostname: config.hostname,
+          port: config.port,
+          tls: config.tls,
+          auth: config.username ? { username: config.username, password: config.password || "" } : undefined,
+        },
+        debug: { noStartTLS: !config.tls },
+      });
+
+      try {
+        console.log(`Sending email to ${message.to} via SMTP ${config.hostname}:${config.port}...`);
+        await client.send({
+          from: formatFrom(message.fromName, fromAddress),
+          to: message.to,
+          subject: message.subject,
+          html: message.html,
+        });
+
+        // SMTP has no provider id; generate one so delivery tracking still works
+        return { data: { id: `smtp-${crypto.randomUUID()}` }, error: null };
+      } catch (error) {
+        console.error("Error sending email over SMTP:", error);
+        return toErrorResult(502, error);
+      } finally {
+        try {
+          await client.close();
+        } catch (closeError) {
+          console.error("Error closing SMTP connection:", closeError);
+        }
+      }
+    },
+  };
+}
+
+// RFC 2047 encoding for header values that are not plain ASCII
+const encodeHeader = (value: string): string => {
+  if (/^[\x20-\x7e]*$/.test(value)) return value;
+  return `=?UTF-8?B?${encodeBase64(new TextEncoder().encode(value))}?=`;
+};
+
+/**
+ * Render a message as an RFC 5322 .eml document
+ */
+export function buildEml(message: EmailMessage, fromAddress: string, messageId: string): string {
+  const body = encodeBase64(new TextEncoder().encode(message.html)).replace(/.{1,76}/g, "$&\r\n");
+
+  return [
+    `From: ${message.fromName ? `${encodeHeader(message.fromName)} <${fromAddress}>` : fromAddress}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${messageId}@timecapsule.local>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/html; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    body,
+  ].join("\r\n");
+}
+
+/**
+ * Keep messages instead of sending them: as .eml files in a directory, or as
+ * rows in the email_outbox table
+ */
+function createSinkTransport(
+  target: { kind: "dir"; directory: string } | { kind: "table"; supabaseClient: SupabaseClient },
+  fromAddress: string
+): EmailTransport {
+  return {
+    name: "sink",
+    async send(message) {
+      const id = `sink-${crypto.randomUUID()}`;
+      const eml = buildEml(message, fromAddress, id);
+
+      try {
+        if (target.kind === "dir") {
+          await Deno.mkdir(target.directory, { recursive: true });
+          const path = `${target.directory}/${new Date().toISOString().replace(/[:.]/g, "-")}-${id}.eml`;
+          await Deno.writeTextFile(path, eml);
+          console.log(`Wrote email for ${message.to} to ${path}`);
+        } else {
+          const { error } = await target.supabaseClient
+            .from("email_outbox")
+            .insert({
+              message_id: id,
+              recipient: message.to,
+              sender: formatFrom(message.fromName, fromAddress),
+              subject: message.subject,
+              html: message.html,
+              eml,
+            });
+
+          if (error) {
+            throw new Error(`Failed to write to email_outbox: ${error.message}`);
+          }
+          console.log(`Stored email for ${message.to} in email_outbox as ${id}`);
+        }
+
+        return { data: { id }, error: null };
+      } catch (error) {
+        console.error("Error writing email to sink:", error);
+        return toErrorResult(500, error);
+      }
+    },
+  };
+}
+
+/**
+ * Build the transport selected by EMAIL_TRANSPORT. Throws when the selected
+ * driver is missing required configuration.
+ */
+export function createEmailTransport(options: TransportOptions = {}): EmailTransport {
+  const env = options.env || Deno.env;
+  const driver = (env.get("EMAIL_TRANSPORT") || "resend").toLowerCase();
+  const fromAddress = env.get("EMAIL_FROM") || DEFAULT_FROM_ADDRESS;
+
+  switch (driver) {
+    case "resend": {
+      const apiKey = env.get("RESEND_API_KEY");
+      if (!apiKey) {
+        throw new Error("RESEND_API_KEY is required when EMAIL_TRANSPORT is resend");
+      }
+      return createResendTransport(apiKey, fromAddress);
+    }
+    case "smtp": {
+      const port = Number(env.get("SMTP_PORT") || 54325);
+      if (!Number.isInteger(port) || port <= 0) {
+        throw new Error(`Invalid SMTP_PORT: ${env.get("SMTP_PORT")}`);
+      }
+      return createSmtpTransport({
+        // Inbucket from `supabase start` by default
+        hostname: env.get("SMTP_HOST") || "localhost",
+        port,
+        tls: env.get("SMTP_TLS") === "true",
+        username: env.get("SMTP_USER"),
+        password: env.get("SMTP_PASSWORD"),
+      }, fromAddress);
+    }
+    case "sink": {
+      const directory = env.get("EMAIL_SINK_DIR");
+      if (directory) {
+        return createSinkTransport({ kind: "dir", directory }, fromAddress);
+      }
+      if (!options.supabaseClient) {
+        throw new Error("EMAIL_SINK_DIR or a Supabase client is required when EMAIL_TRANSPORT is sink");
+      }
+      return createSinkTransport({ kind: "table", supabaseClient: options.supabaseClient }, fromAddress);
+    }
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${driver}". Use resend, smtp or sink.`);
+  }
+}
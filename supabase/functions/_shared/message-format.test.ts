@@ -0,0 +1,43 @@
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { renderMessageHtml, sanitizeSenderName, sanitizeSubject } from "./message-format.ts";
+
+Deno.test("renderMessageHtml escapes markup before formatting", () => {
+  assertEquals(
+    renderMessageHtml("<script>alert(1)</script> & **bold**"),
+    "<p>&lt;script&gt;alert(1)&lt;/script&gt; &amp; <strong>bold</strong></p>"
+  );
+  assertEquals(renderMessageHtml('<img src=x onerror="alert(1)">'), "<p>&lt;img src=x onerror=&quot;alert(1)&quot;&gt;</p>");
+});
+
+Deno.test("renderMessageHtml leaves unsafe links as text", () => {
+  for (const url of ["javascript:alert(1)", "JavaScript:alert(document.cookie)", "data:text/html,<b>x</b>", "//example.com"]) {
+    const html = renderMessageHtml(`[click](${url})`);
+    assert(!html.includes("<a"), html);
+    assert(!html.includes("href"), html);
+  }
+});
+
+Deno.test("renderMessageHtml links web and mail addresses", () => {
+  assertEquals(
+    renderMessageHtml("[the photos](https://example.com/a?b=1&c=2)"),
+    '<p><a href="https://example.com/a?b=1&amp;c=2" target="_blank" rel="noopener noreferrer">the photos</a></p>'
+  );
+  assertEquals(
+    renderMessageHtml("[write](mailto:me@example.com)"),
+    '<p><a href="mailto:me@example.com" target="_blank" rel="noopener noreferrer">write</a></p>'
+  );
+  // A quote in the URL cannot end the attribute
+  assert(!renderMessageHtml('[x](https://example.com/"onmouseover=alert(1))').includes('"onmouseover'));
+  // Emphasis markers never reach inside a URL
+  assert(renderMessageHtml("*[x](https://example.com/*a*)*").includes('href="https://example.com/*a*"'));
+});
+
+Deno.test("renderMessageHtml builds paragraphs, line breaks and lists", () => {
+  assertEquals(renderMessageHtml("Hello\nthere\n\n- one\n- *two*"), "<p>Hello<br>there</p><ul><li>one</li><li><em>two</em></li></ul>");
+  assertEquals(renderMessageHtml("a0b"), "<p>a0b</p>");
+});
+
+Deno.test("header values are sanitized", () => {
+  assertEquals(sanitizeSenderName(' "Ann" <ann@example.com>\n'), "Ann ann@example.com");
+  assertEquals(sanitizeSubject("Hello\r\nBcc: someone@example.com"), "Hello Bcc: someone@example.com");
+});
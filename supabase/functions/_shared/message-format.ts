@@ -0,0 +1,85 @@
+// Personal messages are written in a small subset of Markdown and rendered to
+// HTML for the delivery email and the access page. Shared by the edge
+// functions and the web app (re-exported from src/lib/message-format.ts).
+//
+// Supported: **bold**, *italic*, [text](https://link), "- " bullet lists,
+// paragraphs and line breaks. Everything else is shown as plain text.
+
+export const MAX_SUBJECT_LENGTH = 150;
+export const MAX_SENDER_NAME_LENGTH = 80;
+export const MAX_PERSONAL_MESSAGE_LENGTH = 5000;
+
+export const DEFAULT_EMAIL_SUBJECT = "Your TimeCapsule File is Ready!";
+
+export const escapeHtml = (value: string): string => {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+};
+
+// Only web and mail links survive; anything else (javascript:, data:) stays text
+const isSafeUrl = (url: string): boolean => /^(https?:\/\/|mailto:)/i.test(url);
+
+// Works on already-escaped text, so the only markup in the result is ours.
+// Links are swapped for placeholders first so emphasis never reaches a URL.
+const renderInline = (escaped: string): string => {
+  const links: string[] = [];
+  const withPlaceholders = escaped.replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (match, text: string, url: string) => {
+    // Undo the escaping of "&" so query strings survive, then re-escape for the attribute
+    const rawUrl = url.replace(/&amp;/g, "&");
+    if (!isSafeUrl(rawUrl)) return match;
+    links.push(`<a href="${escapeHtml(rawUrl)}" target="_blank" rel="noopener noreferrer">${text}</a>`);
+    return `\uE000${links.length - 1}\uE000`;
+  });
+
+  return withPlaceholders
+    .replace(/\*\*(.+?)\*\*/g, "<strong>$1</strong>")
+    .replace(/(^|[^*])\*([^*\s][^*]*?)\*/g, "$1<em>$2</em>")
+    .replace(/\uE000(\d+)\uE000/g, (_, index: string) => links[Number(index)]);
+};
+
+/**
+ * Render a personal message to HTML. Input is escaped before any formatting is
+ * applied, so user text can never inject tags or attributes.
+ */
+export const renderMessageHtml = (message: string): string => {
+  // U+E000 marks link placeholders, so it cannot come from the message itself
+  const blocks = message.replace(/\uE000/g, "").replace(/\r\n?/g, "\n").trim().split(/\n{2,}/);
+
+  return blocks
+    .filter((block) => block.trim().length > 0)
+    .map((block) => {
+      const lines = block.split("\n");
+
+      if (lines.every((line) => /^\s*[-*]\s+/.test(line))) {
+        const items = lines
+          .map((line) => `<li>${renderInline(escapeHtml(line.replace(/^\s*[-*]\s+/, "")))}</li>`)
+          .join("");
+        return `<ul>${items}</ul>`;
+      }
+
+      return `<p>${lines.map((line) => renderInline(escapeHtml(line))).join("<br>")}</p>`;
+    })
+    .join("");
+};
+
+/**
+ * A display name that is safe to put in an email header.
+ */
+export const sanitizeSenderName = (name: string): string => {
+  return name
+    .replace(/["<>\\]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, MAX_SENDER_NAME_LENGTH);
+};
+
+/**
+ * A subject line without header-breaking characters.
+ */
+export const sanitizeSubject = (subject: string): string => {
+  return subject.replace(/[\r\n]+/g, " ").trim().slice(0, MAX_SUBJECT_LENGTH);
+};
@@ -0,0 +1,74 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { RecurrenceRule, getNextOccurrence, getUpcomingOccurrences } from "./recurrence.ts";
+
+const iso = (dates: Date[]) => dates.map((date) => date.toISOString());
+
+Deno.test("a daily rule stays at the same local time across daylight saving changes", () => {
+  // 09:00 in New York, the day before clocks go forward
+  const rule: RecurrenceRule = { frequency: "daily", anchor: "2026-03-07T14:00:00Z" };
+
+  assertEquals(iso(getUpcomingOccurrences(rule, new Date(rule.anchor), 2, 1, "America/New_York")), [
+    "2026-03-08T13:00:00.000Z",
+    "2026-03-09T13:00:00.000Z",
+  ]);
+
+  // And back again when they go back
+  const autumn: RecurrenceRule = { frequency: "daily", anchor: "2026-10-31T13:00:00Z" };
+  assertEquals(iso(getUpcomingOccurrences(autumn, new Date(autumn.anchor), 2, 1, "America/New_York")), [
+    "2026-11-01T14:00:00.000Z",
+    "2026-11-02T14:00:00.000Z",
+  ]);
+});
+
+Deno.test("a rule at a skipped time delivers after the gap", () => {
+  // 02:30 does not exist in New York on 8 March 2026
+  const rule: RecurrenceRule = { frequency: "daily", anchor: "2026-03-07T07:30:00Z" };
+
+  assertEquals(
+    getNextOccurrence(rule, new Date(rule.anchor), 1, "America/New_York")?.toISOString(),
+    "2026-03-08T07:30:00.000Z"
+  );
+});
+
+Deno.test("a weekly rule is evaluated on the wall clock of its zone", () => {
+  // Mondays and Fridays at 23:30 in Tokyo, which is already the next day in UTC
+  const rule: RecurrenceRule = { frequency: "weekly", anchor: "2026-03-02T14:30:00Z", weekdays: [1, 5] };
+
+  assertEquals(iso(getUpcomingOccurrences(rule, new Date(rule.anchor), 2, 1, "Asia/Tokyo")), [
+    "2026-03-06T14:30:00.000Z",
+    "2026-03-09T14:30:00.000Z",
+  ]);
+});
+
+Deno.test("a series ends after count occurrences or at until", () => {
+  const anchor = "2026-01-01T09:00:00Z";
+
+  const counted: RecurrenceRule = { frequency: "daily", anchor, count: 3 };
+  assertEquals(getUpcomingOccurrences(counted, new Date(anchor), 10).length, 2);
+  assertEquals(getNextOccurrence(counted, new Date("2026-01-03T09:00:00Z"), 3), null);
+
+  const bounded: RecurrenceRule = { frequency: "daily", anchor, until: "2026-01-03T12:00:00Z" };
+  assertEquals(iso(getUpcomingOccurrences(bounded, new Date(anchor), 10)), [
+    "2026-01-02T09:00:00.000Z",
+    "2026-01-03T09:00:00.000Z",
+  ]);
+});
+
+Deno.test("a monthly rule falls back to the last day of shorter months", () => {
+  const rule: RecurrenceRule = { frequency: "monthly", anchor: "2026-01-31T09:00:00Z" };
+
+  assertEquals(iso(getUpcomingOccurrences(rule, new Date(rule.anchor), 2)), [
+    "2026-02-28T09:00:00.000Z",
+    "2026-03-31T09:00:00.000Z",
+  ]);
+});
+
+Deno.test("a cron rule uses local hours", () => {
+  const rule: RecurrenceRule = { frequency: "cron", anchor: "2026-03-06T00:00:00Z", cron: "0 9 * * 1-5" };
+
+  assertEquals(iso(getUpcomingOccurrences(rule, new Date(rule.anchor), 2, 1, "America/New_York")), [
+    "2026-03-06T14:00:00.000Z",
+    "2026-03-09T13:00:00.000Z",
+  ]);
+  assertEquals(getNextOccurrence({ ...rule, cron: "not a cron" }, new Date(rule.anchor)), null);
+});
@@ -0,0 +1,287 @@
+// Recurrence rules for repeating deliveries.
+//
+// This module has no dependencies so it can be used both by the edge functions
+// (Deno) and by the web app, which re-exports it from src/lib/recurrence.ts.
+// Rules are evaluated on the wall clock of a time zone, so "09:00 every
+// Monday" stays at 09:00 local time across daylight saving changes.
+
+import { WallClock, fromZonedWallClock, toZonedWallClock } from "./timezone.ts";
+
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly" | "cron";
+
+// A type alias rather than an interface so rules are assignable to JSON columns
+export type RecurrenceRule = {
+  frequency: RecurrenceFrequency;
+  /** First occurrence of the series; day and time of later occurrences derive from it */
+  anchor: string;
+  /** Repeat every N days, weeks or months (defaults to 1) */
+  interval?: number;
+  /** Weekly: days of the week to deliver on, 0 = Sunday (defaults to the anchor's day) */
+  weekdays?: number[];
+  /** Monthly: "day" repeats on the anchor's day of month, "weekday" on e.g. its first Monday */
+  monthlyMode?: "day" | "weekday";
+  /** Cron: five-field expression (minute hour day-of-month month day-of-week) */
+  cron?: string;
+  /** No occurrences after this instant (ISO string) */
+  until?: string | null;
+  /** Total number of occurrences in the series, including the first */
+  count?: number | null;
+};
+
+interface CronFields {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  months: Set<number>; // 1-12
+  daysOfWeek: Set<number>; // 0-6, Sunday = 0
+  restrictedDayOfMonth: boolean;
+  restrictedDayOfWeek: boolean;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+// How far ahead to look for the next occurrence before giving up
+const SEARCH_HORIZON_DAYS = 366 * 5;
+
+export const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const ORDINALS = ["first", "second", "third", "fourth", "last"];
+
+const dayNumber = (year: number, month: number, day: number): number => {
+  return Math.floor(Date.UTC(year, month, day) / MS_PER_DAY);
+};
+
+const weekdayOf = (year: number, month: number, day: number): number => {
+  return new Date(Date.UTC(year, month, day)).getUTCDay();
+};
+
+const daysInMonth = (year: number, month: number): number => {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+};
+
+// Position of a day within its month for "nth weekday" rules: 1-4, or 5 for the last one
+const weekOfMonth = (year: number, month: number, day: number): number => {
+  if (day + 7 > daysInMonth(year, month)) return 5;
+  return Math.ceil(day / 7);
+};
+
+const parseCronField = (field: string, min: number, max: number): number[] | null => {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) return null;
+
+    let start = min;
+    let end = max;
+    if (range !== "*") {
+      const [startText, endText] = range.split("-");
+      start = Number(startText);
+      end = endText === undefined ? (stepText === undefined ? start : max) : Number(endText);
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      return null;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return Array.from(values).sort((a, b) => a - b);
+};
+
+const parseCron = (expression: string): CronFields | null => {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) return null;
+
+  const minutes = parseCronField(parts[0], 0, 59);
+  const hours = parseCronField(parts[1], 0, 23);
+  const daysOfMonth = parseCronField(parts[2], 1, 31);
+  const months = parseCronField(parts[3], 1, 12);
+  const daysOfWeek = parseCronField(parts[4], 0, 7);
+
+  if (!minutes || !hours || !daysOfMonth || !months || !daysOfWeek) return null;
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth: new Set(daysOfMonth),
+    months: new Set(months),
+    // Both 0 and 7 mean Sunday
+    daysOfWeek: new Set(daysOfWeek.map((day) => day % 7)),
+    restrictedDayOfMonth: parts[2] !== "*",
+    restrictedDayOfWeek: parts[4] !== "*",
+  };
+};
+
+export const isValidCron = (expression: string): boolean => parseCron(expression) !== null;
+
+const matchesCronDay = (cron: CronFields, year: number, month: number, day: number): boolean => {
+  if (!cron.months.has(month + 1)) return false;
+
+  const domMatch = cron.daysOfMonth.has(day);
+  const dowMatch = cron.daysOfWeek.has(weekdayOf(year, month, day));
+
+  // Standard cron semantics: when both fields are restricted either may match
+  if (cron.restrictedDayOfMonth && cron.restrictedDayOfWeek) return domMatch || dowMatch;
+  if (cron.restrictedDayOfMonth) return domMatch;
+  if (cron.restrictedDayOfWeek) return dowMatch;
+  return true;
+};
+
+const matchesDay = (rule: RecurrenceRule, anchor: WallClock, year: number, month: number, day: number): boolean => {
+  const interval = Math.max(1, rule.interval || 1);
+
+  switch (rule.frequency) {
+    case "daily": {
+      const elapsed = dayNumber(year, month, day) - dayNumber(anchor.year, anchor.month, anchor.day);
+      return elapsed >= 0 && elapsed % interval === 0;
+    }
+    case "weekly": {
+      const weekday = weekdayOf(year, month, day);
+      const weekdays = rule.weekdays && rule.weekdays.length > 0
+        ? rule.weekdays
+        : [weekdayOf(anchor.year, anchor.month, anchor.day)];
+      if (!weekdays.includes(weekday)) return false;
+
+      // Compare the Sundays that start each week
+      const anchorWeekStart = dayNumber(anchor.year, anchor.month, anchor.day) - weekdayOf(anchor.year, anchor.month, anchor.day);
+      const weekStart = dayNumber(year, month, day) - weekday;
+      const elapsedWeeks = (weekStart - anchorWeekStart) / 7;
+      return elapsedWeeks >= 0 && elapsedWeeks % interval === 0;
+    }
+    case "monthly": {
+      const elapsedMonths = (year - anchor.year) * 12 + (month - anchor.month);
+      if (elapsedMonths < 0 || elapsedMonths % interval !== 0) return false;
+
+      if (rule.monthlyMode === "weekday") {
+        return weekdayOf(year, month, day) === weekdayOf(anchor.year, anchor.month, anchor.day) &&
+          weekOfMonth(year, month, day) === weekOfMonth(anchor.year, anchor.month, anchor.day);
+      }
+
+      // Months without the anchor's day (e.g. the 31st) deliver on their last day
+      return day === Math.min(anchor.day, daysInMonth(year, month));
+    }
+    default:
+      return false;
+  }
+};
+
+/**
+ * Find the first occurrence strictly after `after`, evaluated in `timeZone`.
+ * `occurrenceIndex` is the 1-based position of the occurrence at `after`, used
+ * to honour `count`. Returns null when the series has ended.
+ */
+export const getNextOccurrence = (
+  rule: RecurrenceRule,
+  after: Date,
+  occurrenceIndex = 1,
+  timeZone = "UTC"
+): Date | null => {
+  if (rule.count && occurrenceIndex >= rule.count) return null;
+
+  const anchorDate = new Date(rule.anchor);
+  if (isNaN(anchorDate.getTime())) return null;
+
+  const anchor = toZonedWallClock(anchorDate, timeZone);
+  const until = rule.until ? new Date(rule.until) : null;
+  const cron = rule.frequency === "cron" ? parseCron(rule.cron || "") : null;
+  if (rule.frequency === "cron" && !cron) return null;
+
+  const start = toZonedWallClock(after.getTime() < anchorDate.getTime() ? anchorDate : after, timeZone);
+
+  for (let offset = 0; offset <= SEARCH_HORIZON_DAYS; offset++) {
+    const date = new Date(Date.UTC(start.year, start.month, start.day + offset));
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth();
+    const day = date.getUTCDate();
+
+    const times = cron
+      ? (matchesCronDay(cron, year, month, day)
+        ? cron.hours.flatMap((hour) => cron.minutes.map((minute) => ({ hour, minute })))
+        : [])
+      : (matchesDay(rule, anchor, year, month, day) ? [{ hour: anchor.hour, minute: anchor.minute }] : []);
+
+    for (const { hour, minute } of times) {
+      const candidate = fromZonedWallClock({ year, month, day, hour, minute }, timeZone);
+      if (candidate.getTime() <= after.getTime()) continue;
+      if (until && candidate.getTime() > until.getTime()) return null;
+      return candidate;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * List up to `limit` occurrences following `after`.
+ */
+export const getUpcomingOccurrences = (
+  rule: RecurrenceRule,
+  after: Date,
+  limit: number,
+  occurrenceIndex = 1,
+  timeZone = "UTC"
+): Date[] => {
+  const occurrences: Date[] = [];
+  let current = after;
+  let index = occurrenceIndex;
+
+  while (occurrences.length < limit) {
+    const next = getNextOccurrence(rule, current, index, timeZone);
+    if (!next) break;
+    occurrences.push(next);
+    current = next;
+    index++;
+  }
+
+  return occurrences;
+};
+
+/**
+ * Human readable summary, e.g. "Every month on the first Monday".
+ */
+export const describeRecurrence = (rule: RecurrenceRule, timeZone = "UTC"): string => {
+  const interval = Math.max(1, rule.interval || 1);
+  const anchor = toZonedWallClock(new Date(rule.anchor), timeZone);
+  let description: string;
+
+  switch (rule.frequency) {
+    case "daily":
+      description = interval === 1 ? "Every day" : `Every ${interval} days`;
+      break;
+    case "weekly": {
+      const weekdays = rule.weekdays && rule.weekdays.length > 0
+        ? rule.weekdays
+        : [weekdayOf(anchor.year, anchor.month, anchor.day)];
+      const names = [...weekdays].sort().map((day) => WEEKDAY_NAMES[day].slice(0, 3)).join(", ");
+      description = `${interval === 1 ? "Every week" : `Every ${interval} weeks`} on ${names}`;
+      break;
+    }
+    case "monthly": {
+      const every = interval === 1 ? "Every month" : `Every ${interval} months`;
+      if (rule.monthlyMode === "weekday") {
+        const ordinal = ORDINALS[weekOfMonth(anchor.year, anchor.month, anchor.day) - 1];
+        const weekday = WEEKDAY_NAMES[weekdayOf(anchor.year, anchor.month, anchor.day)];
+        description = `${every} on the ${ordinal} ${weekday}`;
+      } else {
+        description = `${every} on day ${anchor.day}`;
+      }
+      break;
+    }
+    case "cron":
+      description = `Custom schedule (${rule.cron})`;
+      break;
+    default:
+      description = "Repeats";
+  }
+
+  if (rule.count) {
+    description += `, ${rule.count} times`;
+  } else if (rule.until) {
+    description += `, until ${new Date(rule.until).toISOString().slice(0, 10)}`;
+  }
+
+  return description;
+};
@@ -0,0 +1,34 @@
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { DEFAULT_RETRY_POLICY, getRetryDelaySeconds, isTransientDeliveryError } from "./retry.ts";
+
+Deno.test("isTransientDeliveryError retries rate limits, timeouts and server errors", () => {
+  for (const statusCode of [408, 429, 500, 503]) {
+    assert(isTransientDeliveryError({ statusCode, message: "" }), `${statusCode} should be retried`);
+  }
+  for (const statusCode of [400, 401, 403, 422]) {
+    assert(!isTransientDeliveryError({ statusCode, message: "" }), `${statusCode} should not be retried`);
+  }
+});
+
+Deno.test("isTransientDeliveryError goes by the SMTP reply for transport failures", () => {
+  assert(isTransientDeliveryError({ statusCode: 502, message: "421 4.7.0 Try again later" }));
+  assert(isTransientDeliveryError({ statusCode: 502, message: "451 4.3.0 Mail server temporarily rejected message" }));
+  assert(!isTransientDeliveryError({ statusCode: 502, message: "550 5.1.1 The email account does not exist" }));
+  assert(!isTransientDeliveryError({ statusCode: 502, message: "Rejected: 5.7.1 relay denied" }));
+  // No reply at all, e.g. the connection dropped
+  assert(isTransientDeliveryError({ statusCode: 502, message: "Connection reset" }));
+});
+
+Deno.test("getRetryDelaySeconds backs off exponentially within half of the delay", () => {
+  assertEquals(getRetryDelaySeconds(1, DEFAULT_RETRY_POLICY, () => 0), 30);
+  assertEquals(getRetryDelaySeconds(1, DEFAULT_RETRY_POLICY, () => 1), 60);
+  assertEquals(getRetryDelaySeconds(3, DEFAULT_RETRY_POLICY, () => 1), 240);
+  // Capped at an hour
+  assertEquals(getRetryDelaySeconds(20, DEFAULT_RETRY_POLICY, () => 0), 1800);
+  assertEquals(getRetryDelaySeconds(20, DEFAULT_RETRY_POLICY, () => 1), 3600);
+
+  for (let attempt = 1; attempt <= DEFAULT_RETRY_POLICY.maxAttempts; attempt++) {
+    const delay = getRetryDelaySeconds(attempt);
+    assert(delay >= 30 && delay <= DEFAULT_RETRY_POLICY.maxDelaySeconds, `${delay}s for attempt ${attempt}`);
+  }
+});
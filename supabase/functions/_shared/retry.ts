@@ -0,0 +1,59 @@
+// Retry policy for failed email deliveries.
+
+export interface RetryPolicy {
+  /** Attempts in total, including the first one */
+  maxAttempts: number;
+  /** Delay before the first retry, in seconds */
+  baseDelaySeconds: number;
+  /** Upper bound for any single delay, in seconds */
+  maxDelaySeconds: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 5,
+  baseDelaySeconds: 60,
+  maxDelaySeconds: 60 * 60,
+};
+
+export interface DeliveryError {
+  statusCode: number;
+  message: string;
+}
+
+// SMTP replies carry their own codes in the message, e.g. "550 5.1.1 unknown user"
+const SMTP_PERMANENT = /\b5\d\d\b|\b5\.\d{1,3}\.\d{1,3}\b/;
+const SMTP_TRANSIENT = /\b4\d\d\b|\b4\.\d{1,3}\.\d{1,3}\b/;
+
+/**
+ * Whether a failed send is worth trying again. Timeouts, rate limits and
+ * server errors usually clear up; a rejected address or a bad request fails
+ * the same way every time.
+ */
+export function isTransientDeliveryError(error: DeliveryError): boolean {
+  const { statusCode, message = "" } = error;
+
+  if (statusCode === 502) {
+    // The SMTP transport reports every failure as 502; the reply code decides
+    if (SMTP_TRANSIENT.test(message)) return true;
+    if (SMTP_PERMANENT.test(message)) return false;
+    return true;
+  }
+
+  if (statusCode === 408 || statusCode === 429) return true;
+  return statusCode >= 500;
+}
+
+/**
+ * Delay before retry number `attempt` (1 for the first retry): exponential
+ * backoff, capped, with half of it randomised so that deliveries failing
+ * together do not all come back at the same moment.
+ */
+export function getRetryDelaySeconds(
+  attempt: number,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  random: () => number = Math.random
+): number {
+  const exponential = policy.baseDelaySeconds * Math.pow(2, Math.max(0, attempt - 1));
+  const capped = Math.min(policy.maxDelaySeconds, exponential);
+  return Math.round(capped / 2 + random() * (capped / 2));
+}
@@ -0,0 +1,40 @@
+import { assertEquals, assertThrows } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { createScanner } from "./scanner.ts";
+
+const EICAR = "X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*";
+
+const envOf = (values: Record<string, string>) => ({ get: (key: string) => values[key] });
+
+const streamOf = (...chunks: string[]) => {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(new TextEncoder().encode(chunk));
+      }
+      controller.close();
+    },
+  });
+};
+
+Deno.test("the stub scanner finds the EICAR test file, also across chunks", async () => {
+  const scanner = createScanner({ env: envOf({ SCANNER: "stub" }) });
+  assertEquals(scanner.name, "stub");
+
+  const infected = { infected: true, signature: "Eicar-Test-Signature" };
+  assertEquals(await scanner.scan(streamOf(EICAR)), infected);
+  assertEquals(await scanner.scan(streamOf("some text before ", EICAR.slice(0, 20), EICAR.slice(20, 21), EICAR.slice(21))), infected);
+});
+
+Deno.test("the stub scanner passes anything else", async () => {
+  const scanner = createScanner({ env: envOf({ SCANNER: "STUB" }) });
+
+  assertEquals(await scanner.scan(streamOf()), { infected: false, signature: null });
+  assertEquals(await scanner.scan(streamOf("hello ", EICAR.slice(0, -1))), { infected: false, signature: null });
+});
+
+Deno.test("createScanner rejects unknown drivers and invalid settings", () => {
+  assertEquals(createScanner({ env: envOf({}) }).name, "clamd");
+  assertThrows(() => createScanner({ env: envOf({ SCANNER: "virustotal" }) }), Error, "Unknown SCANNER");
+  assertThrows(() => createScanner({ env: envOf({ CLAMD_PORT: "clamd" }) }), Error, "Invalid CLAMD_PORT");
+  assertThrows(() => createScanner({ env: envOf({ SCANNER: "clamd", CLAMD_PORT: "-1" }) }), Error, "Invalid CLAMD_PORT");
+});
@@ -0,0 +1,192 @@
+// Malware scanners for the edge functions.
+//
+// SCANNER selects the driver:
+//   clamd (default)  a ClamAV daemon over TCP, at CLAMD_HOST (default
+//                    localhost) and CLAMD_PORT (default 3310)
+//   stub             finds nothing but the EICAR test file, without any
+//                    scanner running (dev and tests)
+
+import { writeAll } from "https://deno.land/std@0.168.0/streams/write_all.ts";
+
+export interface ScanVerdict {
+  infected: boolean;
+  /** Name of what was found, e.g. "Win.Test.EICAR_HDB-1" */
+  signature: string | null;
+}
+
+export interface Scanner {
+  name: "clamd" | "stub";
+  /** Throws when the content could not be scanned */
+  scan(content: ReadableStream<Uint8Array>): Promise<ScanVerdict>;
+}
+
+interface ScannerOptions {
+  /** Defaults to the function's environment */
+  env?: { get(key: string): string | undefined };
+}
+
+// clamd takes the stream in chunks of at most this many bytes
+const CLAMD_CHUNK_SIZE = 64 * 1024;
+// How long clamd may go without taking data or answering
+const CLAMD_TIMEOUT_MS = 120000;
+
+const EICAR_SIGNATURE = new TextEncoder().encode(
+  "X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*"
+);
+
+const indexOfBytes = (haystack: Uint8Array, needle: Uint8Array): number => {
+  outer: for (let i = 0; i + needle.length <= haystack.length; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (haystack[i + j] !== needle[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+};
+
+/**
+ * ClamAV daemon, using the INSTREAM command: the content goes over the socket
+ * as length-prefixed chunks and clamd answers with one line, e.g.
+ * "stream: OK" or "stream: Win.Test.EICAR_HDB-1 FOUND".
+ */
+function createClamdScanner(hostname: string, port: number): Scanner {
+  return {
+    name: "clamd",
+    async scan(content) {
+      const conn = await Deno.connect({ hostname, port });
+      // A daemon that stops answering must not hold the scan up forever;
+      // large files take a while, so the clock restarts with every chunk
+      let timer = setTimeout(() => conn.close(), CLAMD_TIMEOUT_MS);
+      const restartTimer = () => {
+        clearTimeout(timer);
+        timer = setTimeout(() => conn.close(), CLAMD_TIMEOUT_MS);
+      };
+
+      try {
+        await writeAll(conn, new TextEncoder().encode("zINSTREAM\0"));
+
+        const header = new Uint8Array(4);
+        const headerView = new DataView(header.buffer);
+        const reader = content.getReader();
+        try {
+          while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            for (let offset = 0; offset < value.length; offset += CLAMD_CHUNK_SIZE) {
+              const chunk = value.subarray(offset, offset + CLAMD_CHUNK_SIZE);
+              headerView.setUint32(0, chunk.length);
+              await writeAll(conn, header);
+              await writeAll(conn, chunk);
+              restartTimer();
+            }
+          }
+        } finally {
+          reader.releaseLock();
+        }
+
+        // A zero-length chunk ends the stream
+        headerView.setUint32(0, 0);
+        await writeAll(conn, header);
+        restartTimer();
+
+        const reply = await readReply(conn);
+        console.log(`clamd replied: ${reply}`);
+
+        if (reply.endsWith(" FOUND")) {
+          const signature = reply.replace(/^stream: /, "").replace(/ FOUND$/, "");
+          return { infected: true, signature };
+        }
+        if (reply.endsWith(" OK")) {
+          return { infected: false, signature: null };
+        }
+        // e.g. "INSTREAM size limit exceeded. ERROR"
+        throw new Error(`clamd could not scan the file: ${reply}`);
+      } finally {
+        clearTimeout(timer);
+        try {
+          conn.close();
+        } catch {
+          // Already closed by the timeout
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Read clamd's reply, which ends with a NUL byte in the "z" command mode
+ */
+async function readReply(conn: Deno.Conn): Promise<string> {
+  const buffer = new Uint8Array(1024);
+  let reply = new Uint8Array(0);
+
+  while (true) {
+    const read = await conn.read(buffer);
+    if (read === null) break;
+    const joined = new Uint8Array(reply.length + read);
+    joined.set(reply);
+    joined.set(buffer.subarray(0, read), reply.length);
+    reply = joined;
+    if (reply.includes(0)) break;
+  }
+
+  const end = reply.indexOf(0);
+  return new TextDecoder().decode(end === -1 ? reply : reply.subarray(0, end)).trim();
+}
+
+/**
+ * Flags the EICAR test file anywhere in the content and passes everything else
+ */
+function createStubScanner(): Scanner {
+  return {
+    name: "stub",
+    async scan(content) {
+      const reader = content.getReader();
+      // Keep the end of the previous chunk so a match across chunks is found
+      let tail = new Uint8Array(0);
+
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+
+          const window = new Uint8Array(tail.length + value.length);
+          window.set(tail);
+          window.set(value, tail.length);
+
+          if (indexOfBytes(window, EICAR_SIGNATURE) !== -1) {
+            await reader.cancel();
+            return { infected: true, signature: "Eicar-Test-Signature" };
+          }
+          tail = window.slice(Math.max(0, window.length - EICAR_SIGNATURE.length + 1));
+        }
+      } finally {
+        reader.releaseLock();
+      }
+
+      return { infected: false, signature: null };
+    },
+  };
+}
+
+/**
+ * Build the scanner chosen by SCANNER. Throws when its settings are invalid.
+ */
+export function createScanner(options: ScannerOptions = {}): Scanner {
+  const env = options.env || Deno.env;
+  const driver = (env.get("SCANNER") || "clamd").toLowerCase();
+
+  switch (driver) {
+    case "clamd": {
+      const port = Number(env.get("CLAMD_PORT") || 3310);
+      if (!Number.isInteger(port) || port <= 0) {
+        throw new Error(`Invalid CLAMD_PORT: ${env.get("CLAMD_PORT")}`);
+      }
+      return createClamdScanner(env.get("CLAMD_HOST") || "localhost", port);
+    }
+    case "stub":
+      return createStubScanner();
+    default:
+      throw new Error(`Unknown SCANNER: ${driver}`);
+  }
+}
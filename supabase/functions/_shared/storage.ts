@@ -0,0 +1,31 @@
+// Read stored files from the edge functions as streams. The client library's
+// download() buffers the whole object in a Blob, which multi-GB uploads do
+// not fit into.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+
+// The URL only has to last until the response starts
+const READ_URL_SECONDS = 60;
+
+/**
+ * Open a file in the timecapsule bucket for reading
+ */
+export async function openStoredFile(supabaseClient: SupabaseClient, storagePath: string): Promise<ReadableStream<Uint8Array>> {
+  const { data, error } = await supabaseClient
+    .storage
+    .from("timecapsule")
+    .createSignedUrl(storagePath, READ_URL_SECONDS);
+
+  if (error || !data) {
+    throw new Error(`Failed to open ${storagePath}: ${error?.message || "no URL"}`);
+  }
+
+  const response = await fetch(data.signedUrl);
+
+  if (!response.ok || !response.body) {
+    await response.body?.cancel();
+    throw new Error(`Failed to read ${storagePath}: ${response.status} ${response.statusText}`);
+  }
+
+  return response.body;
+}
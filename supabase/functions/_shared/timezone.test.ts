@@ -0,0 +1,33 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { fromZonedWallClock, shiftToTimeZone, toZonedWallClock } from "./timezone.ts";
+
+Deno.test("fromZonedWallClock moves a skipped time past the spring-forward gap", () => {
+  // Clocks in New York went from 02:00 EST to 03:00 EDT on 8 March 2026
+  const instant = fromZonedWallClock({ year: 2026, month: 2, day: 8, hour: 2, minute: 30 }, "America/New_York");
+
+  assertEquals(instant.toISOString(), "2026-03-08T07:30:00.000Z");
+  assertEquals(toZonedWallClock(instant, "America/New_York"), { year: 2026, month: 2, day: 8, hour: 3, minute: 30 });
+});
+
+Deno.test("fromZonedWallClock takes the earlier of a repeated time when clocks go back", () => {
+  // 01:30 happened twice in New York on 1 November 2026, first in EDT
+  const instant = fromZonedWallClock({ year: 2026, month: 10, day: 1, hour: 1, minute: 30 }, "America/New_York");
+
+  assertEquals(instant.toISOString(), "2026-11-01T05:30:00.000Z");
+});
+
+Deno.test("fromZonedWallClock round-trips ordinary times", () => {
+  const wall = { year: 2026, month: 6, day: 15, hour: 9, minute: 5 };
+
+  assertEquals(fromZonedWallClock(wall, "Europe/Berlin").toISOString(), "2026-07-15T07:05:00.000Z");
+  assertEquals(fromZonedWallClock(wall, "Asia/Kolkata").toISOString(), "2026-07-15T03:35:00.000Z");
+  assertEquals(toZonedWallClock(fromZonedWallClock(wall, "Australia/Sydney"), "Australia/Sydney"), wall);
+});
+
+Deno.test("shiftToTimeZone keeps the wall clock time", () => {
+  // 09:00 in New York to 09:00 in London, a week apart in their DST changes
+  const newYork = new Date("2026-03-10T13:00:00Z");
+
+  assertEquals(shiftToTimeZone(newYork, "America/New_York", "Europe/London").toISOString(), "2026-03-10T09:00:00.000Z");
+  assertEquals(shiftToTimeZone(newYork, "UTC", "UTC"), newYork);
+});
@@ -0,0 +1,125 @@
+// IANA time zone helpers built on Intl, shared by the edge functions and the
+// web app (re-exported from src/lib/timezone.ts).
+
+export interface WallClock {
+  year: number;
+  month: number; // 0-11
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Calendar date and time shown on a clock in `timeZone` at `date`.
+ */
+export const toZonedWallClock = (date: Date, timeZone: string): WallClock => {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+
+  return {
+    year: parts.year,
+    month: parts.month - 1,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+  };
+};
+
+// Offset of the zone from UTC at `instant`, in milliseconds
+const getOffset = (instant: number, timeZone: string): number => {
+  const wall = toZonedWallClock(new Date(instant), timeZone);
+  const wallAsUtc = Date.UTC(wall.year, wall.month, wall.day, wall.hour, wall.minute);
+  return wallAsUtc - Math.floor(instant / 60000) * 60000;
+};
+
+const sameWallClock = (a: WallClock, b: WallClock): boolean => {
+  return a.year === b.year && a.month === b.month && a.day === b.day &&
+    a.hour === b.hour && a.minute === b.minute;
+};
+
+/**
+ * The instant at which clocks in `timeZone` show `wall`.
+ *
+ * Around daylight saving transitions: a time that occurs twice (clocks going
+ * back) resolves to the earlier instant, and a time that is skipped (clocks
+ * going forward) moves forward by the length of the gap, so 02:30 on a
+ * spring-forward night becomes 03:30.
+ */
+export const fromZonedWallClock = (wall: WallClock, timeZone: string): Date => {
+  const wallAsUtc = Date.UTC(wall.year, wall.month, wall.day, wall.hour, wall.minute);
+  const offsetBefore = getOffset(wallAsUtc - 12 * MS_PER_HOUR, timeZone);
+  const offsetAfter = getOffset(wallAsUtc + 12 * MS_PER_HOUR, timeZone);
+
+  const candidates = [wallAsUtc - offsetBefore, wallAsUtc - offsetAfter]
+    .filter((instant) => sameWallClock(toZonedWallClock(new Date(instant), timeZone), wall))
+    .sort((a, b) => a - b);
+
+  if (candidates.length > 0) {
+    return new Date(candidates[0]);
+  }
+
+  // Skipped wall time: applying the offset from before the jump lands after it
+  return new Date(wallAsUtc - offsetBefore);
+};
+
+/**
+ * Move an instant to the same wall clock time in another zone, e.g. 09:00 in
+ * the sender's zone to 09:00 in the recipient's zone.
+ */
+export const shiftToTimeZone = (date: Date, fromTimeZone: string, toTimeZone: string): Date => {
+  if (fromTimeZone === toTimeZone) return date;
+  return fromZonedWallClock(toZonedWallClock(date, fromTimeZone), toTimeZone);
+};
+
+/**
+ * The zone the current runtime is configured for, falling back to UTC.
+ */
+export const getLocalTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+  } catch {
+    return "UTC";
+  }
+};
+
+/**
+ * All IANA zones known to the runtime, with UTC first.
+ */
+export const getSupportedTimeZones = (): string[] => {
+  const intl = Intl as unknown as { supportedValuesOf?: (key: string) => string[] };
+  const zones = intl.supportedValuesOf ? intl.supportedValuesOf("timeZone") : [getLocalTimeZone()];
+  return ["UTC", ...zones.filter((zone) => zone !== "UTC")];
+};
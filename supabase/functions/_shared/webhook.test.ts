@@ -0,0 +1,72 @@
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { SIGNATURE_TOLERANCE_SECONDS, parseResendEvent, verifyWebhookSignature } from "./webhook.ts";
+
+const SECRET = `whsec_${btoa("0123456789abcdef0123456789abcdef")}`;
+const NOW = new Date("2026-10-18T12:00:00Z");
+const BODY = JSON.stringify({ type: "email.delivered", data: { email_id: "abc" } });
+
+// Signs the way Svix does
+const sign = async (secret: string, id: string, timestamp: string, body: string) => {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    Uint8Array.from(atob(secret.replace(/^whsec_/, "")), (char) => char.charCodeAt(0)),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = new Uint8Array(await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(`${id}.${timestamp}.${body}`)));
+  return `v1,${btoa(String.fromCharCode(...signature))}`;
+};
+
+const signedHeaders = async (secret = SECRET, sentAt = NOW) => {
+  const timestamp = String(Math.floor(sentAt.getTime() / 1000));
+  return { id: "msg_1", timestamp, signature: await sign(secret, "msg_1", timestamp, BODY) };
+};
+
+Deno.test("verifyWebhookSignature accepts a valid signature", async () => {
+  const headers = await signedHeaders();
+
+  assert(await verifyWebhookSignature(SECRET, headers, BODY, NOW));
+  // One match among several (during secret rotation) is enough
+  assert(await verifyWebhookSignature(SECRET, { ...headers, signature: `v1,bm9wZQ== ${headers.signature}` }, BODY, NOW));
+});
+
+Deno.test("verifyWebhookSignature rejects a changed body or another secret", async () => {
+  const headers = await signedHeaders();
+  const otherSecret = `whsec_${btoa("another secret of some length...")}`;
+
+  assert(!await verifyWebhookSignature(SECRET, headers, BODY.replace("delivered", "bounced"), NOW));
+  assert(!await verifyWebhookSignature(SECRET, { ...headers, id: "msg_2" }, BODY, NOW));
+  assert(!await verifyWebhookSignature(SECRET, await signedHeaders(otherSecret), BODY, NOW));
+  assert(!await verifyWebhookSignature(SECRET, { ...headers, signature: headers.signature.replace("v1,", "v2,") }, BODY, NOW));
+});
+
+Deno.test("verifyWebhookSignature rejects stale, missing or unusable headers", async () => {
+  const stale = new Date(NOW.getTime() - (SIGNATURE_TOLERANCE_SECONDS + 1) * 1000);
+  const headers = await signedHeaders();
+
+  assert(!await verifyWebhookSignature(SECRET, await signedHeaders(SECRET, stale), BODY, NOW));
+  assert(!await verifyWebhookSignature(SECRET, { ...headers, timestamp: "soon" }, BODY, NOW));
+  assert(!await verifyWebhookSignature(SECRET, { ...headers, signature: null }, BODY, NOW));
+  assert(!await verifyWebhookSignature(SECRET, { ...headers, id: null }, BODY, NOW));
+  assert(!await verifyWebhookSignature("whsec_not base64!", headers, BODY, NOW));
+});
+
+Deno.test("parseResendEvent maps delivery events and ignores the rest", () => {
+  assertEquals(parseResendEvent({
+    type: "email.bounced",
+    created_at: "2026-10-18T12:00:00Z",
+    data: { email_id: "abc", bounce: { message: "Mailbox does not exist", type: "Permanent", subType: "General" } },
+  }), {
+    type: "bounced",
+    emailId: "abc",
+    reason: "Mailbox does not exist (Permanent/General)",
+    occurredAt: new Date("2026-10-18T12:00:00Z"),
+  });
+  assertEquals(parseResendEvent({ type: "email.delivery_delayed", data: { email_id: "abc" } })?.type, "deferred");
+
+  assertEquals(parseResendEvent({ type: "email.opened", data: { email_id: "abc" } }), null);
+  assertEquals(parseResendEvent({ type: "email.delivered", data: {} }), null);
+  assertEquals(parseResendEvent("email.delivered"), null);
+  assertEquals(parseResendEvent(null), null);
+});
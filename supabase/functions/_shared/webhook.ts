@@ -0,0 +1,133 @@
+// Email provider webhooks: signature checks and event mapping.
+//
+// Resend signs its webhooks the Svix way: an HMAC-SHA256 over
+// "<svix-id>.<svix-timestamp>.<body>" with the endpoint secret ("whsec_..."),
+// sent base64-encoded in the svix-signature header as "v1,<signature>".
+
+export type DeliveryEventType = "delivered" | "bounced" | "complained" | "deferred";
+
+export interface DeliveryEvent {
+  type: DeliveryEventType;
+  emailId: string;
+  reason: string | null;
+  occurredAt: Date;
+}
+
+export interface WebhookHeaders {
+  id: string | null;
+  timestamp: string | null;
+  signature: string | null;
+}
+
+/** Signed messages older or newer than this are refused, against replays */
+export const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+const RESEND_EVENT_TYPES: Record<string, DeliveryEventType> = {
+  "email.delivered": "delivered",
+  "email.bounced": "bounced",
+  "email.complained": "complained",
+  "email.delivery_delayed": "deferred",
+};
+
+function decodeBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function encodeBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+// Compare without returning early, so timing says nothing about the signature
+function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+/**
+ * Check that a webhook body was signed with the endpoint secret and is
+ * recent. The header may carry several signatures (during secret rotation);
+ * one match is enough.
+ */
+export async function verifyWebhookSignature(
+  secret: string,
+  headers: WebhookHeaders,
+  body: string,
+  now: Date = new Date()
+): Promise<boolean> {
+  const { id, timestamp, signature } = headers;
+  if (!id || !timestamp || !signature) return false;
+
+  const sentAt = Number(timestamp);
+  if (!Number.isFinite(sentAt) || Math.abs(now.getTime() / 1000 - sentAt) > SIGNATURE_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  let key: CryptoKey;
+  try {
+    key = await crypto.subtle.importKey(
+      "raw",
+      decodeBase64(secret.replace(/^whsec_/, "")),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign"]
+    );
+  } catch (_error) {
+    console.error("Webhook secret is not valid base64");
+    return false;
+  }
+
+  const signed = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(`${id}.${timestamp}.${body}`));
+  const expected = encodeBase64(new Uint8Array(signed));
+
+  return signature
+    .split(" ")
+    .map((entry) => entry.split(","))
+    .some(([version, value]) => version === "v1" && !!value && constantTimeEqual(value, expected));
+}
+
+/**
+ * Turn a Resend webhook payload into a delivery event. Returns null for
+ * event types that say nothing about delivery (sent, opened, clicked).
+ */
+export function parseResendEvent(payload: unknown): DeliveryEvent | null {
+  if (!payload || typeof payload !== "object") return null;
+
+  const { type, created_at, data } = payload as {
+    type?: string;
+    created_at?: string;
+    data?: { email_id?: string; bounce?: { message?: string; type?: string; subType?: string } };
+  };
+
+  const eventType = type ? RESEND_EVENT_TYPES[type] : undefined;
+  if (!eventType || !data?.email_id) return null;
+
+  let reason: string | null = null;
+  if (eventType === "bounced" && data.bounce) {
+    const kind = [data.bounce.type, data.bounce.subType].filter(Boolean).join("/");
+    reason = [data.bounce.message, kind ? `(${kind})` : ""].filter(Boolean).join(" ") || null;
+  } else if (eventType === "complained") {
+    reason = "The recipient marked the email as spam";
+  }
+
+  const occurredAt = created_at ? new Date(created_at) : new Date();
+
+  return {
+    type: eventType,
+    emailId: data.email_id,
+    reason,
+    occurredAt: isNaN(occurredAt.getTime()) ? new Date() : occurredAt,
+  };
+}
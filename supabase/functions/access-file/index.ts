@@ -0,0 +1,284 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+import { TokenAccess, recordAccessEvent, resolveAccessToken } from "../_shared/access.ts";
+
+// Create a Supabase client with the auth role of service_role
+const supabaseClient = createClient(
+  Deno.env.get("SUPABASE_URL") || "https://limzhusojiirnsefkupe.supabase.co",
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "",
+  {
+    auth: { persistSession: false },
+  }
+);
+
+// CORS headers for all responses
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Download links are handed out one at a time and are only good for a minute
+const DOWNLOAD_URL_SECONDS = 60;
+const PREVIEW_URL_SECONDS = 5 * 60;
+
+interface AccessRequest {
+  action?: "open" | "download";
+  token?: string;
+  passphrase?: string;
+  fileId?: string;
+}
+
+interface AccessRow {
+  state: string;
+  link_expires_at: string | null;
+  downloads_remaining: number | null;
+  passphrase_required: boolean;
+}
+
+interface ItemRow {
+  id: string;
+  file_name: string;
+  file_type: string;
+  file_size: number;
+  storage_path: string;
+  sha256: string | null;
+}
+
+/**
+ * Remember when a recipient last opened their link and log the view
+ */
+async function recordAccess(access: TokenAccess, req: Request) {
+  await recordAccessEvent(supabaseClient, access, "viewed", req);
+
+  if (!access.recipientId) return;
+
+  const { error } = await supabaseClient
+    .from("delivery_recipients")
+    .update({ last_accessed_at: new Date().toISOString() })
+    .eq("id", access.recipientId);
+
+  if (error) {
+    console.error(`Error recording access for recipient ${access.recipientId}:`, error);
+  }
+}
+
+/**
+ * What the recipient page may show for a token: the files, the sender's note
+ * and the state of the link, but nothing about other recipients
+ */
+async function openDelivery(req: Request, token: string, access: TokenAccess, passphrase?: string) {
+  const { file } = access;
+
+  const { data: accessRow, error: accessError } = await supabaseClient
+    .rpc("get_file_access_by_token", { token })
+    .single();
+
+  if (accessError || !accessRow) {
+    throw new Error(`Failed to check access: ${accessError?.message || "no result"}`);
+  }
+
+  const link = accessRow as AccessRow;
+  const details = {
+    fileName: file.file_name,
+    fileType: file.file_type,
+    files: [] as { id: string; name: string; type: string; size: number; sha256: string | null }[],
+    senderName: file.sender_name,
+    personalMessage: file.personal_message,
+    accessState: link.state,
+    availableAt: access.availableAt.toISOString(),
+    linkExpiresAt: link.link_expires_at,
+    downloadsRemaining: link.downloads_remaining,
+    passphrase: link.passphrase_required ? "required" : "not_required",
+    previewUrl: null as string | null,
+    // The page decrypts in the browser; the key itself never reaches us
+    encryptionKeyCheck: file.encryption_key_check,
+  };
+
+  if (access.availableAt > new Date()) {
+    // Before the scheduled moment the recipient only learns that something is
+    // on its way and when it opens
+    details.accessState = "scheduled";
+    details.fileName = "";
+    details.fileType = "";
+    details.personalMessage = null;
+    if (link.passphrase_required) {
+      details.senderName = null;
+    }
+  }
+
+  if (details.accessState !== "ok") {
+    if (details.accessState === "expired") {
+      await recordAccessEvent(supabaseClient, access, "expired", req);
+    }
+    return details;
+  }
+
+  if (link.passphrase_required) {
+    // Nothing about the contents is shown until the passphrase checks out
+    details.senderName = null;
+    details.personalMessage = null;
+
+    if (!passphrase) {
+      return details;
+    }
+
+    const { data: result, error: verifyError } = await supabaseClient
+      .rpc("verify_delivery_passphrase", { token, passphrase });
+
+    if (verifyError) {
+      throw new Error(`Failed to check passphrase: ${verifyError.message}`);
+    }
+
+    if (result !== "ok") {
+      await recordAccessEvent(supabaseClient, access, "failed_passphrase", req);
+      details.passphrase = result === "locked" ? "locked" : "invalid";
+      return details;
+    }
+
+    details.passphrase = "accepted";
+    details.senderName = file.sender_name;
+    details.personalMessage = file.personal_message;
+  }
+
+  const { data: items, error: itemsError } = await supabaseClient
+    .rpc("get_scheduled_file_items_by_token", { token, passphrase });
+
+  if (itemsError) {
+    throw new Error(`Failed to load files: ${itemsError.message}`);
+  }
+
+  details.files = (items as ItemRow[] || []).map((item) => ({
+    id: item.id,
+    name: item.file_name,
+    type: item.file_type,
+    size: item.file_size,
+    sha256: item.sha256,
+  }));
+
+  // A preview would bypass the download count, so limited links get none
+  const first = (items as ItemRow[] || [])[0];
+  if (first && details.downloadsRemaining === null && first.file_type.includes("image")) {
+    const { data: preview } = await supabaseClient
+      .storage
+      .from("timecapsule")
+      .createSignedUrl(first.storage_path, PREVIEW_URL_SECONDS);
+    details.previewUrl = preview?.signedUrl || null;
+  }
+
+  await recordAccess(access, req);
+  return details;
+}
+
+/**
+ * Count a download and hand out a short-lived URL for one file
+ */
+async function issueDownloadUrl(req: Request, token: string, access: TokenAccess, fileId: string, passphrase?: string) {
+  if (access.availableAt > new Date()) {
+    return { state: "scheduled", url: null };
+  }
+
+  // Check the file first so a wrong id does not use up one of the downloads
+  const { data: item, error: itemError } = await supabaseClient
+    .from("scheduled_file_items")
+    .select("id, file_name, storage_path")
+    .eq("id", fileId)
+    .eq("scheduled_file_id", access.file.id)
+    .maybeSingle();
+
+  if (itemError) {
+    throw new Error(`Failed to load file: ${itemError.message}`);
+  }
+
+  if (!item) {
+    return { state: "not_found", url: null };
+  }
+
+  const { data: state, error } = await supabaseClient
+    .rpc("register_file_download", { token, passphrase });
+
+  if (error) {
+    throw new Error(`Failed to register download: ${error.message}`);
+  }
+
+  if (state !== "ok") {
+    if (state === "invalid_passphrase" || state === "locked") {
+      await recordAccessEvent(supabaseClient, access, "failed_passphrase", req);
+    } else if (state === "expired") {
+      await recordAccessEvent(supabaseClient, access, "expired", req);
+    }
+    return { state, url: null };
+  }
+
+  const { data, error: urlError } = await supabaseClient
+    .storage
+    .from("timecapsule")
+    .createSignedUrl(item.storage_path, DOWNLOAD_URL_SECONDS, { download: item.file_name });
+
+  if (urlError || !data) {
+    throw new Error(`Failed to create download link: ${urlError?.message || "no URL"}`);
+  }
+
+  await recordAccessEvent(supabaseClient, access, "downloaded", req);
+  console.log(`Issued download of ${item.id} for token ${token.slice(0, 8)}...`);
+  return { state: "ok", url: data.signedUrl };
+}
+
+/**
+ * Handle the request
+ */
+serve(async (req) => {
+  const headers = new Headers(corsHeaders);
+  headers.set("Content-Type", "application/json");
+
+  // Handle OPTIONS request for CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: headers,
+    });
+  }
+
+  try {
+    const { action = "open", token, passphrase, fileId }: AccessRequest = await req.json();
+
+    if (!token || typeof token !== "string") {
+      return new Response(JSON.stringify({ error: "Missing access token" }), {
+        status: 400,
+        headers: headers,
+      });
+    }
+
+    const access = await resolveAccessToken(supabaseClient, token);
+
+    if (!access) {
+      return new Response(JSON.stringify({ error: "File not found" }), {
+        status: 404,
+        headers: headers,
+      });
+    }
+
+    let body: unknown;
+    if (action === "download") {
+      if (!fileId) {
+        return new Response(JSON.stringify({ error: "Missing file id" }), {
+          status: 400,
+          headers: headers,
+        });
+      }
+      body = await issueDownloadUrl(req, token, access, fileId, passphrase);
+    } else {
+      body = await openDelivery(req, token, access, passphrase);
+    }
+
+    return new Response(JSON.stringify(body), {
+      status: 200,
+      headers: headers,
+    });
+  } catch (error) {
+    console.error("Edge Function error:", error);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: headers,
+    });
+  }
+});
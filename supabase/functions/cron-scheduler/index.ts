@@ -2,11 +2,22 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
 import { Server } from "https://deno.land/x/socket_io@0.2.0/mod.ts";
+import { Scanner, createScanner } from "../_shared/scanner.ts";
+import { openStoredFile } from "../_shared/storage.ts";
 
 const supabaseUrl = Deno.env.get("SUPABASE_URL") || "";
 const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "";
 const supabase = createClient(supabaseUrl, supabaseKey);
 
+// ClamAV or the stub, chosen by SCANNER
+let scanner: Scanner | null = null;
+try {
+  scanner = createScanner();
+  console.log(`Using ${scanner.name} malware scanner`);
+} catch (error) {
+  console.error("Malware scanner is not configured:", error);
+}
+
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
@@ -53,13 +64,22 @@ io.on("connection", (socket) => {
 async function processPendingFiles() {
   const currentTime = new Date();
   console.log("Processing pending files at:", currentTime.toISOString());
-  
+
+  // Deliveries abandoned by a worker that died go back to pending first
+  const { data: releasedCount, error: releaseError } = await supabase.rpc("release_expired_scheduled_file_leases");
+
+  if (releaseError) {
+    console.error("Error releasing expired leases:", releaseError);
+  } else if (releasedCount > 0) {
+    console.log(`Released ${releasedCount} deliveries whose lease had expired`);
+  }
+
   // Check if there are any pending files to send using UTC timezone comparison
   const { data: pendingFiles, error: countError } = await supabase
     .from("scheduled_files")
-    .select("id, scheduled_date")
+    .select("id, scheduled_date, next_delivery_at")
     .eq("status", "pending")
-    .lte("scheduled_date", currentTime.toISOString());
+    .lte("next_delivery_at", currentTime.toISOString());
   
   if (countError) {
     console.error("Error checking pending files:", countError);
@@ -107,7 +127,7 @@ async function processPendingFiles() {
       .from("scheduled_files")
       .select("id")
       .eq("status", "pending")
-      .lte("scheduled_date", new Date().toISOString());
+      .lte("next_delivery_at", new Date().toISOString());
       
     if (newCountError) {
       console.error("Error checking for new pending files:", newCountError);
@@ -146,6 +166,219 @@ async function processPendingFiles() {
   return sendScheduledData;
 }
 
+// Files are claimed one at a time, so a lease only has to outlast one scan.
+// No new scan starts once this run has spent SCAN_TIME_BUDGET_MS on scanning;
+// sending and purging still have to fit into the function's time limit.
+const SCAN_LEASE_SECONDS = 300;
+const SCAN_TIME_BUDGET_MS = 45000;
+// A file that cannot be scanned this many times blocks its delivery
+const MAX_SCAN_ATTEMPTS = 3;
+// Large enough for most uploads, small enough to scan well within the edge
+// function's wall clock limit (150 s on the free plan). Raise it where the
+// function may run longer. clamd refuses streams over its StreamMaxLength
+// (25 MB unless clamd.conf raises it).
+const SCAN_MAX_BYTES = Number(Deno.env.get("SCAN_MAX_BYTES")) || 256 * 1024 * 1024;
+
+// Record a verdict on every file still waiting for it; occurrences of a
+// recurring delivery share the stored object
+async function recordScanResult(storagePath: string, status: "clean" | "infected" | "error", result: string | null) {
+  const { error } = await supabase
+    .from("scheduled_file_items")
+    .update({
+      scan_status: status,
+      scan_result: result,
+      scanned_at: new Date().toISOString(),
+      scan_locked_until: null,
+    })
+    .eq("storage_path", storagePath)
+    .eq("scan_status", "pending");
+
+  if (error) {
+    throw new Error(`Failed to record scan result: ${error.message}`);
+  }
+}
+
+// Scan uploaded files that are still quarantined. Deliveries are only sent
+// once all of their files are clean.
+async function scanPendingUploads() {
+  if (!scanner) {
+    return { scanned: 0, infected: 0, failed: 0, error: "No malware scanner is configured" };
+  }
+
+  let scanned = 0;
+  let infected = 0;
+  let failed = 0;
+  const startedAt = Date.now();
+
+  while (Date.now() - startedAt < SCAN_TIME_BUDGET_MS) {
+    const { data: items, error } = await supabase
+      .rpc("claim_pending_scans", { batch_size: 1, lease_seconds: SCAN_LEASE_SECONDS });
+
+    if (error) {
+      console.error("Error claiming files to scan:", error);
+      return { scanned, infected, failed, error: error.message };
+    }
+
+    const [item] = items || [];
+    if (!item) break;
+
+    let content: ReadableStream<Uint8Array> | null = null;
+    try {
+      if (item.file_size > SCAN_MAX_BYTES) {
+        const limit = Math.floor(SCAN_MAX_BYTES / (1024 * 1024));
+        await recordScanResult(item.storage_path, "error", `Too large to scan (the limit is ${limit} MB)`);
+        failed++;
+        continue;
+      }
+
+      // Streamed from storage into the scanner, never loaded whole
+      content = await openStoredFile(supabase, item.storage_path);
+      const verdict = await scanner.scan(content);
+      if (verdict.infected) {
+        console.log(`Found ${verdict.signature} in ${item.storage_path}`);
+        await recordScanResult(item.storage_path, "infected", verdict.signature);
+        infected++;
+      } else {
+        await recordScanResult(item.storage_path, "clean", null);
+      }
+      scanned++;
+    } catch (scanError) {
+      console.error(`Error scanning ${item.storage_path}:`, scanError);
+      const message = scanError instanceof Error ? scanError.message : String(scanError);
+      // Stop the download the scanner gave up on
+      await content?.cancel().catch(() => {});
+
+      if (item.scan_attempts >= MAX_SCAN_ATTEMPTS) {
+        await recordScanResult(item.storage_path, "error", message).catch((recordError) => {
+          console.error(`Error recording failed scan of ${item.storage_path}:`, recordError);
+        });
+      } else {
+        // Hand the file out again on the next run
+        await supabase
+          .from("scheduled_file_items")
+          .update({ scan_result: message, scan_locked_until: null })
+          .eq("id", item.id);
+      }
+      failed++;
+      // The scanner may be down; leave the rest for the next run
+      break;
+    }
+  }
+
+  return { scanned, infected, failed };
+}
+
+const PURGE_BATCH_SIZE = 50;
+const TRASH_RETENTION_DAYS = 30;
+
+// Remove the stored files of deliveries whose retention period is over. The
+// rows stay behind with purged_at set.
+async function purgeExpiredFiles() {
+  const now = new Date().toISOString();
+  const { data: dueFiles, error } = await supabase
+    .from("scheduled_files")
+    .select("id")
+    .is("purged_at", null)
+    .lte("purge_at", now)
+    .order("purge_at", { ascending: true })
+    .limit(PURGE_BATCH_SIZE);
+
+  if (error) {
+    console.error("Error finding files to purge:", error);
+    return { purged: 0, failed: 0, error: error.message };
+  }
+
+  let purged = 0;
+  let failed = 0;
+
+  for (const file of dueFiles || []) {
+    // Claim the row first; if the sender extended the link in the meantime,
+    // purge_at has moved and nothing is removed
+    const { data: claimed, error: claimError } = await supabase
+      .from("scheduled_files")
+      .update({ purged_at: now })
+      .eq("id", file.id)
+      .is("purged_at", null)
+      .lte("purge_at", now)
+      .select("id");
+
+    if (claimError) {
+      console.error(`Error claiming file ${file.id} for purge:`, claimError);
+      failed++;
+      continue;
+    }
+    if (!claimed || claimed.length === 0) {
+      continue;
+    }
+
+    try {
+      const { data: paths, error: pathsError } = await supabase
+        .rpc("get_unshared_storage_paths", { file_id: file.id });
+
+      if (pathsError) throw pathsError;
+
+      if (paths.length > 0) {
+        const { error: removeError } = await supabase.storage.from("timecapsule").remove(paths);
+        if (removeError) throw removeError;
+      }
+
+      console.log(`Purged file ${file.id} (${paths.length} storage objects removed)`);
+      purged++;
+    } catch (purgeError) {
+      // Put the row back so the next run tries again
+      console.error(`Error purging file ${file.id}:`, purgeError);
+      await supabase.from("scheduled_files").update({ purged_at: null }).eq("id", file.id);
+      failed++;
+    }
+  }
+
+  return { purged, failed };
+}
+
+// Delete deliveries that have been in the trash for longer than
+// TRASH_RETENTION_DAYS, with the stored files no other delivery uses
+async function emptyTrash() {
+  const trashedBefore = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const { data: trashedFiles, error } = await supabase
+    .from("scheduled_files")
+    .select("id")
+    .lte("deleted_at", trashedBefore)
+    .order("deleted_at", { ascending: true })
+    .limit(PURGE_BATCH_SIZE);
+
+  if (error) {
+    console.error("Error finding trashed files:", error);
+    return { deleted: 0, failed: 0, error: error.message };
+  }
+
+  let deleted = 0;
+  let failed = 0;
+
+  for (const file of trashedFiles || []) {
+    // Deletes the row only if it is still in the trash
+    const { data: paths, error: deleteError } = await supabase
+      .rpc("delete_trashed_scheduled_file", { file_id: file.id, trashed_before: trashedBefore });
+
+    if (deleteError) {
+      console.error(`Error deleting trashed file ${file.id}:`, deleteError);
+      failed++;
+      continue;
+    }
+
+    if (paths.length > 0) {
+      const { error: removeError } = await supabase.storage.from("timecapsule").remove(paths);
+      if (removeError) {
+        // The row is gone; the objects are only left behind in storage
+        console.error(`Error removing storage objects of trashed file ${file.id}:`, removeError);
+      }
+    }
+
+    deleted++;
+  }
+
+  return { deleted, failed };
+}
+
 // Attach Socket.io to the server
 serve(async (req) => {
   // Handle CORS preflight request
@@ -162,13 +395,20 @@ serve(async (req) => {
 
   // Handle regular HTTP requests
   try {
+    // Scan first, so deliveries whose files just passed go out in this run
+    const scan = await scanPendingUploads();
     // Automatically process pending files when the cron job triggers
     const result = await processPendingFiles();
+    const purge = await purgeExpiredFiles();
+    const trash = await emptyTrash();
     
     return new Response(
       JSON.stringify({
         message: "Cron job executed successfully",
+        scan,
         result,
+        purge,
+        trash,
         timestamp: new Date().toISOString(),
       }),
       {
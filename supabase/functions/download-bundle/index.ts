@@ -0,0 +1,357 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+import { Zip, ZipPassThrough } from "https://esm.sh/fflate@0.8.2";
+import { recordAccessEvent, resolveAccessToken } from "../_shared/access.ts";
+import { openStoredFile } from "../_shared/storage.ts";
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL") || "https://limzhusojiirnsefkupe.supabase.co";
+const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "";
+
+// Create a Supabase client with the auth role of service_role
+const supabaseClient = createClient(supabaseUrl, supabaseKey, {
+  auth: { persistSession: false },
+});
+
+// CORS headers for all responses
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const ACCESS_ERRORS: Record<string, string> = {
+  not_found: "File not found",
+  scheduled: "This file is not available yet",
+  expired: "This link has expired",
+  revoked: "The sender has revoked this link",
+  limit_reached: "The download limit for this link has been reached",
+  purged: "The files have been deleted",
+  blocked: "These files have not passed the malware scan",
+  invalid_passphrase: "Incorrect passphrase",
+  locked: "Too many incorrect passphrases. Try again later.",
+  too_large: "These files are too large for one ZIP. Download them one by one.",
+};
+
+// Without ZIP64 no offset in the archive may pass 4 GiB; keep in step with
+// MAX_BUNDLE_BYTES in src/services/fileService.ts
+const MAX_BUNDLE_BYTES = 4 * 1000 * 1000 * 1000;
+
+// The archive itself is fetched by the browser from a signed URL, so it goes
+// straight to disk. Like the file URLs of access-file it only has to last
+// until the download starts.
+const TICKET_SECONDS = 60;
+
+interface BundleItemRow {
+  file_name: string;
+  file_size: number;
+  storage_path: string;
+}
+
+/**
+ * Make file names unique within the archive: "report.pdf", "report (1).pdf"
+ */
+function uniqueEntryName(name: string, used: Set<string>): string {
+  const safeName = name.replace(/[\\/]/g, "_") || "file";
+  if (!used.has(safeName)) {
+    used.add(safeName);
+    return safeName;
+  }
+
+  const dot = safeName.lastIndexOf(".");
+  const base = dot > 0 ? safeName.slice(0, dot) : safeName;
+  const extension = dot > 0 ? safeName.slice(dot) : "";
+
+  for (let copy = 1; ; copy++) {
+    const candidate = `${base} (${copy})${extension}`;
+    if (!used.has(candidate)) {
+      used.add(candidate);
+      return candidate;
+    }
+  }
+}
+
+/**
+ * Stream a ZIP of the given files. Files are stored as they are, one source
+ * chunk at a time, so only a chunk or two is in memory however large they are.
+ */
+function streamBundleZip(items: BundleItemRow[]): ReadableStream<Uint8Array> {
+  const usedNames = new Set<string>();
+  const output: Uint8Array[] = [];
+  let zipError: Error | null = null;
+  let zipDone = false;
+
+  const zip = new Zip((error, chunk, final) => {
+    if (error) {
+      zipError = error;
+      return;
+    }
+    output.push(chunk);
+    zipDone = final;
+  });
+
+  let next = 0;
+  let entry: ZipPassThrough | null = null;
+  let reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      // Feed the archive until it has something to hand out
+      while (output.length === 0 && !zipDone && !zipError) {
+        if (!reader) {
+          if (next === items.length) {
+            zip.end();
+            break;
+          }
+          const item = items[next++];
+          reader = (await openStoredFile(supabaseClient, item.storage_path)).getReader();
+          entry = new ZipPassThrough(uniqueEntryName(item.file_name, usedNames));
+          zip.add(entry);
+          continue;
+        }
+
+        const { value, done } = await reader.read();
+        if (done) {
+          entry?.push(new Uint8Array(0), true);
+          reader = null;
+          entry = null;
+        } else {
+          entry?.push(value);
+        }
+      }
+
+      if (zipError) {
+        throw zipError;
+      }
+      for (const chunk of output.splice(0)) {
+        controller.enqueue(chunk);
+      }
+      if (zipDone) {
+        controller.close();
+      }
+    },
+    async cancel() {
+      await reader?.cancel();
+      zip.terminate();
+    },
+  });
+}
+
+function encodeBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function decodeBase64Url(value: string): Uint8Array {
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function importTicketKey(): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(`download-bundle:${supabaseKey}`),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+}
+
+/**
+ * A ticket names the delivery and when it runs out, signed with a key only
+ * the functions know: "<file id>.<expiry in seconds>.<signature>"
+ */
+async function createTicket(fileId: string): Promise<string> {
+  const payload = `${fileId}.${Math.floor(Date.now() / 1000) + TICKET_SECONDS}`;
+  const signature = await crypto.subtle.sign("HMAC", await importTicketKey(), new TextEncoder().encode(payload));
+  return `${payload}.${encodeBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * The delivery a ticket was issued for, or null when it is forged or expired
+ */
+async function readTicket(ticket: string): Promise<string | null> {
+  const [fileId, expires, signature] = ticket.split(".");
+  if (!fileId || !expires || !signature) return null;
+
+  let signatureBytes: Uint8Array;
+  try {
+    signatureBytes = decodeBase64Url(signature);
+  } catch {
+    return null;
+  }
+
+  const valid = await crypto.subtle.verify(
+    "HMAC",
+    await importTicketKey(),
+    signatureBytes,
+    new TextEncoder().encode(`${fileId}.${expires}`)
+  );
+  if (!valid || Number(expires) < Date.now() / 1000) return null;
+
+  return fileId;
+}
+
+/**
+ * The files of a delivery, in order. Access is checked by the caller.
+ */
+async function loadBundleItems(fileId: string): Promise<BundleItemRow[]> {
+  const { data: items, error } = await supabaseClient
+    .from("scheduled_file_items")
+    .select("file_name, file_size, storage_path")
+    .eq("scheduled_file_id", fileId)
+    .order("position")
+    .order("created_at");
+
+  if (error) {
+    throw new Error(`Failed to load files: ${error.message}`);
+  }
+
+  return (items as BundleItemRow[]) || [];
+}
+
+/**
+ * Handle the request
+ */
+serve(async (req) => {
+  const headers = new Headers(corsHeaders);
+
+  // Handle OPTIONS request for CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: headers,
+    });
+  }
+
+  try {
+    // Second step: the browser fetches the archive with the ticket it was given
+    if (req.method === "GET") {
+      const fileId = await readTicket(new URL(req.url).searchParams.get("ticket") || "");
+      if (!fileId) {
+        headers.set("Content-Type", "application/json");
+        return new Response(JSON.stringify({ error: "This download link has expired" }), {
+          status: 410,
+          headers: headers,
+        });
+      }
+
+      const items = await loadBundleItems(fileId);
+      console.log(`Zipping ${items.length} file(s) for file ${fileId}`);
+
+      headers.set("Content-Type", "application/zip");
+      headers.set("Content-Disposition", 'attachment; filename="timecapsule-files.zip"');
+      return new Response(streamBundleZip(items), {
+        status: 200,
+        headers: headers,
+      });
+    }
+
+    const { token, passphrase } = await req.json();
+
+    if (!token || typeof token !== "string") {
+      headers.set("Content-Type", "application/json");
+      return new Response(JSON.stringify({ error: "Missing access token" }), {
+        status: 400,
+        headers: headers,
+      });
+    }
+
+    const access = await resolveAccessToken(supabaseClient, token);
+
+    if (!access || access.availableAt > new Date()) {
+      const state = access ? "scheduled" : "not_found";
+      headers.set("Content-Type", "application/json");
+      return new Response(JSON.stringify({ error: ACCESS_ERRORS[state], state }), {
+        status: access ? 403 : 404,
+        headers: headers,
+      });
+    }
+
+    // Nothing about a protected delivery, not even its size, is told before
+    // the passphrase checks out
+    const { data: passphraseState, error: passphraseError } = await supabaseClient
+      .rpc("verify_delivery_passphrase", { token, passphrase });
+
+    if (passphraseError) {
+      throw new Error(`Failed to check passphrase: ${passphraseError.message}`);
+    }
+
+    if (passphraseState !== "ok") {
+      const state = passphraseState === "invalid" ? "invalid_passphrase" : passphraseState;
+      if (state === "invalid_passphrase" || state === "locked") {
+        await recordAccessEvent(supabaseClient, access, "failed_passphrase", req);
+      }
+      headers.set("Content-Type", "application/json");
+      return new Response(JSON.stringify({ error: ACCESS_ERRORS[state] || "File not found", state }), {
+        status: state === "not_found" ? 404 : 403,
+        headers: headers,
+      });
+    }
+
+    // Sizes are checked before the download is counted, so a refused archive
+    // does not use one up
+    const items = await loadBundleItems(access.file.id);
+    const totalSize = items.reduce((sum, item) => sum + item.file_size, 0);
+
+    if (totalSize > MAX_BUNDLE_BYTES) {
+      headers.set("Content-Type", "application/json");
+      return new Response(JSON.stringify({ error: ACCESS_ERRORS.too_large, state: "too_large" }), {
+        status: 413,
+        headers: headers,
+      });
+    }
+
+    // The archive counts as one download and is refused once the link is used up
+    const { data: accessState, error: accessError } = await supabaseClient
+      .rpc("register_file_download", { token, passphrase });
+
+    if (accessError) {
+      throw new Error(`Failed to check access: ${accessError.message}`);
+    }
+
+    if (accessState !== "ok") {
+      if (accessState === "invalid_passphrase" || accessState === "locked") {
+        await recordAccessEvent(supabaseClient, access, "failed_passphrase", req);
+      } else if (accessState === "expired") {
+        await recordAccessEvent(supabaseClient, access, "expired", req);
+      }
+      headers.set("Content-Type", "application/json");
+      return new Response(JSON.stringify({ error: ACCESS_ERRORS[accessState] || "File not found", state: accessState }), {
+        status: accessState === "not_found" ? 404 : accessState === "invalid_passphrase" || accessState === "locked" ? 403 : 410,
+        headers: headers,
+      });
+    }
+
+    if (items.length === 0) {
+      headers.set("Content-Type", "application/json");
+      return new Response(JSON.stringify({ error: "File not found or access has expired" }), {
+        status: 404,
+        headers: headers,
+      });
+    }
+
+    await recordAccessEvent(supabaseClient, access, "downloaded", req);
+
+    const ticket = await createTicket(access.file.id);
+    headers.set("Content-Type", "application/json");
+    return new Response(JSON.stringify({
+      url: `${supabaseUrl}/functions/v1/download-bundle?ticket=${encodeURIComponent(ticket)}`,
+    }), {
+      status: 200,
+      headers: headers,
+    });
+  } catch (error) {
+    console.error("Edge Function error:", error);
+    headers.set("Content-Type", "application/json");
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: headers,
+    });
+  }
+});
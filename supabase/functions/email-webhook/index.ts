@@ -0,0 +1,103 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+import { parseResendEvent, verifyWebhookSignature } from "../_shared/webhook.ts";
+
+// Create a Supabase client with the auth role of service_role
+const supabaseClient = createClient(
+  Deno.env.get("SUPABASE_URL") || "https://limzhusojiirnsefkupe.supabase.co",
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "",
+  {
+    auth: { persistSession: false },
+  }
+);
+
+const webhookSecret = Deno.env.get("RESEND_WEBHOOK_SECRET") || "";
+
+/**
+ * Handle the request
+ */
+serve(async (req) => {
+  const headers = new Headers({ "Content-Type": "application/json" });
+
+  if (req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: headers,
+    });
+  }
+
+  if (!webhookSecret) {
+    console.error("RESEND_WEBHOOK_SECRET is not set; refusing webhook");
+    return new Response(JSON.stringify({ error: "Webhook is not configured" }), {
+      status: 500,
+      headers: headers,
+    });
+  }
+
+  try {
+    // The signature covers the exact bytes, so read the body as text first
+    const body = await req.text();
+    const signatureHeaders = {
+      id: req.headers.get("svix-id"),
+      timestamp: req.headers.get("svix-timestamp"),
+      signature: req.headers.get("svix-signature"),
+    };
+
+    if (!await verifyWebhookSignature(webhookSecret, signatureHeaders, body)) {
+      console.warn(`Rejected webhook ${signatureHeaders.id || "(no id)"} with an invalid signature`);
+      return new Response(JSON.stringify({ error: "Invalid signature" }), {
+        status: 401,
+        headers: headers,
+      });
+    }
+
+    // Retrying a body that does not parse would fail the same way every time
+    let payload: unknown;
+    try {
+      payload = JSON.parse(body);
+    } catch (_error) {
+      console.warn(`Webhook ${signatureHeaders.id} is not valid JSON`);
+      return new Response(JSON.stringify({ error: "Invalid JSON" }), {
+        status: 400,
+        headers: headers,
+      });
+    }
+    const event = parseResendEvent(payload);
+
+    // Acknowledge everything else, including payloads of an unexpected
+    // shape, so the provider does not keep retrying it
+    if (!event) {
+      return new Response(JSON.stringify({ result: "ignored" }), {
+        status: 200,
+        headers: headers,
+      });
+    }
+
+    const { data: result, error } = await supabaseClient.rpc("record_delivery_event", {
+      event_id: signatureHeaders.id,
+      message_id: event.emailId,
+      kind: event.type,
+      detail: event.reason,
+      occurred: event.occurredAt.toISOString(),
+      body: payload,
+    });
+
+    if (error) {
+      throw new Error(`Failed to record delivery event: ${error.message}`);
+    }
+
+    console.log(`Webhook ${signatureHeaders.id}: ${event.type} for email ${event.emailId} -> ${result}`);
+
+    return new Response(JSON.stringify({ result }), {
+      status: 200,
+      headers: headers,
+    });
+  } catch (error) {
+    // A 500 makes the provider deliver the webhook again later
+    console.error("Edge Function error:", error);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: headers,
+    });
+  }
+});
@@ -1,6 +1,17 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+import { RecurrenceRule, getNextOccurrence } from "../_shared/recurrence.ts";
+import { shiftToTimeZone } from "../_shared/timezone.ts";
+import {
+  DEFAULT_EMAIL_SUBJECT,
+  escapeHtml,
+  renderMessageHtml,
+  sanitizeSenderName,
+  sanitizeSubject,
+} from "../_shared/message-format.ts";
+import { EmailTransport, createEmailTransport } from "../_shared/email.ts";
+import { DEFAULT_RETRY_POLICY, RetryPolicy, getRetryDelaySeconds, isTransientDeliveryError } from "../_shared/retry.ts";
 
 // Create a Supabase client with the auth role of service_role
 const supabaseClient = createClient(
@@ -17,10 +28,60 @@ const supabaseClient = createClient(
 const APP_URL = Deno.env.get("APP_URL") || "https://limzhusojiirnsefkupe.lovable.app";
 console.log(`Using APP_URL: ${APP_URL}`);
 
-// Ensure Resend API key is available
-const RESEND_API_KEY = Deno.env.get("RESEND_API_KEY");
-if (!RESEND_API_KEY) {
-  console.error("RESEND_API_KEY is not set in environment variables");
+// Resend, SMTP or a local sink, chosen by EMAIL_TRANSPORT
+let emailTransport: EmailTransport | null = null;
+try {
+  emailTransport = createEmailTransport({ supabaseClient });
+  console.log(`Using ${emailTransport.name} email transport`);
+} catch (error) {
+  console.error("Email transport is not configured:", error);
+}
+
+interface ScheduledFileRow {
+  id: string;
+  user_id: string;
+  file_name: string;
+  file_size: number;
+  file_type: string;
+  storage_path: string;
+  recipient_email: string;
+  scheduled_date: string;
+  recurrence: RecurrenceRule | null;
+  series_id: string | null;
+  occurrence_index: number;
+  timezone: string;
+  deliver_in_recipient_timezone: boolean;
+  email_subject: string | null;
+  sender_name: string | null;
+  personal_message: string | null;
+  email_id: string | null;
+  attempts: number;
+  link_valid_days: number | null;
+  max_downloads: number | null;
+  passphrase_protected: boolean;
+  encryption_key_check: string | null;
+  retention_policy: string;
+  retention_days: number;
+}
+
+interface RecipientRow {
+  id: string;
+  email: string;
+  role: "to" | "cc" | "bcc";
+  access_token: string;
+  status: string;
+  timezone: string | null;
+  deliver_at: string | null;
+  attempts: number;
+  error_message: string | null;
+}
+
+interface DeliveryOutcome {
+  status: "sent" | "failed";
+  errorMessage: string | null;
+  emailId: string | null;
+  /** Whether a failure may go away when the email is sent again */
+  transient: boolean;
 }
 
 // CORS headers for all responses
@@ -60,33 +121,122 @@ async function enableRealtimeForScheduledFiles() {
   }
 }
 
+/**
+ * Read a positive integer setting, falling back when unset or invalid
+ */
+function readPositiveInt(key: string, fallback: number): number {
+  const value = Number(Deno.env.get(key));
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+// Deliveries claimed per run, and how many of them are sent at the same time
+const CLAIM_BATCH_SIZE = readPositiveInt("WORKER_BATCH_SIZE", 20);
+const WORKER_CONCURRENCY = readPositiveInt("WORKER_CONCURRENCY", 3);
+// A delivery not finished within its lease is handed to the next worker
+const LEASE_SECONDS = readPositiveInt("WORKER_LEASE_SECONDS", 300);
+
+// Transient failures are retried with backoff up to this many attempts per recipient
+const RETRY_POLICY: RetryPolicy = {
+  maxAttempts: readPositiveInt("MAX_DELIVERY_ATTEMPTS", DEFAULT_RETRY_POLICY.maxAttempts),
+  baseDelaySeconds: readPositiveInt("RETRY_BASE_DELAY_SECONDS", DEFAULT_RETRY_POLICY.baseDelaySeconds),
+  maxDelaySeconds: readPositiveInt("RETRY_MAX_DELAY_SECONDS", DEFAULT_RETRY_POLICY.maxDelaySeconds),
+};
+
+type JobResult = "sent" | "failed" | "pending";
+
+/**
+ * Run tasks over items with at most `limit` of them in flight
+ */
+async function runWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const lanes = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  });
+
+  await Promise.all(lanes);
+  return results;
+}
+
+/**
+ * Push the lease forward while a delivery is still being worked on. Returns
+ * false when another worker has taken the row over.
+ */
+async function extendLease(fileId: string, workerId: string): Promise<boolean> {
+  const { data, error } = await supabaseClient
+    .from("scheduled_files")
+    .update({ locked_until: new Date(Date.now() + LEASE_SECONDS * 1000).toISOString() })
+    .eq("id", fileId)
+    .eq("locked_by", workerId)
+    .select("id");
+
+  if (error) {
+    console.error(`Error extending lease on file ${fileId}:`, error);
+    return false;
+  }
+
+  return !!data && data.length > 0;
+}
+
+/**
+ * Write the outcome of a run and release the lease. Returns false when the
+ * lease was lost, in which case the row belongs to another worker and is left
+ * untouched.
+ */
+async function completeJob(fileId: string, workerId: string, updateData: Record<string, unknown>): Promise<boolean> {
+  const { data, error } = await supabaseClient
+    .from("scheduled_files")
+    .update({
+      ...updateData,
+      locked_by: null,
+      locked_until: null,
+      updated_at: new Date().toISOString()
+    })
+    .eq("id", fileId)
+    .eq("locked_by", workerId)
+    .select("id");
+
+  if (error) {
+    throw new Error(`Failed to update file status: ${error.message}`);
+  }
+
+  if (!data || data.length === 0) {
+    console.warn(`Lease on file ${fileId} expired before the run finished; leaving it to the current owner`);
+    return false;
+  }
+
+  return true;
+}
+
 /**
  * Service handler to process scheduled files
  */
 async function processScheduledFiles(): Promise<{ success: number; failed: number; processed: number }> {
-  let successCount = 0;
-  let failedCount = 0;
+  // Each run is its own worker; it only ever writes rows it holds the lease on
+  const workerId = crypto.randomUUID();
   let processedCount = 0;
 
   try {
-    console.log("Starting to process scheduled files at:", new Date().toISOString());
+    console.log(`Worker ${workerId} starting to process scheduled files at:`, new Date().toISOString());
     console.log("Using APP_URL:", APP_URL);
     
     // Try to enable realtime for the scheduled_files table (if not already enabled)
     await enableRealtimeForScheduledFiles();
     
-    // Fetch all pending scheduled files with timezone-aware comparison
-    const currentUtcTime = new Date().toISOString();
-    console.log("Current UTC time:", currentUtcTime);
-    
-    const { data: scheduledFiles, error: selectError } = await supabaseClient
-      .from("scheduled_files")
-      .select("*")
-      .eq("status", "pending")
-      .lte("scheduled_date", currentUtcTime);
+    // Lease the pending files with something due, including recipients whose
+    // local delivery time comes before the scheduled date
+    const { data: scheduledFiles, error: claimError } = await supabaseClient.rpc("claim_scheduled_files", {
+      worker_id: workerId,
+      batch_size: CLAIM_BATCH_SIZE,
+      lease_seconds: LEASE_SECONDS
+    });
 
-    if (selectError) {
-      console.error("Error fetching scheduled files:", selectError);
+    if (claimError) {
+      console.error("Error claiming scheduled files:", claimError);
       return { success: 0, failed: 0, processed: 0 };
     }
 
@@ -95,204 +245,13 @@ async function processScheduledFiles(): Promise<{ success: number; failed: numbe
       return { success: 0, failed: 0, processed: 0 };
     }
 
-    console.log(`Found ${scheduledFiles.length} files to process:`, scheduledFiles.map(f => ({ id: f.id, email: f.recipient_email, date: f.scheduled_date })));
-    processedCount = scheduledFiles.length;
-
-    // Process each scheduled file
-    for (const file of scheduledFiles) {
-      try {
-        console.log(`Processing file ${file.id} scheduled for ${file.scheduled_date} to ${file.recipient_email}`);
-        
-        // First, update the status to "processing" to prevent duplicate sending
-        const { error: updateProcessingError } = await supabaseClient
-          .from("scheduled_files")
-          .update({ 
-            status: "processing",
-            updated_at: new Date().toISOString()
-          })
-          .eq("id", file.id)
-          .eq("status", "pending"); // Only update if still pending
-          
-        if (updateProcessingError) {
-          console.error(`Error updating file ${file.id} status to processing:`, updateProcessingError);
-          // Continue anyway, but log the issue
-        }
-        
-        // Generate access URL
-        const accessUrl = generateAccessUrl(file.access_token);
-        console.log(`Generated access URL: ${accessUrl}`);
-
-        // Send email
-        if (!RESEND_API_KEY) {
-          throw new Error("Resend API key is missing.");
-        }
+    const jobs = scheduledFiles as ScheduledFileRow[];
+    console.log(`Claimed ${jobs.length} files to process:`, jobs.map(f => ({ id: f.id, email: f.recipient_email, date: f.scheduled_date, attempt: f.attempts })));
+    processedCount = jobs.length;
 
-        console.log(`Sending email to ${file.recipient_email}`);
-        
-        // Check if we're in development mode and warn about Resend's free tier limitations
-        if (RESEND_API_KEY && RESEND_API_KEY.startsWith("re_")) {
-          console.log("NOTICE: Using Resend free tier - emails can only be sent to verified addresses or domains.");
-          console.log("For testing in development, consider setting the recipient to your own verified email address.");
-        }
-        
-        // Updated email template with the requested structure
-        const emailTemplate = `
-          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; color: #333;">
-            <h2 style="color: #4F46E5;">Time Capsule</h2>
-            <p>Hi there,</p>
-            <p>You've received a scheduled file through <strong>Time Capsule</strong>, a platform for sending important files at the right time.</p>
-            <p>🔗 Click the link below to access your file:</p>
-            <div style="text-align: center; margin: 25px 0;">
-              <a href="${accessUrl}" style="display: inline-block; padding: 12px 24px; background-color: #4F46E5; color: white; text-decoration: none; border-radius: 5px; font-weight: bold;">👉 Access Your File</a>
-            </div>
-            <p>This file was scheduled to be sent to you by one of our users. If you were expecting something important, this is probably it.</p>
-            <p>If you're having trouble accessing the file or the link has expired, please contact the sender.</p>
-            <p>Thanks,<br>— The Time Capsule Team</p>
-            <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #eee; font-size: 12px; color: #666;">
-              <p>If the button doesn't work, you can copy and paste this link in your browser: ${accessUrl}</p>
-            </div>
-          </div>
-        `;
-        
-        const emailResult = await sendEmail({
-          to: file.recipient_email,
-          subject: "Your TimeCapsule File is Ready!",
-          body: emailTemplate,
-          apiKey: RESEND_API_KEY,
-        });
-
-        console.log("Email send result:", emailResult);
-
-        if (emailResult.error) {
-          console.error(`Error sending email for file ${file.id}:`, emailResult.error);
-          
-          // Special handling for Resend free tier limitation
-          let errorMessage = emailResult.error.message || "Failed to send email";
-          
-          // Default to marking as failed
-          let status = "failed";
-          
-          // If we have an email ID, it means the email was actually sent despite the API error
-          if (emailResult.data && emailResult.data.id) {
-            status = "sent";
-            console.log(`Email appears to have been sent despite API error. ID: ${emailResult.data.id}`);
-          }
-          
-          // If the error is about sending to unverified addresses on free tier
-          if (emailResult.error.statusCode === 403 && 
-              emailResult.error.message && 
-              (emailResult.error.message.includes("can only send") || 
-               emailResult.error.message.includes("unverified"))) {
-            
-            // For Resend free tier limitations, we may still have delivered the email
-            if (!emailResult.data || !emailResult.data.id) {
-              errorMessage = "Resend free tier limitation: Can only send to verified email addresses. " + 
-                           "Either verify this recipient or upgrade your Resend account.";
-            } else {
-              // If we got an ID, the email was probably sent despite the error
-              status = "sent";
-              errorMessage = "Email delivered, but Resend reported a free tier limitation.";
-            }
-          }
-          
-          // Update file status based on our determination
-          try {
-            const updateData = { 
-              status: status, 
-              error_message: errorMessage,
-              updated_at: new Date().toISOString()
-            };
-            
-            if (status === "sent") {
-              updateData.sent_at = new Date().toISOString();
-            }
-            
-            if (emailResult.data?.id) {
-              updateData.email_id = emailResult.data.id;
-            }
-            
-            const { error: updateError } = await supabaseClient
-              .from("scheduled_files")
-              .update(updateData)
-              .eq("id", file.id);
-
-            if (updateError) {
-              console.error(`Error updating file status for file ${file.id}:`, updateError);
-            } else {
-              console.log(`Updated file ${file.id} status to ${status}`);
-            }
-          } catch (updateErr) {
-            console.error(`Exception when updating status for file ${file.id}:`, updateErr);
-          }
-          
-          if (status === "sent") {
-            successCount++;
-          } else {
-            failedCount++;
-          }
-        } else {
-          // Email was definitely sent successfully
-          console.log(`Email sent successfully for file ${file.id} with email ID: ${emailResult.data?.id || 'unknown'}`);
-          
-          // Update file status to 'sent'
-          try {
-            const updateData = { 
-              status: "sent", 
-              sent_at: new Date().toISOString(),
-              updated_at: new Date().toISOString()
-            };
-            
-            if (emailResult.data?.id) {
-              updateData.email_id = emailResult.data.id;
-            }
-            
-            const { error: updateError } = await supabaseClient
-              .from("scheduled_files")
-              .update(updateData)
-              .eq("id", file.id);
-
-            if (updateError) {
-              console.error(`Error updating file status for file ${file.id}:`, updateError);
-              failedCount++;
-            } else {
-              successCount++;
-              console.log(`Successfully updated file ${file.id} status to sent`);
-            }
-          } catch (updateErr) {
-            console.error(`Exception when updating status to sent for file ${file.id}:`, updateErr);
-            failedCount++;
-          }
-        }
-        
-        // Add a slight delay between processing files to prevent race conditions
-        await new Promise(resolve => setTimeout(resolve, 500));
-        
-      } catch (error: any) {
-        console.error(`Error processing file ${file.id}:`, error);
-        failedCount++;
-
-        // Update file status to 'failed'
-        try {
-          const { error: updateError } = await supabaseClient
-            .from("scheduled_files")
-            .update({ 
-              status: "failed",
-              error_message: error.message || "Unknown error occurred",
-              updated_at: new Date().toISOString()
-            })
-            .eq("id", file.id);
-
-          if (updateError) {
-            console.error(`Error updating file status to failed for file ${file.id}:`, updateError);
-          }
-        } catch (updateErr) {
-          console.error(`Exception when updating status to failed for file ${file.id}:`, updateErr);
-        }
-      }
-    }
-
-    // Force a slight delay before returning to ensure updates propagate
-    await new Promise(resolve => setTimeout(resolve, 2000));
+    const results = await runWithConcurrency(jobs, WORKER_CONCURRENCY, (file) => processFile(file, workerId));
+    const successCount = results.filter((result) => result === "sent").length;
+    const failedCount = results.filter((result) => result === "failed").length;
 
     console.log(`Processed ${processedCount} files. Success: ${successCount}, Failed: ${failedCount}.`);
     return { success: successCount, failed: failedCount, processed: processedCount };
@@ -303,94 +262,419 @@ async function processScheduledFiles(): Promise<{ success: number; failed: numbe
 }
 
 /**
- * Generate access URL for a file
+ * Deliver one leased file to every recipient that is due
  */
-function generateAccessUrl(accessToken: string): string {
-  // Make sure we're using a valid public URL, not localhost
-  if (!APP_URL || APP_URL.includes('localhost')) {
-    console.warn("WARNING: Using localhost URL which won't work for email recipients!");
+async function processFile(file: ScheduledFileRow, workerId: string): Promise<JobResult> {
+  try {
+    console.log(`Processing file ${file.id} scheduled for ${file.scheduled_date} to ${file.recipient_email} (attempt ${file.attempts})`);
+    
+    // Fetch the recipients that still need this file
+    const { data: recipients, error: recipientsError } = await supabaseClient
+      .from("delivery_recipients")
+      .select("*")
+      .eq("scheduled_file_id", file.id);
+
+    if (recipientsError) {
+      throw new Error(`Failed to load recipients: ${recipientsError.message}`);
+    }
+
+    if (!recipients || recipients.length === 0) {
+      throw new Error("No recipients found for this delivery");
+    }
+
+    // Send email
+    if (!emailTransport) {
+      throw new Error("Email transport is not configured.");
+    }
+
+    // Check if we're in development mode and warn about Resend's free tier limitations
+    if (emailTransport.name === "resend") {
+      console.log("NOTICE: Using Resend free tier - emails can only be sent to verified addresses or domains.");
+      console.log("For testing in development, consider setting the recipient to your own verified email address.");
+    }
+
+    // BCC recipients are never shown to anyone else
+    const visibleEmails = (recipients as RecipientRow[])
+      .filter((recipient) => recipient.role !== "bcc")
+      .map((recipient) => recipient.email);
+
+    const failures: string[] = [];
+    let deliveredCount = 0;
+    let waitingCount = 0;
+    let retryingCount = 0;
+    let nextAttemptAt: Date | null = null;
+    let firstEmailId: string | null = file.email_id;
+    const now = new Date();
+
+    // Each recipient gets an individual email with their own access link
+    for (const recipient of recipients as RecipientRow[]) {
+      if (recipient.status === "sent") {
+        deliveredCount++;
+        continue;
+      }
+
+      // Failed for good in an earlier run; only "Retry now" sends it again
+      if (recipient.status === "failed") {
+        failures.push(`${recipient.email}: ${recipient.error_message || "Delivery failed"}`);
+        continue;
+      }
+
+      // Not yet time in this recipient's time zone
+      if (recipient.deliver_at && new Date(recipient.deliver_at) > now) {
+        waitingCount++;
+        continue;
+      }
+
+      // Stop before sending anything if another worker took over this row
+      if (!await extendLease(file.id, workerId)) {
+        console.warn(`Lost the lease on file ${file.id}; stopping before emailing ${recipient.email}`);
+        return "pending";
+      }
+
+      const outcome = await deliverToRecipient(emailTransport, file, recipient, visibleEmails);
+      const attempts = (recipient.attempts || 0) + 1;
+      const recipientUpdate: Record<string, unknown> = {
+        status: outcome.status,
+        error_message: outcome.errorMessage,
+        attempts,
+        updated_at: new Date().toISOString()
+      };
+
+      if (outcome.status === "sent") {
+        recipientUpdate.sent_at = new Date().toISOString();
+        // Receipts for an earlier, bounced email no longer apply
+        recipientUpdate.delivery_status = null;
+        recipientUpdate.delivery_status_at = null;
+        deliveredCount++;
+      } else if (outcome.transient && attempts < RETRY_POLICY.maxAttempts) {
+        // Stays pending and is sent again once the backoff has passed
+        const retryAt = new Date(Date.now() + getRetryDelaySeconds(attempts, RETRY_POLICY) * 1000);
+        nextAttemptAt = nextAttemptAt && nextAttemptAt < retryAt ? nextAttemptAt : retryAt;
+        recipientUpdate.status = "pending";
+        recipientUpdate.error_message = `Attempt ${attempts} of ${RETRY_POLICY.maxAttempts} failed: ${outcome.errorMessage}`;
+        retryingCount++;
+        console.log(`Will retry ${recipient.email} for file ${file.id} after ${retryAt.toISOString()}`);
+      } else {
+        if (outcome.transient) {
+          recipientUpdate.error_message = `Gave up after ${attempts} attempts: ${outcome.errorMessage}`;
+        }
+        failures.push(`${recipient.email}: ${recipientUpdate.error_message}`);
+      }
+
+      if (outcome.emailId) {
+        recipientUpdate.email_id = outcome.emailId;
+        firstEmailId = firstEmailId || outcome.emailId;
+      }
+
+      const { error: recipientUpdateError } = await supabaseClient
+        .from("delivery_recipients")
+        .update(recipientUpdate)
+        .eq("id", recipient.id);
+
+      if (recipientUpdateError) {
+        console.error(`Error updating recipient ${recipient.id} for file ${file.id}:`, recipientUpdateError);
+      }
+    }
+
+    // The delivery only counts as sent once every recipient has it; while
+    // some are still due later or waiting for a retry it goes back to pending
+    const status: JobResult = waitingCount + retryingCount > 0 ? "pending" : failures.length === 0 ? "sent" : "failed";
+    const updateData: Record<string, unknown> = {
+      status: status,
+      error_message: failures.length > 0
+        ? `${failures.length} of ${recipients.length} recipient(s) failed. ${failures.join("; ")}`
+        : retryingCount > 0
+          ? `${retryingCount} recipient(s) will be retried after ${nextAttemptAt?.toISOString()}`
+          : null,
+      next_attempt_at: nextAttemptAt?.toISOString() || null
+    };
+
+    if (status === "pending") {
+      // This run finished cleanly; the next claim starts a fresh count
+      updateData.attempts = 0;
+    }
+
+    if (deliveredCount > 0) {
+      updateData.sent_at = new Date().toISOString();
+    }
+
+    if (firstEmailId) {
+      updateData.email_id = firstEmailId;
+    }
+
+    if (!await completeJob(file.id, workerId, updateData)) {
+      return "pending";
+    }
+
+    if (status === "sent") {
+      console.log(`Delivered file ${file.id} to ${deliveredCount} recipient(s)`);
+    } else if (status === "pending") {
+      console.log(`File ${file.id} delivered to ${deliveredCount} recipient(s), ${waitingCount} still due later, ${retryingCount} to retry`);
+    } else {
+      console.log(`File ${file.id} delivered to ${deliveredCount} of ${recipients.length} recipient(s)`);
+    }
+
+    if (file.recurrence && status !== "pending") {
+      await scheduleNextOccurrence(file, recipients);
+    }
+
+    return status;
+  } catch (error) {
+    console.error(`Error processing file ${file.id}:`, error);
+
+    // Update file status to 'failed'
+    try {
+      await completeJob(file.id, workerId, {
+        status: "failed",
+        error_message: error instanceof Error ? error.message : "Unknown error occurred"
+      });
+    } catch (updateErr) {
+      console.error(`Exception when updating status to failed for file ${file.id}:`, updateErr);
+    }
+
+    return "failed";
   }
-  
-  // Make sure the URL doesn't have double slashes between domain and path
-  const baseUrl = APP_URL.endsWith('/') ? APP_URL.slice(0, -1) : APP_URL;
-  
-  // Making sure we always use /access/ path in the URL
-  return `${baseUrl}/access/${accessToken}`;
 }
 
 /**
- * Send email using Resend
+ * Create the next occurrence of a recurring delivery, with fresh access tokens
  */
-async function sendEmail({
-  to,
-  subject,
-  body,
-  apiKey,
-}: {
-  to: string;
-  subject: string;
-  body: string;
-  apiKey: string;
-}): Promise<{ data: any; error: any }> {
+async function scheduleNextOccurrence(file: ScheduledFileRow, recipients: RecipientRow[]): Promise<void> {
   try {
-    console.log(`Sending email to ${to} using Resend...`);
-    
-    const res = await fetch("https://api.resend.com/emails", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        from: "TimeCapsule <onboarding@resend.dev>", // Using Resend's default domain
-        to: [to],
-        subject: subject,
-        html: body,
-      }),
-    });
+    const rule = file.recurrence;
+    if (!rule) return;
 
-    const data = await res.json();
-    
-    if (!res.ok) {
-      console.error("Resend API error response:", data);
-      
-      // Special handling for when emails appear to be sent despite API errors
-      // Resend sometimes returns errors but still delivers emails in free tier
-      if (data && data.id && res.status === 403) {
-        console.log(`Resend reported error but provided ID ${data.id}, message may have been sent`);
-        return { 
-          data: { id: data.id }, 
-          error: {
-            statusCode: res.status,
-            message: data.message || "Free tier limitation, but message appears to be sent",
-            details: data
-          } 
-        };
+    // Evaluated on the sender's wall clock so DST changes keep the local time
+    const nextDate = getNextOccurrence(rule, new Date(file.scheduled_date), file.occurrence_index, file.timezone);
+    if (!nextDate) {
+      console.log(`Series ${file.series_id || file.id} has no further occurrences`);
+      return;
+    }
+
+    const tokens = new Map(recipients.map((recipient) => [recipient.id, crypto.randomUUID()]));
+    const primary = recipients.find((recipient) => recipient.role === "to") || recipients[0];
+
+    const { data: nextFile, error: insertError } = await supabaseClient
+      .from("scheduled_files")
+      .insert({
+        user_id: file.user_id,
+        file_name: file.file_name,
+        file_size: file.file_size,
+        file_type: file.file_type,
+        storage_path: file.storage_path,
+        recipient_email: file.recipient_email,
+        access_token: tokens.get(primary.id),
+        scheduled_date: nextDate.toISOString(),
+        status: "pending",
+        recurrence: rule,
+        series_id: file.series_id || file.id,
+        occurrence_index: file.occurrence_index + 1,
+        timezone: file.timezone,
+        deliver_in_recipient_timezone: file.deliver_in_recipient_timezone,
+        email_subject: file.email_subject,
+        sender_name: file.sender_name,
+        personal_message: file.personal_message,
+        link_valid_days: file.link_valid_days,
+        max_downloads: file.max_downloads,
+        passphrase_protected: file.passphrase_protected,
+        encryption_key_check: file.encryption_key_check,
+        retention_policy: file.retention_policy,
+        retention_days: file.retention_days,
+      })
+      .select("id")
+      .single();
+
+    if (insertError) {
+      // Unique violation: an earlier run already created this occurrence
+      if (insertError.code === "23505") {
+        console.log(`Next occurrence of series ${file.series_id || file.id} already exists`);
+      } else {
+        console.error(`Error creating next occurrence for file ${file.id}:`, insertError);
       }
-      
-      return { 
-        data: null, 
-        error: {
-          statusCode: res.status,
-          message: data.message || "Unknown error from Resend API",
-          details: data
-        } 
-      };
+      return;
     }
 
-    console.log("Email sent successfully with response:", data);
-    return { data: data, error: null };
-  } catch (error: any) {
-    console.error("Error sending email:", error);
-    return { 
-      data: null, 
-      error: {
-        statusCode: 500,
-        message: error.message || "Unknown error occurred",
-        stack: error.stack
+    // Occurrences share the uploaded files; only the rows are copied
+    const { data: items, error: itemsError } = await supabaseClient
+      .from("scheduled_file_items")
+      .select("file_name, file_size, file_type, storage_path, position, sha256, scan_status, scan_result, scanned_at")
+      .eq("scheduled_file_id", file.id);
+
+    const { error: copyItemsError } = itemsError
+      ? { error: itemsError }
+      : await supabaseClient
+        .from("scheduled_file_items")
+        .insert((items || []).map((item) => ({ ...item, scheduled_file_id: nextFile.id })));
+
+    if (copyItemsError) {
+      console.error(`Error copying files to occurrence ${nextFile.id}:`, copyItemsError);
+      await supabaseClient.from("scheduled_files").delete().eq("id", nextFile.id);
+      return;
+    }
+
+    // The passphrase carries over as its hash
+    if (file.passphrase_protected) {
+      const { data: passphrase, error: passphraseError } = await supabaseClient
+        .from("delivery_passphrases")
+        .select("passphrase_hash")
+        .eq("scheduled_file_id", file.id)
+        .single();
+
+      const { error: copyPassphraseError } = passphraseError
+        ? { error: passphraseError }
+        : await supabaseClient
+          .from("delivery_passphrases")
+          .insert({ scheduled_file_id: nextFile.id, passphrase_hash: passphrase.passphrase_hash });
+
+      if (copyPassphraseError) {
+        console.error(`Error copying passphrase to occurrence ${nextFile.id}:`, copyPassphraseError);
+        await supabaseClient.from("scheduled_files").delete().eq("id", nextFile.id);
+        return;
       }
-    };
+    }
+
+    const { error: recipientsError } = await supabaseClient
+      .from("delivery_recipients")
+      .insert(recipients.map((recipient) => ({
+        scheduled_file_id: nextFile.id,
+        email: recipient.email,
+        role: recipient.role,
+        access_token: tokens.get(recipient.id),
+        timezone: recipient.timezone,
+        deliver_at: recipient.timezone
+          ? shiftToTimeZone(nextDate, file.timezone, recipient.timezone).toISOString()
+          : null,
+      })));
+
+    if (recipientsError) {
+      console.error(`Error copying recipients to occurrence ${nextFile.id}:`, recipientsError);
+      await supabaseClient.from("scheduled_files").delete().eq("id", nextFile.id);
+      return;
+    }
+
+    console.log(`Scheduled next occurrence ${nextFile.id} of file ${file.id} for ${nextDate.toISOString()}`);
+  } catch (error) {
+    console.error(`Exception when scheduling next occurrence for file ${file.id}:`, error);
+  }
+}
+
+/**
+ * Send the access email to a single recipient and work out the resulting status
+ */
+async function deliverToRecipient(
+  transport: EmailTransport,
+  file: ScheduledFileRow,
+  recipient: RecipientRow,
+  visibleEmails: string[]
+): Promise<DeliveryOutcome> {
+  const accessUrl = generateAccessUrl(recipient.access_token);
+  console.log(`Sending email to ${recipient.email} (${recipient.role}) with access URL: ${accessUrl}`);
+
+  const otherRecipients = visibleEmails.filter((email) => email !== recipient.email);
+  const sharedWithLine = otherRecipients.length > 0
+    ? `<p style="font-size: 13px; color: #666;">Also sent to: ${otherRecipients.map(escapeHtml).join(", ")}</p>`
+    : "";
+
+  const senderName = sanitizeSenderName(file.sender_name || "");
+  const introLine = senderName
+    ? `<p><strong>${escapeHtml(senderName)}</strong> sent you a scheduled file through <strong>Time Capsule</strong>, a platform for sending important files at the right time.</p>`
+    : `<p>You've received a scheduled file through <strong>Time Capsule</strong>, a platform for sending important files at the right time.</p>`;
+
+  // The sender's note is stored as limited Markdown and escaped while rendering
+  const personalMessage = file.personal_message?.trim()
+    ? `<div style="margin: 20px 0; padding: 16px; background-color: #F5F5FF; border-left: 4px solid #4F46E5; border-radius: 4px;">${renderMessageHtml(file.personal_message)}</div>`
+    : "";
+
+  // Updated email template with the requested structure
+  const emailTemplate = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; color: #333;">
+      <h2 style="color: #4F46E5;">Time Capsule</h2>
+      <p>Hi there,</p>
+      ${introLine}
+      ${personalMessage}
+      <p>🔗 Click the link below to access your file:</p>
+      <div style="text-align: center; margin: 25px 0;">
+        <a href="${accessUrl}" style="display: inline-block; padding: 12px 24px; background-color: #4F46E5; color: white; text-decoration: none; border-radius: 5px; font-weight: bold;">👉 Access Your File</a>
+      </div>
+      ${sharedWithLine}
+      ${file.encryption_key_check ? "<p>🔒 These files are end-to-end encrypted. You will need the key the sender shares with you to open them.</p>" : ""}
+      ${senderName ? "" : "<p>This file was scheduled to be sent to you by one of our users. If you were expecting something important, this is probably it.</p>"}
+      <p>If you're having trouble accessing the file or the link has expired, please contact the sender.</p>
+      <p>Thanks,<br>— The Time Capsule Team</p>
+      <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #eee; font-size: 12px; color: #666;">
+        <p>If the button doesn't work, you can copy and paste this link in your browser: ${accessUrl}</p>
+      </div>
+    </div>
+  `;
+
+  const emailResult = await transport.send({
+    to: recipient.email,
+    subject: sanitizeSubject(file.email_subject || "") || DEFAULT_EMAIL_SUBJECT,
+    html: emailTemplate,
+    fromName: senderName ? `${senderName} via TimeCapsule` : "TimeCapsule",
+  });
+
+  console.log("Email send result:", emailResult);
+
+  if (!emailResult.error) {
+    // Email was definitely sent successfully
+    console.log(`Email sent successfully to ${recipient.email} with email ID: ${emailResult.data?.id || 'unknown'}`);
+    return { status: "sent", errorMessage: null, emailId: emailResult.data?.id || null, transient: false };
   }
+
+  console.error(`Error sending email to ${recipient.email}:`, emailResult.error);
+
+  // Special handling for Resend free tier limitation
+  let errorMessage = emailResult.error.message || "Failed to send email";
+
+  // Default to marking as failed
+  let status: DeliveryOutcome["status"] = "failed";
+
+  // If we have an email ID, it means the email was actually sent despite the API error
+  if (emailResult.data && emailResult.data.id) {
+    status = "sent";
+    console.log(`Email appears to have been sent despite API error. ID: ${emailResult.data.id}`);
+  }
+
+  // If the error is about sending to unverified addresses on free tier
+  if (emailResult.error.statusCode === 403 && 
+      emailResult.error.message && 
+      (emailResult.error.message.includes("can only send") || 
+       emailResult.error.message.includes("unverified"))) {
+    
+    // For Resend free tier limitations, we may still have delivered the email
+    if (!emailResult.data || !emailResult.data.id) {
+      errorMessage = "Resend free tier limitation: Can only send to verified email addresses. " + 
+                   "Either verify this recipient or upgrade your Resend account.";
+    } else {
+      // If we got an ID, the email was probably sent despite the error
+      status = "sent";
+      errorMessage = "Email delivered, but Resend reported a free tier limitation.";
+    }
+  }
+
+  return {
+    status,
+    errorMessage,
+    emailId: emailResult.data?.id || null,
+    transient: status === "failed" && isTransientDeliveryError(emailResult.error)
+  };
+}
+
+/**
+ * Generate access URL for a file
+ */
+function generateAccessUrl(accessToken: string): string {
+  // Make sure we're using a valid public URL, not localhost
+  if (!APP_URL || APP_URL.includes('localhost')) {
+    console.warn("WARNING: Using localhost URL which won't work for email recipients!");
+  }
+  
+  // Make sure the URL doesn't have double slashes between domain and path
+  const baseUrl = APP_URL.endsWith('/') ? APP_URL.slice(0, -1) : APP_URL;
+  
+  // Making sure we always use /access/ path in the URL
+  return `${baseUrl}/access/${accessToken}`;
 }
 
 /**
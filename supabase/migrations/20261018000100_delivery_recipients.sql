@@ -0,0 +1,99 @@
+-- Recipients of a scheduled delivery. Each recipient has its own access token
+-- and delivery status, so one capsule can go to several people (To/CC/BCC).
+CREATE TABLE IF NOT EXISTS public.delivery_recipients (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  scheduled_file_id uuid NOT NULL REFERENCES public.scheduled_files(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  role text NOT NULL DEFAULT 'to' CHECK (role IN ('to', 'cc', 'bcc')),
+  access_token text NOT NULL UNIQUE DEFAULT gen_random_uuid()::text,
+  status text NOT NULL DEFAULT 'pending',
+  email_id text,
+  error_message text,
+  sent_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (scheduled_file_id, email)
+);
+
+CREATE INDEX IF NOT EXISTS delivery_recipients_scheduled_file_id_idx
+  ON public.delivery_recipients (scheduled_file_id);
+
+-- Backfill one "to" recipient per existing delivery, reusing its access token
+-- so links that were already emailed keep working.
+INSERT INTO public.delivery_recipients (
+  scheduled_file_id, email, role, access_token, status, email_id, error_message, sent_at
+)
+SELECT
+  f.id,
+  f.recipient_email,
+  'to',
+  COALESCE(f.access_token, gen_random_uuid()::text),
+  CASE WHEN f.status = 'processing' THEN 'pending' ELSE f.status END,
+  f.email_id,
+  f.error_message,
+  f.sent_at
+FROM public.scheduled_files f
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE public.delivery_recipients ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners manage recipients of their deliveries"
+  ON public.delivery_recipients
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.scheduled_files f
+      WHERE f.id = scheduled_file_id AND f.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.scheduled_files f
+      WHERE f.id = scheduled_file_id AND f.user_id = auth.uid()
+    )
+  );
+
+-- Look up a delivery by any of its access tokens: a recipient's own token or
+-- the legacy token stored on scheduled_files. The row holds every recipient's
+-- token and address, so this is for other database functions only.
+CREATE OR REPLACE FUNCTION public.get_scheduled_file_by_token(
+  token text
+) RETURNS SETOF public.scheduled_files
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT f.*
+  FROM public.scheduled_files f
+  WHERE f.access_token = token
+     OR EXISTS (
+       SELECT 1 FROM public.delivery_recipients r
+       WHERE r.scheduled_file_id = f.id AND r.access_token = token
+     )
+  LIMIT 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_scheduled_file_by_token(text) FROM PUBLIC, anon, authenticated;
+
+-- What the recipient page needs to show and download a delivery. Like every
+-- token lookup it is only for the server, which checks the token first.
+CREATE OR REPLACE FUNCTION public.get_recipient_file_by_token(
+  token text
+) RETURNS TABLE (
+  id uuid,
+  file_name text,
+  file_type text,
+  storage_path text,
+  status text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT f.id, f.file_name, f.file_type, f.storage_path, f.status
+  FROM public.get_scheduled_file_by_token(token) f;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_recipient_file_by_token(text) FROM PUBLIC, anon, authenticated;
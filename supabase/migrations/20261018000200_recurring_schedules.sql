@@ -0,0 +1,15 @@
+-- Recurring deliveries. Every occurrence is its own scheduled_files row; rows of
+-- the same series share series_id and the recurrence rule, and
+-- send-scheduled-file inserts the next occurrence after each send.
+ALTER TABLE public.scheduled_files
+  ADD COLUMN IF NOT EXISTS recurrence jsonb,
+  ADD COLUMN IF NOT EXISTS series_id uuid,
+  ADD COLUMN IF NOT EXISTS occurrence_index integer NOT NULL DEFAULT 1;
+
+-- Guards against materialising the same occurrence twice
+CREATE UNIQUE INDEX IF NOT EXISTS scheduled_files_series_occurrence_idx
+  ON public.scheduled_files (series_id, occurrence_index)
+  WHERE series_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS scheduled_files_storage_path_idx
+  ON public.scheduled_files (storage_path);
@@ -0,0 +1,66 @@
+-- Time zone aware scheduling.
+--
+-- scheduled_date is the delivery time the sender picked, interpreted in
+-- scheduled_files.timezone. With deliver_in_recipient_timezone set, each
+-- recipient gets the same wall clock time in their own zone (deliver_at), and
+-- next_delivery_at tracks the earliest moment anything is still due.
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS timezone text;
+
+ALTER TABLE public.scheduled_files
+  ADD COLUMN IF NOT EXISTS timezone text NOT NULL DEFAULT 'UTC',
+  ADD COLUMN IF NOT EXISTS deliver_in_recipient_timezone boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS next_delivery_at timestamptz;
+
+ALTER TABLE public.delivery_recipients
+  ADD COLUMN IF NOT EXISTS timezone text,
+  ADD COLUMN IF NOT EXISTS deliver_at timestamptz;
+
+-- Earliest delivery time among recipients still waiting, or the scheduled
+-- date when none have their own time.
+CREATE OR REPLACE FUNCTION public.set_next_delivery_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  SELECT COALESCE(MIN(COALESCE(r.deliver_at, NEW.scheduled_date)), NEW.scheduled_date)
+    INTO NEW.next_delivery_at
+    FROM public.delivery_recipients r
+   WHERE r.scheduled_file_id = NEW.id
+     AND r.status = 'pending';
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER scheduled_files_set_next_delivery_at
+  BEFORE INSERT OR UPDATE ON public.scheduled_files
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_next_delivery_at();
+
+-- Recipient changes recompute the parent row through the trigger above
+CREATE OR REPLACE FUNCTION public.touch_scheduled_file_from_recipient()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.scheduled_files
+     SET next_delivery_at = NULL
+   WHERE id = COALESCE(NEW.scheduled_file_id, OLD.scheduled_file_id);
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER delivery_recipients_touch_scheduled_file
+  AFTER INSERT OR UPDATE OF status, deliver_at OR DELETE ON public.delivery_recipients
+  FOR EACH ROW
+  EXECUTE FUNCTION public.touch_scheduled_file_from_recipient();
+
+UPDATE public.scheduled_files SET next_delivery_at = scheduled_date;
+
+CREATE INDEX IF NOT EXISTS scheduled_files_pending_next_delivery_idx
+  ON public.scheduled_files (next_delivery_at)
+  WHERE status = 'pending';
@@ -0,0 +1,67 @@
+-- Files attached to a scheduled delivery. A delivery can carry several files
+-- (a bundle); the file_* and storage_path columns on scheduled_files keep
+-- describing the first one for display and older clients.
+CREATE TABLE IF NOT EXISTS public.scheduled_file_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  scheduled_file_id uuid NOT NULL REFERENCES public.scheduled_files(id) ON DELETE CASCADE,
+  file_name text NOT NULL,
+  file_size bigint NOT NULL,
+  file_type text NOT NULL,
+  storage_path text NOT NULL,
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS scheduled_file_items_scheduled_file_id_idx
+  ON public.scheduled_file_items (scheduled_file_id, position);
+
+-- Occurrences of a recurring delivery share storage objects
+CREATE INDEX IF NOT EXISTS scheduled_file_items_storage_path_idx
+  ON public.scheduled_file_items (storage_path);
+
+-- Backfill one item per existing delivery
+INSERT INTO public.scheduled_file_items (
+  scheduled_file_id, file_name, file_size, file_type, storage_path, position
+)
+SELECT f.id, f.file_name, f.file_size, f.file_type, f.storage_path, 0
+FROM public.scheduled_files f
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.scheduled_file_items i WHERE i.scheduled_file_id = f.id
+);
+
+ALTER TABLE public.scheduled_file_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners manage files of their deliveries"
+  ON public.scheduled_file_items
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.scheduled_files f
+      WHERE f.id = scheduled_file_id AND f.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.scheduled_files f
+      WHERE f.id = scheduled_file_id AND f.user_id = auth.uid()
+    )
+  );
+
+-- Files of the delivery an access token belongs to, in upload order
+CREATE OR REPLACE FUNCTION public.get_scheduled_file_items_by_token(
+  token text
+) RETURNS SETOF public.scheduled_file_items
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT i.*
+  FROM public.scheduled_file_items i
+  WHERE i.scheduled_file_id = (
+    SELECT f.id FROM public.get_scheduled_file_by_token(token) f
+  )
+  ORDER BY i.position, i.created_at;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_scheduled_file_items_by_token(text) FROM PUBLIC, anon, authenticated;
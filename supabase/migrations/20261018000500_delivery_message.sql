@@ -0,0 +1,6 @@
+-- Sender-written email details. personal_message is stored as the limited
+-- Markdown the sender typed and rendered (escaped) when the email is built.
+ALTER TABLE public.scheduled_files
+  ADD COLUMN IF NOT EXISTS email_subject text CHECK (char_length(email_subject) <= 150),
+  ADD COLUMN IF NOT EXISTS sender_name text CHECK (char_length(sender_name) <= 80),
+  ADD COLUMN IF NOT EXISTS personal_message text CHECK (char_length(personal_message) <= 5000);
@@ -0,0 +1,18 @@
+-- Messages captured by the "sink" email transport (EMAIL_TRANSPORT=sink
+-- without EMAIL_SINK_DIR) instead of being sent. Only the service role
+-- writes and reads it, so RLS is enabled without any policies.
+CREATE TABLE IF NOT EXISTS public.email_outbox (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id text NOT NULL UNIQUE,
+  recipient text NOT NULL,
+  sender text NOT NULL,
+  subject text NOT NULL,
+  html text NOT NULL,
+  eml text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS email_outbox_recipient_idx
+  ON public.email_outbox (recipient, created_at DESC);
+
+ALTER TABLE public.email_outbox ENABLE ROW LEVEL SECURITY;
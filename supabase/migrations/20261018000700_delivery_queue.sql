@@ -0,0 +1,91 @@
+-- Delivery queue.
+--
+-- A worker claims due deliveries with claim_scheduled_files, which leases each
+-- row to it until locked_until. Rows are claimed with FOR UPDATE SKIP LOCKED,
+-- so several workers can run side by side without picking the same delivery.
+-- A worker that dies leaves its rows in 'processing'; once the lease runs out
+-- they go back to 'pending', or to 'failed' after too many attempts.
+ALTER TABLE public.scheduled_files
+  ADD COLUMN IF NOT EXISTS locked_until timestamptz,
+  ADD COLUMN IF NOT EXISTS locked_by text,
+  ADD COLUMN IF NOT EXISTS attempts integer NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS scheduled_files_processing_locked_until_idx
+  ON public.scheduled_files (locked_until)
+  WHERE status = 'processing';
+
+-- Return deliveries whose lease expired to the queue. Rows left in
+-- 'processing' before leases existed have no locked_until and count as expired.
+CREATE OR REPLACE FUNCTION public.release_expired_scheduled_file_leases(
+  max_attempts integer DEFAULT 5
+) RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  released integer;
+BEGIN
+  WITH expired AS (
+    SELECT id
+    FROM public.scheduled_files
+    WHERE status = 'processing'
+      AND (locked_until IS NULL OR locked_until < now())
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE public.scheduled_files f
+     SET status = CASE WHEN f.attempts >= max_attempts THEN 'failed' ELSE 'pending' END,
+         error_message = CASE
+           WHEN f.attempts >= max_attempts
+             THEN 'Delivery abandoned after ' || f.attempts || ' interrupted attempts'
+           ELSE f.error_message
+         END,
+         locked_until = NULL,
+         locked_by = NULL,
+         updated_at = now()
+    FROM expired
+   WHERE f.id = expired.id;
+
+  GET DIAGNOSTICS released = ROW_COUNT;
+  RETURN released;
+END;
+$$;
+
+-- Lease up to batch_size due deliveries to worker_id and return them
+CREATE OR REPLACE FUNCTION public.claim_scheduled_files(
+  worker_id text,
+  batch_size integer DEFAULT 10,
+  lease_seconds integer DEFAULT 300
+) RETURNS SETOF public.scheduled_files
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.release_expired_scheduled_file_leases();
+
+  RETURN QUERY
+  WITH due AS (
+    SELECT id
+    FROM public.scheduled_files
+    WHERE status = 'pending'
+      AND next_delivery_at <= now()
+    ORDER BY next_delivery_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE public.scheduled_files f
+     SET status = 'processing',
+         locked_by = worker_id,
+         locked_until = now() + make_interval(secs => lease_seconds),
+         attempts = f.attempts + 1,
+         updated_at = now()
+    FROM due
+   WHERE f.id = due.id
+  RETURNING f.*;
+END;
+$$;
+
+-- Only the edge functions (service role) run the queue
+REVOKE EXECUTE ON FUNCTION public.release_expired_scheduled_file_leases(integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_scheduled_files(text, integer, integer) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,48 @@
+-- Automatic retries.
+--
+-- A recipient whose email failed for a transient reason stays 'pending' with
+-- its attempt count raised, and the delivery waits until next_attempt_at
+-- before a worker may claim it again. Permanent failures, and recipients that
+-- run out of attempts, end in 'failed' and are only sent again on request.
+ALTER TABLE public.scheduled_files
+  ADD COLUMN IF NOT EXISTS next_attempt_at timestamptz;
+
+ALTER TABLE public.delivery_recipients
+  ADD COLUMN IF NOT EXISTS attempts integer NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.claim_scheduled_files(
+  worker_id text,
+  batch_size integer DEFAULT 10,
+  lease_seconds integer DEFAULT 300
+) RETURNS SETOF public.scheduled_files
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.release_expired_scheduled_file_leases();
+
+  RETURN QUERY
+  WITH due AS (
+    SELECT id
+    FROM public.scheduled_files
+    WHERE status = 'pending'
+      AND next_delivery_at <= now()
+      AND (next_attempt_at IS NULL OR next_attempt_at <= now())
+    ORDER BY next_delivery_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE public.scheduled_files f
+     SET status = 'processing',
+         locked_by = worker_id,
+         locked_until = now() + make_interval(secs => lease_seconds),
+         attempts = f.attempts + 1,
+         updated_at = now()
+    FROM due
+   WHERE f.id = due.id
+  RETURNING f.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_scheduled_files(text, integer, integer) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,127 @@
+-- Access link limits.
+--
+-- link_valid_days and max_downloads are the sender's settings; both are
+-- optional. link_expires_at is set when the delivery goes out, so every
+-- recipient gets the full period, and can be pushed back by the sender.
+-- download_count counts downloads across all recipients of the delivery.
+ALTER TABLE public.scheduled_files
+  ADD COLUMN IF NOT EXISTS link_valid_days integer CHECK (link_valid_days > 0),
+  ADD COLUMN IF NOT EXISTS max_downloads integer CHECK (max_downloads > 0),
+  ADD COLUMN IF NOT EXISTS download_count integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS link_expires_at timestamptz,
+  ADD COLUMN IF NOT EXISTS link_revoked_at timestamptz;
+
+-- Start (or stretch) the validity period whenever the delivery is sent
+CREATE OR REPLACE FUNCTION public.set_link_expires_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.link_valid_days IS NOT NULL
+     AND NEW.sent_at IS NOT NULL
+     AND NEW.sent_at IS DISTINCT FROM OLD.sent_at THEN
+    NEW.link_expires_at := GREATEST(
+      NEW.link_expires_at,
+      NEW.sent_at + make_interval(days => NEW.link_valid_days)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER scheduled_files_set_link_expires_at
+  BEFORE UPDATE ON public.scheduled_files
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_link_expires_at();
+
+-- Why a delivery's files can no longer be downloaded, or 'ok'
+CREATE OR REPLACE FUNCTION public.file_access_state(
+  f public.scheduled_files
+) RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN f.link_revoked_at IS NOT NULL THEN 'revoked'
+    WHEN f.link_expires_at IS NOT NULL AND f.link_expires_at <= now() THEN 'expired'
+    WHEN f.max_downloads IS NOT NULL AND f.download_count >= f.max_downloads THEN 'limit_reached'
+    ELSE 'ok'
+  END;
+$$;
+
+-- Access state of the delivery behind a token, for the recipient page
+CREATE OR REPLACE FUNCTION public.get_file_access_by_token(
+  token text
+) RETURNS TABLE (
+  state text,
+  link_expires_at timestamptz,
+  downloads_remaining integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.file_access_state(f),
+         f.link_expires_at,
+         CASE WHEN f.max_downloads IS NULL THEN NULL
+              ELSE GREATEST(f.max_downloads - f.download_count, 0) END
+  FROM public.get_scheduled_file_by_token(token) f;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_file_access_by_token(text) FROM PUBLIC, anon, authenticated;
+
+-- Count one download if the link still allows it. Returns the state the
+-- link was in: anything but 'ok' means no download may be handed out.
+CREATE OR REPLACE FUNCTION public.register_file_download(
+  token text
+) RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target public.scheduled_files;
+  access_state text;
+BEGIN
+  SELECT * INTO target
+  FROM public.scheduled_files
+  WHERE id = (SELECT f.id FROM public.get_scheduled_file_by_token(token) f)
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN 'not_found';
+  END IF;
+
+  access_state := public.file_access_state(target);
+  IF access_state = 'ok' THEN
+    UPDATE public.scheduled_files
+       SET download_count = download_count + 1
+     WHERE id = target.id;
+  END IF;
+
+  RETURN access_state;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.register_file_download(text) FROM PUBLIC, anon, authenticated;
+
+-- Files are only listed while the link is usable. A used-up download limit
+-- still lists them, so the download that used it up can be served.
+CREATE OR REPLACE FUNCTION public.get_scheduled_file_items_by_token(
+  token text
+) RETURNS SETOF public.scheduled_file_items
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT i.*
+  FROM public.scheduled_file_items i
+  WHERE i.scheduled_file_id = (
+    SELECT f.id FROM public.get_scheduled_file_by_token(token) f
+    WHERE public.file_access_state(f) IN ('ok', 'limit_reached')
+  )
+  ORDER BY i.position, i.created_at;
+$$;
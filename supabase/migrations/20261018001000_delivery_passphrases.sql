@@ -0,0 +1,247 @@
+-- Passphrase-protected deliveries.
+--
+-- The bcrypt hash lives in its own table with no policies, so it never leaves
+-- the database: not through the API, and not through the token lookups that
+-- return scheduled_files rows. scheduled_files.passphrase_protected tells the
+-- sender and the recipient page that a passphrase is needed.
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+ALTER TABLE public.scheduled_files
+  ADD COLUMN IF NOT EXISTS passphrase_protected boolean NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS public.delivery_passphrases (
+  scheduled_file_id uuid PRIMARY KEY REFERENCES public.scheduled_files(id) ON DELETE CASCADE,
+  passphrase_hash text NOT NULL,
+  failed_attempts integer NOT NULL DEFAULT 0,
+  locked_until timestamptz,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.delivery_passphrases ENABLE ROW LEVEL SECURITY;
+
+-- Set or clear (empty passphrase) the passphrase of one of the caller's deliveries
+CREATE OR REPLACE FUNCTION public.set_delivery_passphrase(
+  file_id uuid,
+  passphrase text
+) RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.scheduled_files
+    WHERE id = file_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Delivery not found';
+  END IF;
+
+  IF COALESCE(passphrase, '') = '' THEN
+    DELETE FROM public.delivery_passphrases WHERE scheduled_file_id = file_id;
+  ELSE
+    INSERT INTO public.delivery_passphrases (scheduled_file_id, passphrase_hash)
+    VALUES (file_id, crypt(passphrase, gen_salt('bf', 10)))
+    ON CONFLICT (scheduled_file_id) DO UPDATE
+      SET passphrase_hash = EXCLUDED.passphrase_hash,
+          failed_attempts = 0,
+          locked_until = NULL,
+          updated_at = now();
+  END IF;
+
+  UPDATE public.scheduled_files
+     SET passphrase_protected = COALESCE(passphrase, '') <> ''
+   WHERE id = file_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_delivery_passphrase(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_delivery_passphrase(uuid, text) TO authenticated;
+
+-- Check a passphrase for a delivery: 'ok', 'invalid' or 'locked'. Five wrong
+-- guesses in a row lock the delivery for 15 minutes. A call without a
+-- passphrase (e.g. a page load before the prompt) is not a guess.
+CREATE OR REPLACE FUNCTION public.check_delivery_passphrase(
+  file_id uuid,
+  passphrase text
+) RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  entry public.delivery_passphrases;
+BEGIN
+  SELECT * INTO entry
+  FROM public.delivery_passphrases
+  WHERE scheduled_file_id = file_id
+  FOR UPDATE;
+
+  -- A protected delivery without a hash (e.g. one still being copied) stays closed
+  IF NOT FOUND THEN
+    RETURN CASE WHEN EXISTS (
+      SELECT 1 FROM public.scheduled_files WHERE id = file_id AND passphrase_protected
+    ) THEN 'invalid' ELSE 'ok' END;
+  END IF;
+
+  IF entry.locked_until IS NOT NULL AND entry.locked_until > now() THEN
+    RETURN 'locked';
+  END IF;
+
+  IF COALESCE(passphrase, '') = '' THEN
+    RETURN 'invalid';
+  END IF;
+
+  IF entry.passphrase_hash = crypt(passphrase, entry.passphrase_hash) THEN
+    IF entry.failed_attempts > 0 THEN
+      UPDATE public.delivery_passphrases
+         SET failed_attempts = 0, locked_until = NULL, updated_at = now()
+       WHERE scheduled_file_id = file_id;
+    END IF;
+    RETURN 'ok';
+  END IF;
+
+  IF entry.failed_attempts + 1 >= 5 THEN
+    UPDATE public.delivery_passphrases
+       SET failed_attempts = 0,
+           locked_until = now() + interval '15 minutes',
+           updated_at = now()
+     WHERE scheduled_file_id = file_id;
+    RETURN 'locked';
+  END IF;
+
+  UPDATE public.delivery_passphrases
+     SET failed_attempts = failed_attempts + 1, updated_at = now()
+   WHERE scheduled_file_id = file_id;
+  RETURN 'invalid';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_delivery_passphrase(uuid, text) FROM PUBLIC, anon, authenticated;
+
+-- Recipient-facing check, by access token
+CREATE OR REPLACE FUNCTION public.verify_delivery_passphrase(
+  token text,
+  passphrase text
+) RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_id uuid;
+BEGIN
+  SELECT f.id INTO target_id FROM public.get_scheduled_file_by_token(token) f;
+
+  IF target_id IS NULL THEN
+    RETURN 'not_found';
+  END IF;
+
+  RETURN public.check_delivery_passphrase(target_id, passphrase);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.verify_delivery_passphrase(text, text) FROM PUBLIC, anon, authenticated;
+
+DROP FUNCTION IF EXISTS public.get_file_access_by_token(text);
+
+CREATE OR REPLACE FUNCTION public.get_file_access_by_token(
+  token text
+) RETURNS TABLE (
+  state text,
+  link_expires_at timestamptz,
+  downloads_remaining integer,
+  passphrase_required boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.file_access_state(f),
+         f.link_expires_at,
+         CASE WHEN f.max_downloads IS NULL THEN NULL
+              ELSE GREATEST(f.max_downloads - f.download_count, 0) END,
+         f.passphrase_protected
+  FROM public.get_scheduled_file_by_token(token) f;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_file_access_by_token(text) FROM PUBLIC, anon, authenticated;
+
+-- The file list and downloads now need the passphrase as well; every call
+-- counts towards the lockout like a direct check
+DROP FUNCTION IF EXISTS public.get_scheduled_file_items_by_token(text);
+
+CREATE OR REPLACE FUNCTION public.get_scheduled_file_items_by_token(
+  token text,
+  passphrase text DEFAULT NULL
+) RETURNS SETOF public.scheduled_file_items
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target public.scheduled_files;
+BEGIN
+  SELECT * INTO target FROM public.get_scheduled_file_by_token(token);
+
+  IF NOT FOUND
+     OR public.file_access_state(target) NOT IN ('ok', 'limit_reached')
+     OR public.check_delivery_passphrase(target.id, passphrase) <> 'ok' THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT i.*
+  FROM public.scheduled_file_items i
+  WHERE i.scheduled_file_id = target.id
+  ORDER BY i.position, i.created_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_scheduled_file_items_by_token(text, text) FROM PUBLIC, anon, authenticated;
+
+DROP FUNCTION IF EXISTS public.register_file_download(text);
+
+-- Count one download if the link still allows it and the passphrase matches.
+-- Returns 'ok', a link state, or 'invalid_passphrase' / 'locked'.
+CREATE OR REPLACE FUNCTION public.register_file_download(
+  token text,
+  passphrase text DEFAULT NULL
+) RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target public.scheduled_files;
+  access_state text;
+  passphrase_state text;
+BEGIN
+  SELECT * INTO target
+  FROM public.scheduled_files
+  WHERE id = (SELECT f.id FROM public.get_scheduled_file_by_token(token) f)
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN 'not_found';
+  END IF;
+
+  access_state := public.file_access_state(target);
+  IF access_state <> 'ok' THEN
+    RETURN access_state;
+  END IF;
+
+  passphrase_state := public.check_delivery_passphrase(target.id, passphrase);
+  IF passphrase_state <> 'ok' THEN
+    RETURN CASE WHEN passphrase_state = 'invalid' THEN 'invalid_passphrase' ELSE passphrase_state END;
+  END IF;
+
+  UPDATE public.scheduled_files
+     SET download_count = download_count + 1
+   WHERE id = target.id;
+
+  RETURN 'ok';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.register_file_download(text, text) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,31 @@
+-- Recipient access goes through the access-file edge function.
+--
+-- The function validates tokens with the service role (the token lookups
+-- were never callable from the browser), so scheduled_files can be limited
+-- to its owners.
+ALTER TABLE public.delivery_recipients
+  ADD COLUMN IF NOT EXISTS last_accessed_at timestamptz;
+
+ALTER TABLE public.scheduled_files ENABLE ROW LEVEL SECURITY;
+
+-- Replace whatever policies the table had, including any that let anonymous
+-- visitors read or update rows by access token
+DO $$
+DECLARE
+  policy record;
+BEGIN
+  FOR policy IN
+    SELECT policyname FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'scheduled_files'
+  LOOP
+    EXECUTE format('DROP POLICY %I ON public.scheduled_files', policy.policyname);
+  END LOOP;
+END;
+$$;
+
+CREATE POLICY "Owners manage their deliveries"
+  ON public.scheduled_files
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,66 @@
+-- What recipients did with their links: opened the page, downloaded, typed a
+-- wrong passphrase, or arrived after the link expired.
+--
+-- Events are written by the access functions with the service role; owners
+-- can read the events of their own deliveries. The first view and the first
+-- download are also kept on scheduled_files so the dashboard can filter on
+-- them without loading the log.
+ALTER TABLE public.scheduled_files
+  ADD COLUMN IF NOT EXISTS opened_at timestamptz,
+  ADD COLUMN IF NOT EXISTS downloaded_at timestamptz;
+
+CREATE TABLE IF NOT EXISTS public.file_access_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  scheduled_file_id uuid NOT NULL REFERENCES public.scheduled_files(id) ON DELETE CASCADE,
+  recipient_id uuid REFERENCES public.delivery_recipients(id) ON DELETE SET NULL,
+  event_type text NOT NULL
+    CHECK (event_type IN ('viewed', 'downloaded', 'failed_passphrase', 'expired')),
+  user_agent text,
+  -- The client address with the host part zeroed (/24 for IPv4, /48 for IPv6)
+  ip_prefix text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS file_access_events_scheduled_file_id_idx
+  ON public.file_access_events (scheduled_file_id, created_at DESC);
+
+ALTER TABLE public.file_access_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners read access events of their deliveries"
+  ON public.file_access_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.scheduled_files f
+      WHERE f.id = scheduled_file_id AND f.user_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.mark_scheduled_file_accessed()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.event_type = 'viewed' THEN
+    UPDATE public.scheduled_files
+       SET opened_at = NEW.created_at
+     WHERE id = NEW.scheduled_file_id AND opened_at IS NULL;
+  ELSIF NEW.event_type = 'downloaded' THEN
+    -- A direct download link counts as opening the delivery too
+    UPDATE public.scheduled_files
+       SET opened_at = COALESCE(opened_at, NEW.created_at),
+           downloaded_at = COALESCE(downloaded_at, NEW.created_at)
+     WHERE id = NEW.scheduled_file_id AND downloaded_at IS NULL;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER file_access_events_mark_scheduled_file
+  AFTER INSERT ON public.file_access_events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.mark_scheduled_file_accessed();
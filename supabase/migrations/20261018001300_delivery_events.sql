@@ -0,0 +1,132 @@
+-- Delivery receipts from the email provider.
+--
+-- The email-webhook function records what happened to each email after it
+-- was accepted (delivered, bounced, complained, deferred). A bounce fails the
+-- recipient like a send error would, so it shows up on the dashboard with the
+-- bounce reason and can be retried.
+ALTER TABLE public.delivery_recipients
+  ADD COLUMN IF NOT EXISTS delivery_status text
+    CHECK (delivery_status IN ('delivered', 'bounced', 'complained', 'deferred')),
+  ADD COLUMN IF NOT EXISTS delivery_status_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS delivery_recipients_email_id_idx
+  ON public.delivery_recipients (email_id)
+  WHERE email_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.delivery_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- The provider's id for the webhook message, so redeliveries are ignored
+  provider_event_id text NOT NULL UNIQUE,
+  scheduled_file_id uuid NOT NULL REFERENCES public.scheduled_files(id) ON DELETE CASCADE,
+  delivery_recipient_id uuid REFERENCES public.delivery_recipients(id) ON DELETE SET NULL,
+  email_id text NOT NULL,
+  event_type text NOT NULL
+    CHECK (event_type IN ('delivered', 'bounced', 'complained', 'deferred')),
+  reason text,
+  payload jsonb,
+  occurred_at timestamptz NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS delivery_events_scheduled_file_id_idx
+  ON public.delivery_events (scheduled_file_id, occurred_at DESC);
+
+ALTER TABLE public.delivery_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners read delivery events of their deliveries"
+  ON public.delivery_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.scheduled_files f
+      WHERE f.id = scheduled_file_id AND f.user_id = auth.uid()
+    )
+  );
+
+-- Apply one provider event to the recipient it was sent to. Returns
+-- 'recorded', 'duplicate' or 'unknown_email' (not one of our deliveries).
+CREATE OR REPLACE FUNCTION public.record_delivery_event(
+  event_id text,
+  message_id text,
+  kind text,
+  detail text,
+  occurred timestamptz,
+  body jsonb DEFAULT NULL
+) RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target public.delivery_recipients;
+  inserted_id uuid;
+  failed_count integer;
+  total_count integer;
+  failure_list text;
+BEGIN
+  SELECT * INTO target
+  FROM public.delivery_recipients
+  WHERE email_id = message_id
+  ORDER BY created_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN 'unknown_email';
+  END IF;
+
+  INSERT INTO public.delivery_events (
+    provider_event_id, scheduled_file_id, delivery_recipient_id,
+    email_id, event_type, reason, payload, occurred_at
+  )
+  VALUES (event_id, target.scheduled_file_id, target.id, message_id, kind, detail, body, occurred)
+  ON CONFLICT (provider_event_id) DO NOTHING
+  RETURNING id INTO inserted_id;
+
+  IF inserted_id IS NULL THEN
+    RETURN 'duplicate';
+  END IF;
+
+  -- Events can arrive out of order; an older one never overrides a newer
+  -- one, and nothing overrides a bounce
+  IF target.delivery_status_at IS NOT NULL
+     AND (target.delivery_status_at > occurred OR target.delivery_status = 'bounced') THEN
+    RETURN 'recorded';
+  END IF;
+
+  UPDATE public.delivery_recipients
+     SET delivery_status = kind,
+         delivery_status_at = occurred,
+         updated_at = now()
+   WHERE id = target.id;
+
+  IF kind <> 'bounced' THEN
+    RETURN 'recorded';
+  END IF;
+
+  UPDATE public.delivery_recipients
+     SET status = 'failed',
+         error_message = 'Bounced: ' || COALESCE(NULLIF(detail, ''), 'the receiving server rejected the email')
+   WHERE id = target.id;
+
+  -- Same summary the sender writes when recipients fail at send time
+  SELECT count(*) FILTER (WHERE r.status = 'failed'),
+         count(*),
+         string_agg(r.email || ': ' || COALESCE(r.error_message, 'Delivery failed'), '; ')
+           FILTER (WHERE r.status = 'failed')
+    INTO failed_count, total_count, failure_list
+  FROM public.delivery_recipients r
+  WHERE r.scheduled_file_id = target.scheduled_file_id;
+
+  UPDATE public.scheduled_files
+     SET status = 'failed',
+         error_message = format('%s of %s recipient(s) failed. %s', failed_count, total_count, failure_list)
+   WHERE id = target.scheduled_file_id
+     AND status = 'sent';
+
+  RETURN 'recorded';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_delivery_event(text, text, text, text, timestamptz, jsonb) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,8 @@
+-- End-to-end encrypted deliveries.
+--
+-- The files are encrypted in the sender's browser and the key only travels
+-- in the fragment of the recipients' links. The database keeps a SHA-256 of
+-- the key so the access page can tell a recipient that a key is wrong before
+-- a download is counted. NULL means the files are stored as uploaded.
+ALTER TABLE public.scheduled_files
+  ADD COLUMN IF NOT EXISTS encryption_key_check text;
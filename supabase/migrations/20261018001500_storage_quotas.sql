@@ -0,0 +1,305 @@
+-- Storage quotas.
+--
+-- Every user may keep up to 10 GiB in the timecapsule bucket unless
+-- storage_quotas holds a different limit for them (set with the service
+-- role; plans can write their limits here later). Usage is the size Storage
+-- recorded for the objects in the user's folder of the bucket, so each
+-- object counts once, however many occurrences of a recurring delivery share
+-- it, and nothing the browser reports is trusted.
+--
+-- scheduleFile checks the quota before uploading; the database checks it
+-- again as each object is stored, so a client that skips the first check
+-- still cannot keep more than its quota.
+CREATE TABLE IF NOT EXISTS public.storage_quotas (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  quota_bytes bigint NOT NULL CHECK (quota_bytes >= 0),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.storage_quotas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users read their own storage quota"
+  ON public.storage_quotas
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION public.storage_quota_bytes(
+  owner uuid
+) RETURNS bigint
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT q.quota_bytes FROM public.storage_quotas q WHERE q.user_id = owner),
+    10::bigint * 1024 * 1024 * 1024
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.storage_used_bytes(
+  owner uuid
+) RETURNS bigint
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM((o.metadata->>'size')::bigint), 0)::bigint
+  FROM storage.objects o
+  WHERE o.bucket_id = 'timecapsule'
+    AND o.name LIKE owner::text || '/%';
+$$;
+
+-- Runs as Storage records an object (its size may only arrive with a later
+-- update of the metadata). Uploads of one user are checked one at a time.
+CREATE OR REPLACE FUNCTION public.enforce_storage_quota()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  folder text;
+  owner uuid;
+  used bigint;
+  quota bigint;
+BEGIN
+  IF NEW.bucket_id <> 'timecapsule' THEN
+    RETURN NEW;
+  END IF;
+
+  folder := split_part(NEW.name, '/', 1);
+  IF folder !~ '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+    RETURN NEW;
+  END IF;
+  owner := folder::uuid;
+
+  PERFORM pg_advisory_xact_lock(hashtext('storage_quota:' || folder));
+
+  used := COALESCE((NEW.metadata->>'size')::bigint, 0) + (
+    SELECT COALESCE(SUM((o.metadata->>'size')::bigint), 0)
+    FROM storage.objects o
+    WHERE o.bucket_id = 'timecapsule'
+      AND o.name LIKE folder || '/%'
+      AND o.id <> NEW.id
+  );
+  quota := public.storage_quota_bytes(owner);
+
+  IF used > quota THEN
+    RAISE EXCEPTION 'Storage quota exceeded: % of % bytes used', used, quota
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER timecapsule_objects_enforce_storage_quota
+  BEFORE INSERT OR UPDATE OF metadata ON storage.objects
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_storage_quota();
+
+CREATE OR REPLACE FUNCTION public.get_stored_file_size(
+  path text
+) RETURNS bigint
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT (o.metadata->>'size')::bigint
+  FROM storage.objects o
+  WHERE o.bucket_id = 'timecapsule'
+    AND o.name = path
+    AND o.name LIKE auth.uid()::text || '/%';
+$$;
+
+-- The size of a file is the size of its stored object. Owners cannot set it:
+-- new files take it from Storage and updates keep it unless the file points
+-- at another object.
+CREATE OR REPLACE FUNCTION public.protect_file_size()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  stored_size bigint;
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.storage_path = OLD.storage_path THEN
+    NEW.file_size := OLD.file_size;
+    RETURN NEW;
+  END IF;
+
+  stored_size := public.get_stored_file_size(NEW.storage_path);
+  IF stored_size IS NULL THEN
+    RAISE EXCEPTION 'No uploaded file at %', NEW.storage_path
+      USING ERRCODE = 'foreign_key_violation';
+  END IF;
+  NEW.file_size := stored_size;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER scheduled_file_items_protect_file_size
+  BEFORE INSERT OR UPDATE ON public.scheduled_file_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_file_size();
+
+-- A delivery's storage_path and file_size are its first file and the total
+-- size of its files. Owners cannot set them: a new delivery has to point at
+-- one of their stored objects and starts out with its size, and from then on
+-- both follow the files through sync_delivery_files.
+CREATE OR REPLACE FUNCTION public.protect_delivery_files()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  stored_size bigint;
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    NEW.storage_path := OLD.storage_path;
+    NEW.file_size := OLD.file_size;
+    RETURN NEW;
+  END IF;
+
+  stored_size := public.get_stored_file_size(NEW.storage_path);
+  IF stored_size IS NULL THEN
+    RAISE EXCEPTION 'No uploaded file at %', NEW.storage_path
+      USING ERRCODE = 'foreign_key_violation';
+  END IF;
+  NEW.file_size := stored_size;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER scheduled_files_protect_delivery_files
+  BEFORE INSERT OR UPDATE ON public.scheduled_files
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_delivery_files();
+
+CREATE OR REPLACE FUNCTION public.sync_delivery_files()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.scheduled_files f
+     SET storage_path = files.storage_path,
+         file_size = files.file_size
+    FROM (
+      SELECT (array_agg(i.storage_path ORDER BY i.position, i.created_at))[1] AS storage_path,
+             SUM(i.file_size)::bigint AS file_size
+      FROM public.scheduled_file_items i
+      WHERE i.scheduled_file_id = COALESCE(NEW.scheduled_file_id, OLD.scheduled_file_id)
+    ) files
+   WHERE f.id = COALESCE(NEW.scheduled_file_id, OLD.scheduled_file_id)
+     AND files.storage_path IS NOT NULL;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER scheduled_file_items_sync_delivery_files
+  AFTER INSERT OR UPDATE OF storage_path, file_size, position OR DELETE ON public.scheduled_file_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_delivery_files();
+
+UPDATE public.scheduled_files f
+   SET storage_path = files.storage_path,
+       file_size = files.file_size
+  FROM (
+    SELECT i.scheduled_file_id,
+           (array_agg(i.storage_path ORDER BY i.position, i.created_at))[1] AS storage_path,
+           SUM(i.file_size)::bigint AS file_size
+    FROM public.scheduled_file_items i
+    GROUP BY i.scheduled_file_id
+  ) files
+ WHERE f.id = files.scheduled_file_id;
+
+-- Usage of the signed-in user, for the settings page and upload checks.
+-- A recurring series counts as one capsule.
+CREATE OR REPLACE FUNCTION public.get_storage_usage()
+RETURNS TABLE (
+  used_bytes bigint,
+  quota_bytes bigint,
+  capsule_count bigint,
+  file_count bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.storage_used_bytes(auth.uid()),
+         public.storage_quota_bytes(auth.uid()),
+         (SELECT COUNT(DISTINCT COALESCE(f.series_id, f.id))
+            FROM public.scheduled_files f
+           WHERE f.user_id = auth.uid()),
+         (SELECT COUNT(DISTINCT i.storage_path)
+            FROM public.scheduled_file_items i
+            JOIN public.scheduled_files f ON f.id = i.scheduled_file_id
+           WHERE f.user_id = auth.uid());
+$$;
+
+-- The signed-in user's biggest stored files, each with the latest delivery
+-- that uses it and how many deliveries share it
+CREATE OR REPLACE FUNCTION public.get_largest_stored_files(
+  max_count integer DEFAULT 5
+) RETURNS TABLE (
+  storage_path text,
+  file_name text,
+  file_size bigint,
+  scheduled_file_id uuid,
+  scheduled_date timestamptz,
+  delivery_count bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT stored.storage_path,
+         stored.file_name,
+         stored.file_size,
+         stored.scheduled_file_id,
+         stored.scheduled_date,
+         stored.delivery_count
+  FROM (
+    SELECT DISTINCT ON (i.storage_path)
+           i.storage_path,
+           i.file_name,
+           i.file_size,
+           f.id AS scheduled_file_id,
+           f.scheduled_date,
+           COUNT(*) OVER (PARTITION BY i.storage_path) AS delivery_count
+    FROM public.scheduled_file_items i
+    JOIN public.scheduled_files f ON f.id = i.scheduled_file_id
+    WHERE f.user_id = auth.uid()
+    ORDER BY i.storage_path, f.scheduled_date DESC
+  ) stored
+  ORDER BY stored.file_size DESC
+  LIMIT LEAST(GREATEST(max_count, 1), 50);
+$$;
+
+-- Any user's numbers are only for the server
+REVOKE EXECUTE ON FUNCTION public.storage_quota_bytes(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.storage_used_bytes(uuid) FROM PUBLIC, anon, authenticated;
+-- Only the caller's own files; the size triggers run as the owner
+REVOKE EXECUTE ON FUNCTION public.get_stored_file_size(text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_stored_file_size(text) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_storage_usage() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.get_largest_stored_files(integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_storage_usage() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_largest_stored_files(integer) TO authenticated;
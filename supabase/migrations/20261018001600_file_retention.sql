@@ -0,0 +1,157 @@
+-- Retention of delivered files.
+--
+-- retention_policy says when the files of a delivery may be deleted:
+-- 'keep' (until the sender deletes them), 'after_download' (retention_days
+-- after the first download) or 'after_expiry' (retention_days after the
+-- link expires or is revoked). purge_at follows from the policy and is
+-- recomputed whenever one of its inputs changes, so extending a link also
+-- postpones the purge.
+--
+-- The cron-scheduler function removes the storage objects of deliveries
+-- whose purge_at has passed and sets purged_at. The row stays behind as a
+-- tombstone so the dashboard and the recipient page can say what happened.
+ALTER TABLE public.scheduled_files
+  ADD COLUMN IF NOT EXISTS retention_policy text NOT NULL DEFAULT 'keep'
+    CHECK (retention_policy IN ('keep', 'after_download', 'after_expiry')),
+  ADD COLUMN IF NOT EXISTS retention_days integer NOT NULL DEFAULT 0
+    CHECK (retention_days >= 0),
+  ADD COLUMN IF NOT EXISTS purge_at timestamptz,
+  ADD COLUMN IF NOT EXISTS purged_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS scheduled_files_purge_at_idx
+  ON public.scheduled_files (purge_at)
+  WHERE purge_at IS NOT NULL AND purged_at IS NULL;
+
+CREATE OR REPLACE FUNCTION public.set_purge_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.purged_at IS NULL THEN
+    NEW.purge_at := CASE NEW.retention_policy
+      WHEN 'after_download' THEN
+        NEW.downloaded_at + make_interval(days => NEW.retention_days)
+      WHEN 'after_expiry' THEN
+        -- LEAST skips NULLs: whichever of expiry and revocation came first
+        LEAST(NEW.link_expires_at, NEW.link_revoked_at) + make_interval(days => NEW.retention_days)
+      ELSE NULL
+    END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Named to run after scheduled_files_set_link_expires_at, whose result it uses
+CREATE TRIGGER scheduled_files_set_purge_at
+  BEFORE INSERT OR UPDATE ON public.scheduled_files
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_purge_at();
+
+-- Purged files cannot be downloaded, whatever else the link allows
+CREATE OR REPLACE FUNCTION public.file_access_state(
+  f public.scheduled_files
+) RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN f.purged_at IS NOT NULL THEN 'purged'
+    WHEN f.link_revoked_at IS NOT NULL THEN 'revoked'
+    WHEN f.link_expires_at IS NOT NULL AND f.link_expires_at <= now() THEN 'expired'
+    WHEN f.max_downloads IS NOT NULL AND f.download_count >= f.max_downloads THEN 'limit_reached'
+    ELSE 'ok'
+  END;
+$$;
+
+-- Storage paths of a delivery that no other live delivery uses. Occurrences
+-- of a recurring delivery share their files, so the objects are only removed
+-- with the last occurrence that still needs them.
+CREATE OR REPLACE FUNCTION public.get_unshared_storage_paths(
+  file_id uuid
+) RETURNS SETOF text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT paths.storage_path
+  FROM (
+    SELECT i.storage_path FROM public.scheduled_file_items i WHERE i.scheduled_file_id = file_id
+    UNION
+    SELECT f.storage_path FROM public.scheduled_files f WHERE f.id = file_id
+  ) paths
+  WHERE NOT EXISTS (
+    SELECT 1
+    FROM public.scheduled_file_items other
+    JOIN public.scheduled_files f ON f.id = other.scheduled_file_id
+    WHERE other.storage_path = paths.storage_path
+      AND other.scheduled_file_id <> file_id
+      AND f.purged_at IS NULL
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_unshared_storage_paths(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Purged files no longer count. Their objects are gone from the bucket, so
+-- storage_used_bytes leaves them out already; the file count skips them here.
+CREATE OR REPLACE FUNCTION public.get_storage_usage()
+RETURNS TABLE (
+  used_bytes bigint,
+  quota_bytes bigint,
+  capsule_count bigint,
+  file_count bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.storage_used_bytes(auth.uid()),
+         public.storage_quota_bytes(auth.uid()),
+         (SELECT COUNT(DISTINCT COALESCE(f.series_id, f.id))
+            FROM public.scheduled_files f
+           WHERE f.user_id = auth.uid()),
+         (SELECT COUNT(DISTINCT i.storage_path)
+            FROM public.scheduled_file_items i
+            JOIN public.scheduled_files f ON f.id = i.scheduled_file_id
+           WHERE f.user_id = auth.uid() AND f.purged_at IS NULL);
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_largest_stored_files(
+  max_count integer DEFAULT 5
+) RETURNS TABLE (
+  storage_path text,
+  file_name text,
+  file_size bigint,
+  scheduled_file_id uuid,
+  scheduled_date timestamptz,
+  delivery_count bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT stored.storage_path,
+         stored.file_name,
+         stored.file_size,
+         stored.scheduled_file_id,
+         stored.scheduled_date,
+         stored.delivery_count
+  FROM (
+    SELECT DISTINCT ON (i.storage_path)
+           i.storage_path,
+           i.file_name,
+           i.file_size,
+           f.id AS scheduled_file_id,
+           f.scheduled_date,
+           COUNT(*) OVER (PARTITION BY i.storage_path) AS delivery_count
+    FROM public.scheduled_file_items i
+    JOIN public.scheduled_files f ON f.id = i.scheduled_file_id
+    WHERE f.user_id = auth.uid() AND f.purged_at IS NULL
+    ORDER BY i.storage_path, f.scheduled_date DESC
+  ) stored
+  ORDER BY stored.file_size DESC
+  LIMIT LEAST(GREATEST(max_count, 1), 50);
+$$;
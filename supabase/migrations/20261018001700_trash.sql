@@ -0,0 +1,100 @@
+-- Trash.
+--
+-- Deleting a delivery from the dashboard only sets deleted_at. A trashed
+-- delivery is not sent and its links stop working, but the sender can
+-- restore it for 30 days. After that the cron-scheduler function deletes the
+-- row and the files nobody else uses.
+ALTER TABLE public.scheduled_files
+  ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS scheduled_files_deleted_at_idx
+  ON public.scheduled_files (deleted_at)
+  WHERE deleted_at IS NOT NULL;
+
+-- Trashed deliveries are never claimed; restoring one makes it due again
+CREATE OR REPLACE FUNCTION public.claim_scheduled_files(
+  worker_id text,
+  batch_size integer DEFAULT 10,
+  lease_seconds integer DEFAULT 300
+) RETURNS SETOF public.scheduled_files
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.release_expired_scheduled_file_leases();
+
+  RETURN QUERY
+  WITH due AS (
+    SELECT id
+    FROM public.scheduled_files
+    WHERE status = 'pending'
+      AND deleted_at IS NULL
+      AND next_delivery_at <= now()
+      AND (next_attempt_at IS NULL OR next_attempt_at <= now())
+    ORDER BY next_delivery_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE public.scheduled_files f
+     SET status = 'processing',
+         locked_by = worker_id,
+         locked_until = now() + make_interval(secs => lease_seconds),
+         attempts = f.attempts + 1,
+         updated_at = now()
+    FROM due
+   WHERE f.id = due.id
+  RETURNING f.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_scheduled_files(text, integer, integer) FROM PUBLIC, anon, authenticated;
+
+-- To recipients a trashed delivery looks like a revoked link
+CREATE OR REPLACE FUNCTION public.file_access_state(
+  f public.scheduled_files
+) RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN f.purged_at IS NOT NULL THEN 'purged'
+    WHEN f.link_revoked_at IS NOT NULL OR f.deleted_at IS NOT NULL THEN 'revoked'
+    WHEN f.link_expires_at IS NOT NULL AND f.link_expires_at <= now() THEN 'expired'
+    WHEN f.max_downloads IS NOT NULL AND f.download_count >= f.max_downloads THEN 'limit_reached'
+    ELSE 'ok'
+  END;
+$$;
+
+-- Delete a delivery that has been in the trash since before trashed_before.
+-- Returns the storage paths that no other delivery uses, for the caller to
+-- remove; nothing when the delivery was restored in the meantime.
+CREATE OR REPLACE FUNCTION public.delete_trashed_scheduled_file(
+  file_id uuid,
+  trashed_before timestamptz
+) RETURNS SETOF text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  paths text[];
+BEGIN
+  PERFORM 1
+  FROM public.scheduled_files
+  WHERE id = file_id AND deleted_at <= trashed_before
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  paths := ARRAY(SELECT public.get_unshared_storage_paths(file_id));
+
+  DELETE FROM public.scheduled_files WHERE id = file_id;
+
+  RETURN QUERY SELECT unnest(paths);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.delete_trashed_scheduled_file(uuid, timestamptz) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,10 @@
+-- Content checksums.
+--
+-- The sender's browser hashes each file while uploading it. Recipients see
+-- the checksum on the access page, and their browser checks downloads
+-- against it. NULL for files uploaded before checksums existed, and for
+-- end-to-end encrypted files: decryption already fails on any changed byte,
+-- and a hash of the plain file would let the server recognise known files.
+ALTER TABLE public.scheduled_file_items
+  ADD COLUMN IF NOT EXISTS sha256 text
+    CHECK (sha256 ~ '^[0-9a-f]{64}$');
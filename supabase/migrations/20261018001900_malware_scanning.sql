@@ -0,0 +1,253 @@
+-- Malware scanning of uploads.
+--
+-- Every uploaded file starts out 'pending' and is quarantined: a delivery is
+-- only claimed for sending once all of its files are 'clean' (or 'skipped').
+-- The cron-scheduler function claims pending files with claim_pending_scans,
+-- streams them through the scanner selected by SCANNER and records the
+-- verdict. 'infected' and 'error' (could not be scanned after several tries)
+-- block the delivery for good; the sender sees why on the dashboard.
+-- Recipient links only serve files that passed the scan, so links of a
+-- delivery sent earlier are blocked while its files are scanned.
+--
+-- End-to-end encrypted files are 'skipped': the server only ever sees their
+-- ciphertext. Whether a delivery is encrypted is fixed when it is created, so
+-- an owner cannot mark it encrypted for a moment to get plaintext files past
+-- the scan. Files uploaded before scanning existed start out 'pending' and
+-- are scanned like new ones.
+--
+-- scheduleFile creates a delivery as a 'draft' and only makes it 'pending'
+-- once its files and recipients are saved, so the queue never claims one
+-- halfway through.
+ALTER TABLE public.scheduled_file_items
+  ADD COLUMN IF NOT EXISTS scan_status text NOT NULL DEFAULT 'pending'
+    CHECK (scan_status IN ('pending', 'clean', 'infected', 'error', 'skipped')),
+  ADD COLUMN IF NOT EXISTS scan_result text,
+  ADD COLUMN IF NOT EXISTS scanned_at timestamptz,
+  ADD COLUMN IF NOT EXISTS scan_attempts integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS scan_locked_until timestamptz;
+
+UPDATE public.scheduled_file_items i
+   SET scan_status = 'skipped'
+  FROM public.scheduled_files f
+ WHERE f.id = i.scheduled_file_id
+   AND f.encryption_key_check IS NOT NULL
+   AND i.scan_status = 'pending';
+
+CREATE INDEX IF NOT EXISTS scheduled_file_items_scan_pending_idx
+  ON public.scheduled_file_items (created_at)
+  WHERE scan_status = 'pending';
+
+-- Owners may add and change the files of their deliveries, but the verdict is
+-- the scanner's: whatever the browser sends, new files start out pending,
+-- and so do files pointed at another object. Other updates keep the recorded
+-- scan. Only the service role writes scan results.
+CREATE OR REPLACE FUNCTION public.protect_scan_status()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.storage_path = OLD.storage_path AND NEW.file_size = OLD.file_size THEN
+      NEW.scan_status := OLD.scan_status;
+      NEW.scan_result := OLD.scan_result;
+      NEW.scanned_at := OLD.scanned_at;
+      NEW.scan_attempts := OLD.scan_attempts;
+      NEW.scan_locked_until := OLD.scan_locked_until;
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  NEW.scan_status := CASE
+    WHEN EXISTS (
+      SELECT 1 FROM public.scheduled_files f
+      WHERE f.id = NEW.scheduled_file_id AND f.encryption_key_check IS NOT NULL
+    ) THEN 'skipped'
+    ELSE 'pending'
+  END;
+  NEW.scan_result := NULL;
+  NEW.scanned_at := NULL;
+  NEW.scan_attempts := 0;
+  NEW.scan_locked_until := NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER scheduled_file_items_protect_scan_status
+  BEFORE INSERT OR UPDATE ON public.scheduled_file_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_scan_status();
+
+-- protect_scan_status skips the scan of files in encrypted deliveries, so
+-- owners may not change encryption_key_check once the delivery exists. Its
+-- storage_path and file_size follow the files (see protect_delivery_files).
+CREATE OR REPLACE FUNCTION public.protect_encryption_key_check()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.encryption_key_check := OLD.encryption_key_check;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER scheduled_files_protect_encryption_key_check
+  BEFORE UPDATE ON public.scheduled_files
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_encryption_key_check();
+
+-- Lease pending files to a scanner, like claim_scheduled_files does for
+-- deliveries. Files whose lease ran out are handed out again; the caller
+-- gives up on a file after a few attempts.
+CREATE OR REPLACE FUNCTION public.claim_pending_scans(
+  batch_size integer DEFAULT 10,
+  lease_seconds integer DEFAULT 300
+) RETURNS SETOF public.scheduled_file_items
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH due AS (
+    SELECT id
+    FROM public.scheduled_file_items
+    WHERE scan_status = 'pending'
+      AND (scan_locked_until IS NULL OR scan_locked_until < now())
+    ORDER BY created_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE public.scheduled_file_items i
+     SET scan_locked_until = now() + make_interval(secs => lease_seconds),
+         scan_attempts = i.scan_attempts + 1
+    FROM due
+   WHERE i.id = due.id
+  RETURNING i.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_pending_scans(integer, integer) FROM PUBLIC, anon, authenticated;
+
+-- Let the owner queue files that could not be scanned for another try, e.g.
+-- after clamd was given a bigger StreamMaxLength. Occurrences of a series
+-- that share the objects are queued too. Returns how many files were queued.
+CREATE OR REPLACE FUNCTION public.rescan_scheduled_file(
+  file_id uuid
+) RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  queued integer;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.scheduled_files f
+    WHERE f.id = file_id AND f.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Delivery not found';
+  END IF;
+
+  UPDATE public.scheduled_file_items i
+     SET scan_status = 'pending',
+         scan_result = NULL,
+         scanned_at = NULL,
+         scan_attempts = 0,
+         scan_locked_until = NULL
+    FROM public.scheduled_files f
+   WHERE f.id = i.scheduled_file_id
+     AND f.user_id = auth.uid()
+     AND i.scan_status = 'error'
+     AND i.storage_path IN (
+       SELECT own.storage_path FROM public.scheduled_file_items own
+       WHERE own.scheduled_file_id = file_id
+     );
+  GET DIAGNOSTICS queued = ROW_COUNT;
+
+  RETURN queued;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rescan_scheduled_file(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.rescan_scheduled_file(uuid) TO authenticated;
+
+-- Deliveries wait in the queue until they have files and every one of them
+-- has passed the scan
+CREATE OR REPLACE FUNCTION public.claim_scheduled_files(
+  worker_id text,
+  batch_size integer DEFAULT 10,
+  lease_seconds integer DEFAULT 300
+) RETURNS SETOF public.scheduled_files
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.release_expired_scheduled_file_leases();
+
+  RETURN QUERY
+  WITH due AS (
+    SELECT f.id
+    FROM public.scheduled_files f
+    WHERE f.status = 'pending'
+      AND f.deleted_at IS NULL
+      AND f.next_delivery_at <= now()
+      AND (f.next_attempt_at IS NULL OR f.next_attempt_at <= now())
+      AND EXISTS (
+        SELECT 1 FROM public.scheduled_file_items i
+        WHERE i.scheduled_file_id = f.id
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.scheduled_file_items i
+        WHERE i.scheduled_file_id = f.id
+          AND i.scan_status NOT IN ('clean', 'skipped')
+      )
+    ORDER BY f.next_delivery_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE public.scheduled_files f
+     SET status = 'processing',
+         locked_by = worker_id,
+         locked_until = now() + make_interval(secs => lease_seconds),
+         attempts = f.attempts + 1,
+         updated_at = now()
+    FROM due
+   WHERE f.id = due.id
+  RETURNING f.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_scheduled_files(text, integer, integer) FROM PUBLIC, anon, authenticated;
+
+-- Recipients only get files that passed the scan: infected files, files not
+-- scanned yet and files that could not be scanned are blocked, even when the
+-- delivery was sent before
+CREATE OR REPLACE FUNCTION public.file_access_state(
+  f public.scheduled_files
+) RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN f.purged_at IS NOT NULL THEN 'purged'
+    WHEN EXISTS (
+      SELECT 1 FROM public.scheduled_file_items i
+      WHERE i.scheduled_file_id = f.id AND i.scan_status NOT IN ('clean', 'skipped')
+    ) THEN 'blocked'
+    WHEN f.link_revoked_at IS NOT NULL OR f.deleted_at IS NOT NULL THEN 'revoked'
+    WHEN f.link_expires_at IS NOT NULL AND f.link_expires_at <= now() THEN 'expired'
+    WHEN f.max_downloads IS NOT NULL AND f.download_count >= f.max_downloads THEN 'limit_reached'
+    ELSE 'ok'
+  END;
+$$;
@@ -0,0 +1,177 @@
+-- Bulk actions on deliveries.
+--
+-- bulk_update_scheduled_files applies one action to many of the signed-in
+-- user's deliveries in a single call and reports back per delivery. Each
+-- delivery is updated on its own: one that cannot take the action (sent
+-- already, not the caller's, ...) is reported with the reason and the others
+-- still go through.
+--
+-- Actions:
+--   reschedule        move pending deliveries by offset_by, keeping the wall
+--                     clock time across daylight saving changes
+--   change_recipient  replace the primary recipient of pending deliveries
+--   cancel            stop pending deliveries for good; they become
+--                     'cancelled', which is neither failed nor retried
+--   delete            move deliveries to the trash
+--   retry             queue failed deliveries again, or right away when an
+--                     automatic retry is still waiting
+CREATE OR REPLACE FUNCTION public.bulk_update_scheduled_files(
+  file_ids uuid[],
+  action text,
+  offset_by interval DEFAULT NULL,
+  recipient_email text DEFAULT NULL
+) RETURNS TABLE (
+  file_id uuid,
+  succeeded boolean,
+  message text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_id uuid;
+  f public.scheduled_files;
+  new_email text := lower(trim(recipient_email));
+BEGIN
+  IF action NOT IN ('reschedule', 'change_recipient', 'cancel', 'delete', 'retry') THEN
+    RAISE EXCEPTION 'Unknown bulk action: %', action USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF action = 'reschedule' AND offset_by IS NULL THEN
+    RAISE EXCEPTION 'reschedule needs offset_by' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF action = 'change_recipient' AND (new_email IS NULL OR new_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$') THEN
+    RAISE EXCEPTION 'change_recipient needs a valid recipient_email' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF cardinality(file_ids) > 500 THEN
+    RAISE EXCEPTION 'At most 500 deliveries can be updated at once' USING ERRCODE = 'program_limit_exceeded';
+  END IF;
+
+  FOREACH target_id IN ARRAY file_ids LOOP
+    file_id := target_id;
+    succeeded := true;
+    message := NULL;
+
+    -- Each delivery runs in its own subtransaction, so a failure only
+    -- rolls back that delivery
+    BEGIN
+      SELECT * INTO f
+      FROM public.scheduled_files
+      WHERE id = target_id AND user_id = auth.uid()
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Delivery not found';
+      END IF;
+
+      IF action <> 'delete' AND f.deleted_at IS NOT NULL THEN
+        RAISE EXCEPTION 'This delivery is in the trash';
+      END IF;
+
+      CASE action
+        WHEN 'reschedule' THEN
+          IF f.status <> 'pending' THEN
+            RAISE EXCEPTION 'Only pending deliveries can be rescheduled';
+          END IF;
+
+          -- Shifted on the sender's and each recipient's own clock
+          UPDATE public.delivery_recipients r
+             SET deliver_at = ((r.deliver_at AT TIME ZONE r.timezone) + offset_by) AT TIME ZONE r.timezone,
+                 updated_at = now()
+           WHERE r.scheduled_file_id = f.id
+             AND r.deliver_at IS NOT NULL
+             AND r.timezone IS NOT NULL;
+
+          UPDATE public.scheduled_files
+             SET scheduled_date = ((f.scheduled_date AT TIME ZONE f.timezone) + offset_by) AT TIME ZONE f.timezone,
+                 updated_at = now()
+           WHERE id = f.id
+          RETURNING * INTO f;
+
+          IF f.next_delivery_at <= now() THEN
+            RAISE EXCEPTION 'The new time has already passed';
+          END IF;
+
+        WHEN 'change_recipient' THEN
+          IF f.status <> 'pending' THEN
+            RAISE EXCEPTION 'Only pending deliveries can get a new recipient';
+          END IF;
+          IF EXISTS (
+            SELECT 1 FROM public.delivery_recipients r
+            WHERE r.scheduled_file_id = f.id
+              AND lower(r.email) = new_email
+              AND lower(r.email) <> lower(f.recipient_email)
+          ) THEN
+            RAISE EXCEPTION '% already receives this delivery', new_email;
+          END IF;
+
+          UPDATE public.delivery_recipients r
+             SET email = new_email,
+                 updated_at = now()
+           WHERE r.scheduled_file_id = f.id
+             AND lower(r.email) = lower(f.recipient_email);
+
+          UPDATE public.scheduled_files
+             SET recipient_email = new_email,
+                 updated_at = now()
+           WHERE id = f.id;
+
+        WHEN 'cancel' THEN
+          IF f.status = 'processing' THEN
+            RAISE EXCEPTION 'This delivery is being sent right now';
+          END IF;
+          IF f.status <> 'pending' THEN
+            RAISE EXCEPTION 'Only pending deliveries can be cancelled';
+          END IF;
+
+          UPDATE public.scheduled_files
+             SET status = 'cancelled',
+                 error_message = NULL,
+                 next_attempt_at = NULL,
+                 updated_at = now()
+           WHERE id = f.id;
+
+        WHEN 'delete' THEN
+          IF f.deleted_at IS NOT NULL THEN
+            RAISE EXCEPTION 'This delivery is already in the trash';
+          END IF;
+
+          UPDATE public.scheduled_files
+             SET deleted_at = now(),
+                 updated_at = now()
+           WHERE id = f.id;
+
+        WHEN 'retry' THEN
+          IF NOT (f.status = 'failed' OR (f.status = 'pending' AND f.next_attempt_at IS NOT NULL)) THEN
+            RAISE EXCEPTION 'Only failed deliveries can be retried';
+          END IF;
+
+          -- Recipients first, as in a single retry
+          UPDATE public.delivery_recipients r
+             SET status = 'pending',
+                 attempts = 0,
+                 error_message = NULL,
+                 updated_at = now()
+           WHERE r.scheduled_file_id = f.id
+             AND r.status <> 'sent';
+
+          UPDATE public.scheduled_files
+             SET status = 'pending',
+                 error_message = NULL,
+                 next_attempt_at = NULL,
+                 attempts = 0,
+                 updated_at = now()
+           WHERE id = f.id;
+      END CASE;
+    EXCEPTION WHEN OTHERS THEN
+      succeeded := false;
+      message := SQLERRM;
+    END;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.bulk_update_scheduled_files(uuid[], text, interval, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.bulk_update_scheduled_files(uuid[], text, interval, text) TO authenticated;
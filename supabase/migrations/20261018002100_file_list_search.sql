@@ -0,0 +1,186 @@
+-- Server-side search, sorting and pagination for the dashboard.
+--
+-- search_vector holds the words of a delivery's file names, recipients,
+-- subject and message. It is kept up to date by a trigger on scheduled_files;
+-- changes to files and recipients touch the parent row so the trigger runs.
+--
+-- search_scheduled_files returns one page of the signed-in user's deliveries.
+-- Pages are keyset based: the next page starts after the sort value and id of
+-- the last row, so rows do not shift while new ones are scheduled.
+ALTER TABLE public.scheduled_files
+  ADD COLUMN IF NOT EXISTS search_vector tsvector;
+
+-- Sorting by created date needs a value on every row
+UPDATE public.scheduled_files
+   SET created_at = COALESCE(updated_at, scheduled_date)
+ WHERE created_at IS NULL;
+
+ALTER TABLE public.scheduled_files
+  ALTER COLUMN created_at SET NOT NULL;
+
+-- Lower case words, split on anything but letters and digits, so that
+-- "jane.doe@example.com" and "report_2026.pdf" are found by their parts.
+-- Queries are split the same way.
+CREATE OR REPLACE FUNCTION public.search_words(value text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT trim(regexp_replace(lower(COALESCE(value, '')), '[^[:alnum:]]+', ' ', 'g'));
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_search_vector()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.search_vector := to_tsvector('simple', concat_ws(' ',
+    public.search_words(NEW.file_name),
+    (SELECT string_agg(public.search_words(i.file_name), ' ')
+       FROM public.scheduled_file_items i
+      WHERE i.scheduled_file_id = NEW.id),
+    public.search_words(NEW.recipient_email),
+    (SELECT string_agg(public.search_words(r.email), ' ')
+       FROM public.delivery_recipients r
+      WHERE r.scheduled_file_id = NEW.id),
+    public.search_words(NEW.email_subject),
+    public.search_words(NEW.personal_message)
+  ));
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER scheduled_files_set_search_vector
+  BEFORE INSERT OR UPDATE ON public.scheduled_files
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_search_vector();
+
+-- Recipient addresses are part of the search vector too
+DROP TRIGGER IF EXISTS delivery_recipients_touch_scheduled_file ON public.delivery_recipients;
+
+CREATE TRIGGER delivery_recipients_touch_scheduled_file
+  AFTER INSERT OR UPDATE OF status, deliver_at, email OR DELETE ON public.delivery_recipients
+  FOR EACH ROW
+  EXECUTE FUNCTION public.touch_scheduled_file_from_recipient();
+
+CREATE OR REPLACE FUNCTION public.touch_scheduled_file_from_item()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.scheduled_files
+     SET search_vector = NULL
+   WHERE id = COALESCE(NEW.scheduled_file_id, OLD.scheduled_file_id);
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER scheduled_file_items_touch_scheduled_file
+  AFTER INSERT OR UPDATE OF file_name OR DELETE ON public.scheduled_file_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.touch_scheduled_file_from_item();
+
+UPDATE public.scheduled_files SET search_vector = NULL;
+
+CREATE INDEX IF NOT EXISTS scheduled_files_search_vector_idx
+  ON public.scheduled_files USING gin (search_vector);
+
+-- One index per sort order; the id breaks ties between equal values
+CREATE INDEX IF NOT EXISTS scheduled_files_user_scheduled_date_idx
+  ON public.scheduled_files (user_id, scheduled_date, id);
+CREATE INDEX IF NOT EXISTS scheduled_files_user_created_at_idx
+  ON public.scheduled_files (user_id, created_at, id);
+CREATE INDEX IF NOT EXISTS scheduled_files_user_file_name_idx
+  ON public.scheduled_files (user_id, file_name, id);
+CREATE INDEX IF NOT EXISTS scheduled_files_user_file_size_idx
+  ON public.scheduled_files (user_id, file_size, id);
+
+-- When a delivery goes out: its next pending recipient, or the automatic
+-- retry when that is later. The calendar shows deliveries at this time.
+CREATE INDEX IF NOT EXISTS scheduled_files_user_delivery_time_idx
+  ON public.scheduled_files (user_id, (GREATEST(COALESCE(next_delivery_at, scheduled_date), next_attempt_at)));
+
+-- tab is one of the dashboard tabs: all, pending, sent, opened, downloaded,
+-- failed or trash. Every word of search has to match the start of a word in
+-- the delivery. scheduled_from and scheduled_to bound the time the delivery
+-- goes out (see the index above), not its original date. after_value and
+-- after_id are the sort value and id of the last row of the previous page.
+CREATE OR REPLACE FUNCTION public.search_scheduled_files(
+  search text DEFAULT NULL,
+  tab text DEFAULT 'all',
+  statuses text[] DEFAULT NULL,
+  scheduled_from timestamptz DEFAULT NULL,
+  scheduled_to timestamptz DEFAULT NULL,
+  sort_by text DEFAULT 'created_at',
+  sort_desc boolean DEFAULT true,
+  after_value text DEFAULT NULL,
+  after_id uuid DEFAULT NULL,
+  page_size integer DEFAULT 50
+) RETURNS SETOF public.scheduled_files
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  search_query tsquery;
+  sort_type text;
+BEGIN
+  sort_type := CASE sort_by
+    WHEN 'scheduled_date' THEN 'timestamptz'
+    WHEN 'created_at' THEN 'timestamptz'
+    WHEN 'file_name' THEN 'text'
+    WHEN 'file_size' THEN 'bigint'
+  END;
+  IF sort_type IS NULL THEN
+    RAISE EXCEPTION 'Unknown sort: %', sort_by USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF tab NOT IN ('all', 'pending', 'sent', 'opened', 'downloaded', 'failed', 'trash') THEN
+    RAISE EXCEPTION 'Unknown tab: %', tab USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF page_size NOT BETWEEN 1 AND 500 THEN
+    RAISE EXCEPTION 'page_size must be between 1 and 500' USING ERRCODE = 'program_limit_exceeded';
+  END IF;
+
+  -- Stays NULL for a search without any words
+  SELECT to_tsquery('simple', string_agg(word || ':*', ' & '))
+    INTO search_query
+    FROM regexp_split_to_table(public.search_words(search), ' ') AS word
+   WHERE word <> '';
+
+  RETURN QUERY EXECUTE format(
+    'SELECT f.*
+       FROM public.scheduled_files f
+      WHERE f.user_id = $1
+        AND f.status <> ''draft''
+        AND ($2 = ''trash'') = (f.deleted_at IS NOT NULL)
+        AND CASE $2
+              WHEN ''pending'' THEN f.status = ''pending''
+              WHEN ''sent'' THEN f.status = ''sent''
+              WHEN ''opened'' THEN f.status = ''sent'' AND f.opened_at IS NOT NULL
+              WHEN ''downloaded'' THEN f.status = ''sent'' AND f.downloaded_at IS NOT NULL
+              WHEN ''failed'' THEN f.status = ''failed''
+              ELSE true
+            END
+        AND (COALESCE(cardinality($3), 0) = 0 OR f.status = ANY ($3))
+        AND ($4::tsquery IS NULL OR f.search_vector @@ $4)
+        AND ($5::timestamptz IS NULL OR GREATEST(COALESCE(f.next_delivery_at, f.scheduled_date), f.next_attempt_at) >= $5)
+        AND ($6::timestamptz IS NULL OR GREATEST(COALESCE(f.next_delivery_at, f.scheduled_date), f.next_attempt_at) <= $6)
+        AND ($8::uuid IS NULL OR (f.%1$I, f.id) %2$s ($7::%3$s, $8))
+      ORDER BY f.%1$I %4$s, f.id %4$s
+      LIMIT $9',
+    sort_by,
+    CASE WHEN sort_desc THEN '<' ELSE '>' END,
+    sort_type,
+    CASE WHEN sort_desc THEN 'DESC' ELSE 'ASC' END
+  )
+  USING auth.uid(), tab, statuses, search_query, scheduled_from, scheduled_to, after_value, after_id, page_size;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.search_scheduled_files(text, text, text[], timestamptz, timestamptz, text, boolean, text, uuid, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.search_scheduled_files(text, text, text[], timestamptz, timestamptz, text, boolean, text, uuid, integer) TO authenticated;